@@ -1,31 +1,215 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { GoogleGenAI, LiveServerMessage, Modality } from '@google/genai';
-import { Mic, MicOff, PhoneOff, Activity, ShieldCheck, HeartPulse, FileText, User } from 'lucide-react';
-import { Agent, ConnectionState } from './types';
-import { AGENTS, BASE_SYSTEM_INSTRUCTION } from './constants';
-import { createBlob, decode, decodeAudioData } from './utils/audioUtils';
+import { BarChart3, Circle, Download, FileCheck2, Globe, GraduationCap, Hand, Keyboard, MessageSquareText, Mic, MicOff, PhoneOff, ShieldCheck, User, Users, Volume2, VolumeX } from 'lucide-react';
+import { Agent, AudioSettings, AuditDetails, AuditEventType, CheckInRecord, ConnectionState, ConsultationMode, ContentStamp, EscalationEvent, GuardrailRule, InputMode, MicMode, PatientProfile, LiveToolResponse, LiveVoiceMessage, LiveVoiceSession, Message, PreOpChecklist, Procedure, RecoveryLog, SessionMetrics, SessionSummary, SpeakingState, TeachBackResult } from './types';
+import { AGENT_CONFIG_ERRORS, GUARDRAIL_CONFIG_ERRORS, GUARDRAIL_RULES } from './constants';
+import { INPUT_SAMPLE_RATE, OUTPUT_SAMPLE_RATE, decode, decodeAudioData } from './utils/audioUtils';
+import { createCaptureNode, ensureCaptureWorklet } from './utils/captureWorklet';
+import { appendTranscriptChunk, finalizeTranscript } from './utils/transcriptUtils';
+import { ESCALATION_FUNCTION_NAME, escalationDeclaration, parseEscalationCall } from './utils/escalation';
+import { buildSystemInstruction, formatHandoffContext } from './utils/systemInstruction';
+import { findAgentVoice, localizeAgent } from './utils/agentRegistry';
+import { HANDOFF_TRIGGER, attributeAgentTurns, transferTargets } from './utils/handoff';
+import { loadAudioSettings, microphoneConstraints, routeAudioOutput, saveAudioSettings } from './utils/audioSettings';
+import { buildSessionSummary } from './utils/sessionSummary';
+import { createVoiceActivityDetector } from './utils/voiceActivity';
+import { forgetPatientData, loadPatientProfile, savePatientProfile } from './utils/patientProfile';
+import { ActiveContent, BUILT_IN_ACTIVE_CONTENT, applyContent, stampContent } from './utils/clinicalContent';
+import { catalogGuardrailRules, findGuardrailViolations, flagLatestModelTurn, guardrailsCoverLanguage } from './utils/guardrails';
+import {
+  addChecklistItem,
+  applyChecklistCall,
+  buildChecklist,
+  checklistDeclarations,
+  clearChecklist,
+  isChecklistCall,
+  loadChecklist,
+  removeChecklistItem,
+  rescheduleChecklist,
+  saveChecklist,
+  setChecklistItemDone,
+} from './utils/preOpChecklist';
+import {
+  applyCheckInCall,
+  checkInDeclarations,
+  isCheckInCall,
+  loadRecoveryLog,
+  saveRecoveryLog,
+  startCheckIn,
+  upsertCheckIn,
+} from './utils/recoveryCheckIn';
+import { TEACHBACK_TRIGGER, applyTeachBackCall, isTeachBackCall, teachBackDeclarations } from './utils/teachBack';
+import { downloadFile, summaryFileName } from './utils/summaryExport';
+import { SessionRecorder, createSessionRecorder } from './utils/sessionRecording';
+import { SessionMetricsTracker, createSessionMetricsTracker, saveSessionMetrics } from './utils/sessionMetrics';
+import { createAuditLog } from './services/auditLog';
+import { createContentClient } from './services/contentClient';
+import { createLiveVoiceProvider } from './services/liveVoiceProvider';
+import { LANGUAGES } from './locales';
+import { useLocale } from './locales/LocaleContext';
+import AgentTransfer from './components/AgentTransfer';
+import AudioSettingsPanel from './components/AudioSettingsPanel';
 import AudioVisualizer from './components/AudioVisualizer';
+import CapabilityList from './components/CapabilityList';
+import CheckInProgress from './components/CheckInProgress';
+import ChatComposer from './components/ChatComposer';
+import EscalationBanner from './components/EscalationBanner';
+import PatientProfilePanel from './components/PatientProfilePanel';
+import PlaybackControls from './components/PlaybackControls';
+import PreOpChecklistPanel from './components/PreOpChecklistPanel';
+import ProcedurePicker from './components/ProcedurePicker';
+import RecoveryPanel from './components/RecoveryPanel';
+import TeachBackPanel from './components/TeachBackPanel';
+import SessionSummaryPanel from './components/SessionSummaryPanel';
+import TranscriptPanel from './components/TranscriptPanel';
+
+const liveProvider = createLiveVoiceProvider();
+const auditLog = createAuditLog();
+const contentClient = createContentClient();
+
+// Backoff between reconnect attempts; the call ends once these run out
+const RECONNECT_DELAYS_MS = [500, 1000, 2000, 4000, 8000];
+// Up to 5 s of 20 ms mic frames are kept while the connection is down
+const MAX_PENDING_FRAMES = 250;
+
+const MIC_MODE_STORAGE_KEY = 'atoscare.mic-mode';
+const MIC_MODES: MicMode[] = ['open', 'push_to_talk', 'hands_free'];
+
+const loadMicMode = (): MicMode => {
+  const saved = localStorage.getItem(MIC_MODE_STORAGE_KEY) as MicMode | null;
+  return saved && MIC_MODES.includes(saved) ? saved : 'open';
+};
+
+// The procedure's saved checklist, with its times recomputed from the pre-op plan now in force
+const loadCurrentChecklist = (procedure: Procedure | null): PreOpChecklist | null => {
+  const stored = procedure && loadChecklist(procedure.id);
+  return stored && rescheduleChecklist(stored, procedure, stored.surgeryAt);
+};
+
+// Opens on the procedure from the intake form, if the patient filled it in
+const profileProcedure = (profile: PatientProfile | null): Procedure | null =>
+  BUILT_IN_ACTIVE_CONTENT.procedures.find(p => p.id === profile?.procedureId) ?? null;
 
 const App: React.FC = () => {
+  const { language, strings, setLanguage } = useLocale();
   const [selectedAgent, setSelectedAgent] = useState<Agent | null>(null);
+  const [profile, setProfile] = useState<PatientProfile | null>(loadPatientProfile);
+  const [selectedProcedure, setSelectedProcedure] = useState<Procedure | null>(() => profileProcedure(profile));
   const [connectionState, setConnectionState] = useState<ConnectionState>('disconnected');
   const [isMicOn, setIsMicOn] = useState(true);
+  const [micMode, setMicMode] = useState<MicMode>(loadMicMode);
+  const [audioSettings, setAudioSettings] = useState<AudioSettings>(loadAudioSettings);
+  // True while mic audio is actually being streamed to the agent
+  const [micGateOpen, setMicGateOpen] = useState(false);
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
+  const [messages, setMessages] = useState<Message[]>([]);
+  const [escalations, setEscalations] = useState<EscalationEvent[]>([]);
+  const [speakingState, setSpeakingState] = useState<SpeakingState>('idle');
+  const [inputAnalyser, setInputAnalyser] = useState<AnalyserNode | null>(null);
+  const [outputAnalyser, setOutputAnalyser] = useState<AnalyserNode | null>(null);
+  const [reconnectAttempt, setReconnectAttempt] = useState(0);
+  const [transferringTo, setTransferringTo] = useState<Agent | null>(null);
+  const [inputMode, setInputMode] = useState<InputMode>('voice');
+  const [readAloud, setReadAloud] = useState(true);
+  const [noticeMsg, setNoticeMsg] = useState<string | null>(null);
+  const [sessionSummary, setSessionSummary] = useState<SessionSummary | null>(null);
+  const [checklist, setChecklist] = useState<PreOpChecklist | null>(() => loadCurrentChecklist(selectedProcedure));
+  const [consultationMode, setConsultationMode] = useState<ConsultationMode>('education');
+  const [recoveryLog, setRecoveryLog] = useState<RecoveryLog | null>(() => selectedProcedure && loadRecoveryLog(selectedProcedure.id));
+  const [checkInRecord, setCheckInRecord] = useState<CheckInRecord | null>(null);
+  const [teachBack, setTeachBack] = useState<TeachBackResult | null>(null);
+  const [recordingConsent, setRecordingConsent] = useState(false);
+  const [isRecording, setIsRecording] = useState(false);
+  // The ended session's recording, offered for download beside its summary
+  const [finishedRecording, setFinishedRecording] = useState<SessionRecorder | null>(null);
+  // Prompts and education text: the approved version once it loads, the built-in copy until then
+  const [activeContent, setActiveContent] = useState<ActiveContent>(BUILT_IN_ACTIVE_CONTENT);
   
   // Refs for audio handling to avoid re-render loops
   const inputAudioContextRef = useRef<AudioContext | null>(null);
   const outputAudioContextRef = useRef<AudioContext | null>(null);
+  const outputGainRef = useRef<GainNode | null>(null);
+  const audioSettingsRef = useRef(audioSettings);
   const streamRef = useRef<MediaStream | null>(null);
   const sourceRef = useRef<MediaStreamAudioSourceNode | null>(null);
-  const processorRef = useRef<ScriptProcessorNode | null>(null);
+  const antiAliasRef = useRef<BiquadFilterNode | null>(null);
+  const captureNodeRef = useRef<AudioWorkletNode | null>(null);
   const nextStartTimeRef = useRef<number>(0);
   const audioSourcesRef = useRef<Set<AudioBufferSourceNode>>(new Set());
-  const sessionPromiseRef = useRef<Promise<any> | null>(null);
+  const sessionPromiseRef = useRef<Promise<LiveVoiceSession> | null>(null);
+
+  // Refs for reconnection
+  const sessionOpenRef = useRef(false);
+  // Set by the server's first message: an open socket alone does not mean the session was accepted
+  const sessionConfirmedRef = useRef(false);
+  const resumptionHandleRef = useRef<string | null>(null);
+  const reconnectAttemptRef = useRef(0);
+  const reconnectTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const pendingAudioRef = useRef<Int16Array[]>([]);
+
+  // Read by the playback path, which outlives the render that started the call
+  const readAloudRef = useRef(true);
+
+  // Read by the capture worklet's message handler, which outlives the render that started it
+  const isMicOnRef = useRef(true);
+  const micModeRef = useRef<MicMode>(micMode);
+  const talkHeldRef = useRef(false);
+  const micGateOpenRef = useRef(false);
+  const voiceActivityRef = useRef(createVoiceActivityDetector());
+
+  // Set once the first connection of a call opens
+  const sessionStartedAtRef = useRef<Date | null>(null);
+  // Ties together the audit events of one call, reconnects included
+  const auditSessionIdRef = useRef<string | null>(null);
+  // Transcript turns already written to the audit log, so a transfer and the final hang-up do not repeat them
+  const auditedTurnsRef = useRef(0);
+  // Anonymized usage counts for the analytics dashboard
+  const metricsRef = useRef<SessionMetricsTracker | null>(null);
+  const messagesRef = useRef<Message[]>([]);
+  // Content the call started on; reconnects keep using it even if a new version is approved meanwhile
+  const sessionContentRef = useRef<{ content: ActiveContent; stamp: ContentStamp } | null>(null);
+  // Briefing for the assistant a call was transferred to; kept for its reconnects
+  const handoffContextRef = useRef('');
+
+  // Read and updated by agent tool calls during the session
+  const checklistRef = useRef<PreOpChecklist | null>(checklist);
+  const recoveryLogRef = useRef<RecoveryLog | null>(recoveryLog);
+  // Today's check-in while a check-in session is running, otherwise null
+  const checkInRef = useRef<CheckInRecord | null>(null);
+  // Set once the patient starts the teach-back check
+  const teachBackRef = useRef<TeachBackResult | null>(null);
+
+  // Only set when the patient consented to recording before the call started
+  const recorderRef = useRef<SessionRecorder | null>(null);
+
+  // Guardrail state for the agent reply in progress, reset at each turn boundary
+  const guardrailTextRef = useRef('');
+  const guardrailFiredRef = useRef<Set<string>>(new Set());
+  const guardrailMutedRef = useRef(false); // Drop the rest of the reply's audio
+  const guardrailDisclaimerDueRef = useRef(false); // Speak the disclaimer once the reply ends
 
   // Initialize contexts on mount
   useEffect(() => {
-    inputAudioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
-    outputAudioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
+    // Input runs at the device's native rate; the capture worklet resamples to 16 kHz
+    inputAudioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)();
+    outputAudioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: OUTPUT_SAMPLE_RATE });
+
+    // Level taps for the visualizer. Playback is routed through the output
+    // analyser, then the volume control, so speech detection ignores volume.
+    const micAnalyser = inputAudioContextRef.current.createAnalyser();
+    micAnalyser.fftSize = 512;
+    const playbackAnalyser = outputAudioContextRef.current.createAnalyser();
+    playbackAnalyser.fftSize = 512;
+    const playbackGain = outputAudioContextRef.current.createGain();
+    playbackGain.gain.value = audioSettingsRef.current.volume;
+    playbackAnalyser.connect(playbackGain);
+    playbackGain.connect(outputAudioContextRef.current.destination);
+    outputGainRef.current = playbackGain;
+    setInputAnalyser(micAnalyser);
+    setOutputAnalyser(playbackAnalyser);
+
+    // A saved headset may have been unplugged since; playback then stays on the default
+    routeAudioOutput(outputAudioContextRef.current, audioSettingsRef.current.outputDeviceId)
+      .catch((err) => console.warn("Could not route audio to the saved output device", err));
 
     return () => {
       disconnect();
@@ -35,10 +219,67 @@ const App: React.FC = () => {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  useEffect(() => {
+    messagesRef.current = messages;
+  }, [messages]);
+
+  // Switch to the clinician-approved content. Without a server or an approved
+  // version the built-in content stays, and sessions are stamped as using it.
+  useEffect(() => {
+    contentClient.fetchApproved()
+      .then((approved) => {
+        if (!approved) return;
+        const next = applyContent(approved.content, approved.number, approved.approvedBy, approved.approvedAt);
+        setActiveContent(next);
+        setSelectedProcedure(prev => (prev && next.procedures.find(p => p.id === prev.id)) ?? prev);
+        // Arrival and fasting times follow the approved pre-op plan
+        const current = checklistRef.current;
+        const procedure = current && next.procedures.find(p => p.id === current.procedureId);
+        if (current && procedure) updateChecklist(rescheduleChecklist(current, procedure, current.surgeryAt));
+      })
+      .catch((err) => console.warn("Approved content unavailable, using the built-in content", err));
+  }, []);
+
+  // Spacebar works as the push-to-talk button, except while typing in a field
+  const pushToTalkActive = connectionState === 'connected' && inputMode === 'voice' && micMode === 'push_to_talk';
+  useEffect(() => {
+    if (!pushToTalkActive) return;
+
+    const isTyping = (e: KeyboardEvent) =>
+      e.target instanceof HTMLElement && (e.target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(e.target.tagName));
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || isTyping(e)) return;
+      e.preventDefault();
+      if (!e.repeat) setTalkHeld(true);
+    };
+    const onKeyUp = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || isTyping(e)) return;
+      e.preventDefault();
+      setTalkHeld(false);
+    };
+    // Releasing the key in another window would otherwise leave the mic open
+    const onBlur = () => setTalkHeld(false);
+
+    window.addEventListener('keydown', onKeyDown);
+    window.addEventListener('keyup', onKeyUp);
+    window.addEventListener('blur', onBlur);
+    return () => {
+      window.removeEventListener('keydown', onKeyDown);
+      window.removeEventListener('keyup', onKeyUp);
+      window.removeEventListener('blur', onBlur);
+      setTalkHeld(false);
+    };
+  }, [pushToTalkActive]);
+
   const stopAudioInput = () => {
-    if (processorRef.current) {
-      processorRef.current.disconnect();
-      processorRef.current = null;
+    if (captureNodeRef.current) {
+      captureNodeRef.current.port.onmessage = null;
+      captureNodeRef.current.disconnect();
+      captureNodeRef.current = null;
+    }
+    if (antiAliasRef.current) {
+      antiAliasRef.current.disconnect();
+      antiAliasRef.current = null;
     }
     if (sourceRef.current) {
       sourceRef.current.disconnect();
@@ -48,6 +289,9 @@ const App: React.FC = () => {
       streamRef.current.getTracks().forEach(track => track.stop());
       streamRef.current = null;
     }
+    talkHeldRef.current = false;
+    voiceActivityRef.current.reset();
+    setMicGate(false);
   };
 
   const stopAudioOutput = () => {
@@ -56,46 +300,480 @@ const App: React.FC = () => {
       try { source.stop(); } catch (e) { /* ignore */ }
     });
     audioSourcesRef.current.clear();
+    recorderRef.current?.cutAgentAudio();
     nextStartTimeRef.current = 0;
   };
 
   const disconnect = useCallback(async () => {
     setConnectionState('disconnected');
+    setMessages(prev => finalizeTranscript(prev));
+    setSpeakingState('idle');
+    setReconnectAttempt(0);
+    setTransferringTo(null);
     stopAudioInput();
     stopAudioOutput();
+
+    // Abandon any pending reconnect
+    if (reconnectTimerRef.current) {
+      clearTimeout(reconnectTimerRef.current);
+      reconnectTimerRef.current = null;
+    }
+    sessionOpenRef.current = false;
+    sessionConfirmedRef.current = false;
+    resumptionHandleRef.current = null;
+    pendingAudioRef.current = [];
+    recorderRef.current = null;
+    setIsRecording(false);
     
     // Close session if exists
     if (sessionPromiseRef.current) {
-      const session = await sessionPromiseRef.current;
-      // There isn't a direct close method documented in the provided snippets, 
-      // but stopping the streams effectively kills the interaction locally.
-      // Ideally we would call session.close() if available in the SDK.
-      // Based on provided code:
-      // "When the conversation is finished, use session.close() to close the connection"
+      const sessionPromise = sessionPromiseRef.current;
+      sessionPromiseRef.current = null;
       try {
+        const session = await sessionPromise;
         session.close();
       } catch (e) {
         console.warn("Error closing session", e);
       }
-      sessionPromiseRef.current = null;
     }
   }, []);
 
-  const connectToGemini = async (agent: Agent) => {
+  // Wire the mic into the capture worklet once per call; it survives reconnects
+  const startAudioCapture = (inputCtx: AudioContext, stream: MediaStream) => {
+    if (captureNodeRef.current) return;
+
+    const source = inputCtx.createMediaStreamSource(stream);
+    sourceRef.current = source;
+
+    // Low-pass below the 16 kHz Nyquist limit so downsampling does not alias
+    const antiAlias = inputCtx.createBiquadFilter();
+    antiAlias.type = 'lowpass';
+    antiAlias.frequency.value = Math.min(INPUT_SAMPLE_RATE / 2 - 500, inputCtx.sampleRate / 2);
+    antiAliasRef.current = antiAlias;
+
+    // Worklet emits 20 ms Int16 frames at 16 kHz off the main thread
+    const captureNode = createCaptureNode(inputCtx);
+    captureNodeRef.current = captureNode;
+
+    captureNode.port.onmessage = (e: MessageEvent<ArrayBuffer>) => {
+      const frames = gateMicFrame(new Int16Array(e.data));
+      recorderRef.current?.addPatientAudio(frames);
+      frames.forEach(sendMicFrame);
+    };
+
+    source.connect(antiAlias);
+    antiAlias.connect(captureNode);
+    if (inputAnalyser) source.connect(inputAnalyser);
+    setMicGate(micModeRef.current === 'open' && isMicOnRef.current);
+  };
+
+  // Decides which captured frames reach the agent under the current mute and mic mode
+  const gateMicFrame = (pcm: Int16Array): Int16Array[] => {
+    // Push-to-talk has no mute button; holding to talk is the only way audio flows
+    if (micModeRef.current === 'push_to_talk') return talkHeldRef.current ? [pcm] : [];
+    if (!isMicOnRef.current) return [];
+    if (micModeRef.current === 'hands_free') {
+      const result = voiceActivityRef.current.process(pcm);
+      setMicGate(result.open);
+      return result.frames;
+    }
+    return [pcm];
+  };
+
+  const sendMicFrame = (pcm: Int16Array) => {
+    const sessionPromise = sessionPromiseRef.current;
+
+    if (!sessionOpenRef.current || !sessionPromise) {
+      // Hold recent speech while reconnecting so a short drop doesn't swallow it
+      pendingAudioRef.current.push(pcm);
+      if (pendingAudioRef.current.length > MAX_PENDING_FRAMES) pendingAudioRef.current.shift();
+      return;
+    }
+
+    sessionPromise.then((session) => {
+      session.sendAudio(pcm);
+    });
+  };
+
+  // Tells the agent the patient has finished whenever the gate closes, so the
+  // reply does not wait on silence that is no longer being sent
+  const setMicGate = (open: boolean) => {
+    if (micGateOpenRef.current === open) return;
+    micGateOpenRef.current = open;
+    setMicGateOpen(open);
+    if (!open && sessionOpenRef.current) {
+      metricsRef.current?.patientTurn();
+      sessionPromiseRef.current?.then((session) => session.endAudioStream());
+    }
+  };
+
+  const openSession = (agent: Agent, procedure: Procedure): Promise<LiveVoiceSession> => {
+    const inputCtx = inputAudioContextRef.current!;
+    const outputCtx = outputAudioContextRef.current!;
+    // Agents that lack the patient's language are not selectable, so this only falls back defensively
+    const voice = findAgentVoice(agent, language.code) ?? agent.voices[0];
+    const guardrailRules = guardrailsCoverLanguage(language.code) ? [...GUARDRAIL_RULES, ...catalogGuardrailRules(procedure)] : [];
+
+    const sessionPromise: Promise<LiveVoiceSession> = liveProvider.connect(
+      {
+        voiceName: voice.voiceName,
+        languageCode: voice.language,
+        systemInstruction: buildSystemInstruction(
+          agent, procedure, language, checklistRef.current, checkInRef.current, profile, sessionContentRef.current?.content.baseInstruction,
+          handoffContextRef.current,
+        ),
+        tools: [
+          escalationDeclaration,
+          ...(checkInRef.current ? checkInDeclarations : [...checklistDeclarations, ...teachBackDeclarations]),
+        ],
+        resumptionHandle: resumptionHandleRef.current ?? undefined,
+      },
+      {
+        onOpen: () => {
+          setConnectionState('connected');
+          sessionOpenRef.current = true;
+          sessionConfirmedRef.current = false;
+          console.log(`Live session connected (${liveProvider.id})`);
+
+          if (streamRef.current) startAudioCapture(inputCtx, streamRef.current);
+
+          // Flush speech captured while the connection was down
+          const pending = pendingAudioRef.current;
+          pendingAudioRef.current = [];
+          if (pending.length > 0) {
+            sessionPromise.then((session) => pending.forEach(pcm => session.sendAudio(pcm)));
+          }
+        },
+        onMessage: async (message: LiveVoiceMessage) => {
+          // Retries only count as over once the server has answered
+          if (!sessionConfirmedRef.current && sessionPromiseRef.current === sessionPromise) {
+            sessionConfirmedRef.current = true;
+            if (reconnectAttemptRef.current > 0) {
+              recordAudit('reconnected', { attempts: reconnectAttemptRef.current });
+            }
+            reconnectAttemptRef.current = 0;
+            setReconnectAttempt(0);
+          }
+          if (message.resumptionHandle) {
+            resumptionHandleRef.current = message.resumptionHandle;
+          }
+          if (message.audio || message.outputTranscript) metricsRef.current?.agentOutput();
+
+          // Handle Audio Output (skipped when a text-mode patient turned speech off)
+          const base64Audio = message.audio;
+          if (base64Audio && readAloudRef.current && !guardrailMutedRef.current) {
+             try {
+              // Sync audio playback
+              nextStartTimeRef.current = Math.max(nextStartTimeRef.current, outputCtx.currentTime);
+              
+              const pcmBytes = decode(base64Audio);
+              const audioBuffer = await decodeAudioData(
+                pcmBytes,
+                outputCtx,
+                OUTPUT_SAMPLE_RATE,
+                1
+              );
+              const playbackRate = audioSettingsRef.current.playbackRate;
+              recorderRef.current?.addAgentAudio(new Int16Array(pcmBytes.buffer), nextStartTimeRef.current - outputCtx.currentTime, playbackRate);
+
+              const source = outputCtx.createBufferSource();
+              source.buffer = audioBuffer;
+              source.playbackRate.value = playbackRate;
+              source.connect(outputAnalyser ?? outputCtx.destination);
+              
+              source.addEventListener('ended', () => {
+                audioSourcesRef.current.delete(source);
+              });
+
+              source.start(nextStartTimeRef.current);
+              nextStartTimeRef.current += audioBuffer.duration / playbackRate;
+              audioSourcesRef.current.add(source);
+             } catch (err) {
+               console.error("Error decoding audio chunk", err);
+             }
+          }
+
+          // Handle Transcription
+          const inputText = message.inputTranscript;
+          if (inputText) {
+            metricsRef.current?.patientTurn();
+            setMessages(prev => appendTranscriptChunk(prev, 'user', inputText));
+          }
+          const outputText = message.outputTranscript;
+          if (outputText) {
+            setMessages(prev => appendTranscriptChunk(prev, 'model', outputText));
+            guardrailTextRef.current += outputText;
+            checkGuardrails(guardrailRules);
+          }
+
+          // Handle Tool Calls
+          if (message.toolCalls) {
+            const functionResponses: LiveToolResponse[] = message.toolCalls.map((call) => {
+              if (call.name === ESCALATION_FUNCTION_NAME) {
+                const escalation = parseEscalationCall(call, agent.id);
+                console.warn("Escalation raised", escalation);
+                recordEscalation(escalation, 'agent');
+                setEscalations(prev => [...prev, escalation]);
+                return {
+                  id: call.id,
+                  name: call.name,
+                  response: {
+                    output: {
+                      escalationId: escalation.id,
+                      status: 'Nursing team notified. Emergency instructions are displayed on the patient screen.',
+                    },
+                  },
+                };
+              }
+              if (isCheckInCall(call) && checkInRef.current) {
+                const result = applyCheckInCall(checkInRef.current, call, procedure.recovery, agent.id);
+                updateCheckIn(result.record);
+                if (result.escalation) {
+                  console.warn("Check-in red flag", result.escalation);
+                  recordEscalation(result.escalation, 'checkin');
+                  setEscalations(prev => [...prev, result.escalation!]);
+                }
+                return { id: call.id, name: call.name, response: result.response };
+              }
+              if (isTeachBackCall(call) && teachBackRef.current) {
+                const result = applyTeachBackCall(teachBackRef.current, call);
+                teachBackRef.current = result.result;
+                setTeachBack(result.result);
+                return { id: call.id, name: call.name, response: result.response };
+              }
+              if (isChecklistCall(call)) {
+                const result = applyChecklistCall(checklistRef.current, call);
+                if (result.checklist !== checklistRef.current) updateChecklist(result.checklist);
+                return { id: call.id, name: call.name, response: result.response };
+              }
+              return {
+                id: call.id,
+                name: call.name,
+                response: { error: `Unknown function: ${call.name}` },
+              };
+            });
+
+            sessionPromise.then((session) => {
+              session.sendToolResponse(functionResponses);
+            });
+          }
+
+          // Close out both sides once the model finishes
+          if (message.turnComplete) {
+            setMessages(prev => finalizeTranscript(prev));
+            endGuardrailTurn();
+          }
+        },
+        onInterrupted: () => {
+          console.log("Interrupted by user");
+          recordAudit('interruption');
+          metricsRef.current?.interruption();
+          stopAudioOutput();
+          setMessages(prev => finalizeTranscript(prev));
+          endGuardrailTurn();
+        },
+        onClose: (reason) => {
+          console.log("Session Closed", reason ?? '');
+          handleConnectionLost(sessionPromise, agent, procedure, reason || 'closed');
+        },
+        onError: (e) => {
+          console.error("Session Error", e);
+          handleConnectionLost(sessionPromise, agent, procedure, e instanceof Error ? e.message : 'error');
+        }
+      }
+    );
+
+    sessionPromiseRef.current = sessionPromise;
+    return sessionPromise;
+  };
+
+  // Watches the agent's reply as it is transcribed. The prompt already forbids
+  // personal advice; this catches the replies where the model ignores it.
+  const checkGuardrails = (rules: GuardrailRule[]) => {
+    const violations = findGuardrailViolations(guardrailTextRef.current, rules, guardrailFiredRef.current);
+    if (violations.length === 0) return;
+
+    violations.forEach((violation) => {
+      guardrailFiredRef.current.add(violation.ruleId);
+      console.warn("Guardrail rule fired", violation);
+      recordAudit('guardrail', {
+        ruleId: violation.ruleId,
+        category: violation.category,
+        excerpt: violation.excerpt,
+        interrupted: violation.interrupt,
+      });
+    });
+
+    setMessages(prev => flagLatestModelTurn(prev));
+    setNoticeMsg(strings.guardrail.disclaimer);
+    if (violations.some(v => v.interrupt)) {
+      guardrailMutedRef.current = true;
+      stopAudioOutput();
+      speakGuardrailDisclaimer(0);
+    } else {
+      guardrailDisclaimerDueRef.current = true;
+    }
+  };
+
+  const endGuardrailTurn = () => {
+    if (guardrailDisclaimerDueRef.current) {
+      // Wait for the reply's queued audio to finish so the two do not overlap
+      const outputCtx = outputAudioContextRef.current;
+      speakGuardrailDisclaimer(outputCtx ? Math.max(0, nextStartTimeRef.current - outputCtx.currentTime) : 0);
+    }
+    resetGuardrailTurn();
+  };
+
+  const resetGuardrailTurn = () => {
+    guardrailTextRef.current = '';
+    guardrailFiredRef.current = new Set();
+    guardrailMutedRef.current = false;
+    guardrailDisclaimerDueRef.current = false;
+  };
+
+  // Spoken with the browser's own voice, so it does not depend on the model
+  const speakGuardrailDisclaimer = (delaySeconds: number) => {
+    if (!readAloudRef.current || !('speechSynthesis' in window)) return;
+    const utterance = new SpeechSynthesisUtterance(strings.guardrail.disclaimer);
+    utterance.lang = language.code;
+    setTimeout(() => window.speechSynthesis.speak(utterance), delaySeconds * 1000);
+  };
+
+  // Called for every close or error. Only the current session counts: a
+  // session we closed ourselves, or one already replaced, is ignored.
+  const handleConnectionLost = (sessionPromise: Promise<LiveVoiceSession>, agent: Agent, procedure: Procedure, reason: string) => {
+    if (sessionPromiseRef.current !== sessionPromise) return;
+    // Closed straight after opening: the resumption handle was likely refused, so the next try starts afresh
+    if (sessionOpenRef.current && !sessionConfirmedRef.current) resumptionHandleRef.current = null;
+    sessionPromiseRef.current = null;
+    sessionOpenRef.current = false;
+    sessionConfirmedRef.current = false;
+    stopAudioOutput();
+    setMessages(prev => finalizeTranscript(prev));
+
+    const attempt = reconnectAttemptRef.current + 1;
+    recordAudit('connection_error', { reason, attempt });
+    metricsRef.current?.connectionError(reason);
+    if (attempt > RECONNECT_DELAYS_MS.length) {
+      recordSessionEnd('connection_lost');
+      finishMetrics('connection_lost');
+      setErrorMsg(strings.errors.connectionLost);
+      disconnect();
+      return;
+    }
+
+    reconnectAttemptRef.current = attempt;
+    setReconnectAttempt(attempt);
+    setConnectionState('reconnecting');
+
+    reconnectTimerRef.current = setTimeout(() => {
+      reconnectTimerRef.current = null;
+      const retry = openSession(agent, procedure);
+      retry.catch((err) => {
+        console.warn(`Reconnect attempt ${attempt} failed`, err);
+        handleConnectionLost(retry, agent, procedure, err instanceof Error ? err.message : 'reconnect failed');
+      });
+    }, RECONNECT_DELAYS_MS[attempt - 1]);
+  };
+
+  // Stores the session's usage record; only the first call for a session counts
+  const finishMetrics = (outcome: SessionMetrics['outcome']) => {
+    const tracker = metricsRef.current;
+    if (!tracker) return;
+    metricsRef.current = null;
+    saveSessionMetrics(tracker.finish(outcome, finalizeTranscript(messagesRef.current), teachBackRef.current));
+  };
+
+  const recordAudit = (type: AuditEventType, details?: AuditDetails) => {
+    auditLog.record(type, auditSessionIdRef.current, details);
+  };
+
+  // Every path that closes a live session (hang-up, lost connection, transfer) logs its transcript here
+  const recordTranscript = (transcript: Message[]) => {
+    transcript.slice(auditedTurnsRef.current).forEach(m => recordAudit('transcript', { role: m.role, text: m.text }));
+    auditedTurnsRef.current = transcript.length;
+  };
+
+  const recordSessionEnd = (reason: 'patient_ended' | 'connection_lost'): Message[] => {
+    const transcript = finalizeTranscript(messagesRef.current);
+    recordTranscript(transcript);
+    recordAudit('session_end', {
+      reason,
+      turns: transcript.length,
+      durationSeconds: sessionStartedAtRef.current ? Math.round((Date.now() - sessionStartedAtRef.current.getTime()) / 1000) : 0,
+    });
+    return transcript;
+  };
+
+  // The patient's words are redacted by the audit log before storage
+  const recordEscalation = (escalation: EscalationEvent, source: 'agent' | 'checkin') => {
+    metricsRef.current?.escalation();
+    recordAudit('escalation', {
+      escalationId: escalation.id,
+      severity: escalation.severity,
+      symptomCategory: escalation.symptomCategory,
+      patientQuote: escalation.patientQuote,
+      source,
+    });
+  };
+
+  // Mic permission problems that should fall back to text chat rather than fail the call
+  const isMicUnavailable = (err: unknown) =>
+    err instanceof DOMException && ['NotAllowedError', 'NotFoundError', 'NotReadableError', 'SecurityError'].includes(err.name);
+
+  const connectToGemini = async (agent: Agent, procedure: Procedure, mode: InputMode, checkIn: CheckInRecord | null) => {
     try {
       setErrorMsg(null);
+      setNoticeMsg(null);
+      setSessionSummary(null);
+      setMessages([]);
+      setInputMode(mode);
+      readAloudRef.current = true;
+      setReadAloud(true);
       setConnectionState('connecting');
+      resumptionHandleRef.current = null;
+      handoffContextRef.current = '';
+      setTransferringTo(null);
+      reconnectAttemptRef.current = 0;
+      pendingAudioRef.current = [];
+      sessionStartedAtRef.current = null;
+      auditSessionIdRef.current = crypto.randomUUID();
+      auditedTurnsRef.current = 0;
+      metricsRef.current = null;
+      checkInRef.current = checkIn;
+      setCheckInRecord(checkIn);
+      teachBackRef.current = null;
+      setTeachBack(null);
+      resetGuardrailTurn();
+      setFinishedRecording(null);
+      recorderRef.current = recordingConsent ? createSessionRecorder() : null;
+      setIsRecording(recordingConsent);
+      const sessionContent = { content: activeContent, stamp: await stampContent(activeContent) };
+      sessionContentRef.current = sessionContent;
 
-      const apiKey = process.env.API_KEY;
-      if (!apiKey) {
-        throw new Error("API Key not found in environment variables");
+      // Request Mic Access (voice only)
+      if (mode === 'voice') {
+        try {
+          streamRef.current = await navigator.mediaDevices.getUserMedia(microphoneConstraints(audioSettingsRef.current));
+          recordAudit('mic_permission', { outcome: 'granted' });
+        } catch (err) {
+          recordAudit('mic_permission', { outcome: 'denied', error: err instanceof Error ? err.name : String(err) });
+          if (!isMicUnavailable(err)) throw err;
+          console.warn("Microphone unavailable, falling back to text chat", err);
+          setInputMode('text');
+          setNoticeMsg(strings.errors.micFallback);
+        }
       }
 
-      const ai = new GoogleGenAI({ apiKey });
-
-      // Request Mic Access
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-      streamRef.current = stream;
+      metricsRef.current = createSessionMetricsTracker({
+        agentId: agent.id,
+        procedureId: procedure.id,
+        language: language.code,
+        consultationMode: checkIn ? 'checkin' : 'education',
+        inputMode: streamRef.current ? 'voice' : 'text',
+        ageGroup: profile?.ageGroup ?? null,
+        contentVersion: sessionContent.stamp.version,
+      });
 
       const inputCtx = inputAudioContextRef.current;
       const outputCtx = outputAudioContextRef.current;
@@ -106,115 +784,386 @@ const App: React.FC = () => {
       if (inputCtx.state === 'suspended') await inputCtx.resume();
       if (outputCtx.state === 'suspended') await outputCtx.resume();
 
-      // Connect to Gemini Live
-      const sessionPromise = ai.live.connect({
-        model: 'gemini-2.5-flash-native-audio-preview-09-2025',
-        config: {
-          responseModalities: [Modality.AUDIO],
-          speechConfig: {
-            voiceConfig: { prebuiltVoiceConfig: { voiceName: agent.voiceName } },
-          },
-          systemInstruction: `${BASE_SYSTEM_INSTRUCTION}\n\n${agent.systemInstructionAddon}`,
-        },
-        callbacks: {
-          onopen: () => {
-            setConnectionState('connected');
-            console.log("Gemini Live Connected");
-
-            // Setup Input Streaming
-            const source = inputCtx.createMediaStreamSource(stream);
-            sourceRef.current = source;
-            
-            // 4096 buffer size for balance between latency and performance
-            const scriptProcessor = inputCtx.createScriptProcessor(4096, 1, 1);
-            processorRef.current = scriptProcessor;
-
-            scriptProcessor.onaudioprocess = (e) => {
-              if (!isMicOn) return; // Mute logic
-
-              const inputData = e.inputBuffer.getChannelData(0);
-              const pcmBlob = createBlob(inputData);
-              
-              sessionPromise.then((session) => {
-                session.sendRealtimeInput({ media: pcmBlob });
-              });
-            };
-
-            source.connect(scriptProcessor);
-            scriptProcessor.connect(inputCtx.destination);
-          },
-          onmessage: async (message: LiveServerMessage) => {
-            // Handle Audio Output
-            const base64Audio = message.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
-            if (base64Audio) {
-               try {
-                // Sync audio playback
-                nextStartTimeRef.current = Math.max(nextStartTimeRef.current, outputCtx.currentTime);
-                
-                const audioBuffer = await decodeAudioData(
-                  decode(base64Audio),
-                  outputCtx,
-                  24000,
-                  1
-                );
-
-                const source = outputCtx.createBufferSource();
-                source.buffer = audioBuffer;
-                source.connect(outputCtx.destination);
-                
-                source.addEventListener('ended', () => {
-                  audioSourcesRef.current.delete(source);
-                });
-
-                source.start(nextStartTimeRef.current);
-                nextStartTimeRef.current += audioBuffer.duration;
-                audioSourcesRef.current.add(source);
-               } catch (err) {
-                 console.error("Error decoding audio chunk", err);
-               }
-            }
+      await ensureCaptureWorklet(inputCtx);
 
-            // Handle Interruption
-            if (message.serverContent?.interrupted) {
-              console.log("Interrupted by user");
-              stopAudioOutput();
-            }
-          },
-          onclose: () => {
-            console.log("Session Closed");
-            setConnectionState('disconnected');
-          },
-          onerror: (e) => {
-            console.error("Session Error", e);
-            setErrorMsg("Connection error. Please try again.");
-            disconnect();
-          }
-        }
+      // Connect to the configured live voice provider
+      await openSession(agent, procedure);
+      sessionStartedAtRef.current = new Date();
+      recordAudit('session_start', {
+        agentId: agent.id,
+        agentName: agent.name,
+        procedureId: procedure.id,
+        language: language.code,
+        consultationMode: checkIn ? 'checkin' : 'education',
+        inputMode: streamRef.current ? 'voice' : 'text',
+        provider: liveProvider.id,
+        recording: recorderRef.current !== null,
+        intakeProfile: profile !== null,
+        guardrails: guardrailsCoverLanguage(language.code),
+        contentVersion: sessionContent.stamp.version,
+        contentHash: sessionContent.stamp.hash,
       });
 
-      sessionPromiseRef.current = sessionPromise;
-
     } catch (err: any) {
       console.error(err);
-      setErrorMsg(err.message || "Failed to connect");
+      recordAudit('connection_error', { reason: err.message || 'failed to connect', attempt: 0 });
+      metricsRef.current?.connectionError(err.message || 'failed to connect');
+      finishMetrics('failed_to_connect');
+      stopAudioInput();
+      sessionPromiseRef.current = null;
+      if (reconnectTimerRef.current) {
+        clearTimeout(reconnectTimerRef.current);
+        reconnectTimerRef.current = null;
+      }
+      setErrorMsg(err.message || strings.errors.failedToConnect);
       setConnectionState('error');
     }
   };
 
-  const handleAgentSelect = (agent: Agent) => {
+  const handleAgentSelect = (agent: Agent, mode: InputMode = 'voice') => {
+    if (!selectedProcedure) {
+      setErrorMsg(strings.errors.chooseProcedureFirst);
+      return;
+    }
+    if (!findAgentVoice(agent, language.code)) return;
+
+    let checkIn: CheckInRecord | null = null;
+    if (consultationMode === 'checkin') {
+      if (!recoveryLogRef.current) {
+        setErrorMsg(strings.recovery.needsDate);
+        return;
+      }
+      checkIn = startCheckIn(recoveryLogRef.current);
+    }
+
     setSelectedAgent(agent);
-    connectToGemini(agent);
+    connectToGemini(agent, selectedProcedure, mode, checkIn);
+  };
+
+  const handleProcedureSelect = (procedure: Procedure) => {
+    setSelectedProcedure(procedure);
+    setErrorMsg(null);
+    const saved = loadCurrentChecklist(procedure);
+    checklistRef.current = saved;
+    setChecklist(saved);
+    const log = loadRecoveryLog(procedure.id);
+    recoveryLogRef.current = log;
+    setRecoveryLog(log);
+  };
+
+  const saveProfile = (next: PatientProfile) => {
+    savePatientProfile(next);
+    setProfile(next);
+    setLanguage(next.preferredLanguage);
+    const procedure = activeContent.procedures.find(p => p.id === next.procedureId);
+    if (procedure && procedure.id !== selectedProcedure?.id) handleProcedureSelect(procedure);
+  };
+
+  // Removes everything the patient entered on this device and starts afresh
+  const forgetMyData = () => {
+    forgetPatientData();
+    setProfile(null);
+    setSelectedProcedure(null);
+    checklistRef.current = null;
+    setChecklist(null);
+    recoveryLogRef.current = null;
+    setRecoveryLog(null);
+    setSessionSummary(null);
+    setFinishedRecording(null);
+    setMessages([]);
+    setEscalations([]);
+    setErrorMsg(null);
+    recordAudit('data_forgotten');
+  };
+
+  const updateRecoveryLog = (next: RecoveryLog) => {
+    recoveryLogRef.current = next;
+    setRecoveryLog(next);
+    saveRecoveryLog(next);
+  };
+
+  // Every answer is saved straight away so a dropped call loses nothing
+  const updateCheckIn = (record: CheckInRecord) => {
+    checkInRef.current = record;
+    setCheckInRecord(record);
+    if (recoveryLogRef.current) updateRecoveryLog(upsertCheckIn(recoveryLogRef.current, record));
+  };
+
+  const setSurgeryDate = (surgeryDate: Date) => {
+    if (!selectedProcedure) return;
+    const current = recoveryLogRef.current;
+    updateRecoveryLog(current
+      ? { ...current, surgeryDate }
+      : { procedureId: selectedProcedure.id, surgeryDate, records: [] });
+    setErrorMsg(null);
+  };
+
+  // Keeps the ref, the rendered checklist and local storage in step
+  const updateChecklist = (next: PreOpChecklist | null) => {
+    const previous = checklistRef.current;
+    checklistRef.current = next;
+    setChecklist(next);
+    if (next) saveChecklist(next);
+    else if (previous) clearChecklist(previous.procedureId);
+  };
+
+  const scheduleSurgery = (surgeryAt: Date) => {
+    if (!selectedProcedure) return;
+    const current = checklistRef.current;
+    updateChecklist(current
+      ? rescheduleChecklist(current, selectedProcedure, surgeryAt)
+      : buildChecklist(selectedProcedure, surgeryAt));
+  };
+
+  const toggleChecklistItem = (id: string, done: boolean) => {
+    if (checklistRef.current) updateChecklist(setChecklistItemDone(checklistRef.current, id, done));
+  };
+
+  const addPatientChecklistItem = (label: string) => {
+    if (checklistRef.current) {
+      updateChecklist(addChecklistItem(checklistRef.current, { category: 'other', label, source: 'patient' }));
+    }
+  };
+
+  const removeChecklistItemById = (id: string) => {
+    if (checklistRef.current) updateChecklist(removeChecklistItem(checklistRef.current, id));
+  };
+
+  const checklistHandlers = {
+    onSchedule: scheduleSurgery,
+    onToggle: toggleChecklistItem,
+    onAdd: addPatientChecklistItem,
+    onRemove: removeChecklistItemById,
+    onReset: () => updateChecklist(null),
+  };
+
+  // Hang up and keep a summary of the session for the patient and their care team
+  const endConsultation = () => {
+    finishMetrics('completed');
+    recordSessionEnd('patient_ended');
+
+    if (selectedAgent && selectedProcedure && sessionStartedAtRef.current && sessionContentRef.current) {
+      setSessionSummary(buildSessionSummary({
+        agent: selectedAgent,
+        procedure: selectedProcedure,
+        languageCode: language.code,
+        consultationMode: checkInRef.current ? 'checkin' : 'education',
+        messages,
+        escalations,
+        teachBack: teachBackRef.current ?? undefined,
+        startedAt: sessionStartedAtRef.current,
+        endedAt: new Date(),
+        content: sessionContentRef.current.stamp,
+      }));
+      setFinishedRecording(recorderRef.current);
+    }
+    disconnect();
+  };
+
+  // Withdrawing consent mid-call throws away everything recorded so far
+  const discardRecording = () => {
+    recorderRef.current = null;
+    setIsRecording(false);
+    recordAudit('recording_discarded');
+  };
+
+  const downloadRecording = () => {
+    if (!finishedRecording || !sessionSummary) return;
+    downloadFile(`${summaryFileName(sessionSummary)}.wav`, finishedRecording.toWav(), 'audio/wav');
+  };
+
+  const closeSummary = () => {
+    setSessionSummary(null);
+    setFinishedRecording(null);
   };
 
   const toggleMic = () => {
-    setIsMicOn(prev => !prev);
+    isMicOnRef.current = !isMicOnRef.current;
+    setIsMicOn(isMicOnRef.current);
+    if (!isMicOnRef.current) {
+      voiceActivityRef.current.reset();
+      setMicGate(false);
+    } else if (micModeRef.current === 'open') {
+      setMicGate(true);
+    }
+  };
+
+  const changeMicMode = (mode: MicMode) => {
+    micModeRef.current = mode;
+    setMicMode(mode);
+    localStorage.setItem(MIC_MODE_STORAGE_KEY, mode);
+    talkHeldRef.current = false;
+    voiceActivityRef.current.reset();
+    setMicGate(mode === 'open' && isMicOnRef.current);
+  };
+
+  // Push-to-talk: audio flows only while the button or spacebar is held
+  const setTalkHeld = (held: boolean) => {
+    if (micModeRef.current !== 'push_to_talk' || talkHeldRef.current === held) return;
+    talkHeldRef.current = held;
+    setMicGate(held);
+  };
+
+  const updateAudioSettings = (patch: Partial<AudioSettings>) => {
+    const next = { ...audioSettingsRef.current, ...patch };
+    audioSettingsRef.current = next;
+    setAudioSettings(next);
+    saveAudioSettings(next);
+
+    const outputCtx = outputAudioContextRef.current;
+    if (!outputCtx) return;
+    outputGainRef.current?.gain.setTargetAtTime(next.volume, outputCtx.currentTime, 0.05);
+    if (patch.outputDeviceId !== undefined) {
+      routeAudioOutput(outputCtx, next.outputDeviceId).catch((err) => console.warn("Could not switch audio output", err));
+    }
+  };
+
+  // A short beep through the agent's playback chain, to check the speaker and volume
+  const playTestSound = async () => {
+    const outputCtx = outputAudioContextRef.current;
+    if (!outputCtx || !outputAnalyser) return;
+    if (outputCtx.state === 'suspended') await outputCtx.resume();
+
+    const tone = outputCtx.createOscillator();
+    const envelope = outputCtx.createGain();
+    tone.frequency.value = 660;
+    envelope.gain.setValueAtTime(0.3, outputCtx.currentTime);
+    envelope.gain.exponentialRampToValueAtTime(0.001, outputCtx.currentTime + 0.6);
+    tone.connect(envelope);
+    envelope.connect(outputAnalyser);
+    tone.start();
+    tone.stop(outputCtx.currentTime + 0.6);
+  };
+
+  const toggleReadAloud = () => {
+    readAloudRef.current = !readAloudRef.current;
+    setReadAloud(readAloudRef.current);
+    if (!readAloudRef.current) stopAudioOutput();
+  };
+
+  const sendTextMessage = (text: string) => {
+    const sessionPromise = sessionPromiseRef.current;
+    if (!sessionPromise || !sessionOpenRef.current) return;
+
+    metricsRef.current?.patientTurn();
+    // Typed turns have no input transcription, so add them to the thread directly
+    setMessages(prev => [
+      ...finalizeTranscript(prev),
+      { id: `user-${Date.now()}`, role: 'user', text, timestamp: new Date() },
+    ]);
+    sessionPromise.then((session) => {
+      session.sendText(text);
+    });
+  };
+
+  // Ask the agent to quiz the patient on what was covered
+  const startTeachBack = () => {
+    const sessionPromise = sessionPromiseRef.current;
+    if (!sessionPromise || !sessionOpenRef.current || teachBackRef.current) return;
+
+    teachBackRef.current = { startedAt: new Date(), items: [] };
+    setTeachBack(teachBackRef.current);
+    setMessages(prev => finalizeTranscript(prev));
+    sessionPromise.then((session) => {
+      session.sendText(TEACHBACK_TRIGGER);
+    });
+  };
+
+  // Hand the call to another assistant without hanging up. The new session
+  // has none of the old one's memory, so it is briefed from the transcript.
+  const transferToAgent = async (next: Agent) => {
+    const sessionPromise = sessionPromiseRef.current;
+    const from = selectedAgent;
+    if (!sessionPromise || !sessionOpenRef.current || !from || !selectedProcedure || next.id === from.id) return;
+    const procedure = selectedProcedure;
+
+    // Clearing the ref first makes handleConnectionLost ignore this close
+    sessionPromiseRef.current = null;
+    sessionOpenRef.current = false;
+    sessionPromise.then((session) => session.close()).catch((e) => console.warn("Error closing session", e));
+    stopAudioOutput();
+    resetGuardrailTurn();
+
+    const transcript = attributeAgentTurns(finalizeTranscript(messagesRef.current), from.name);
+    const startedAt = sessionStartedAtRef.current;
+    setMessages(transcript);
+    handoffContextRef.current = formatHandoffContext(
+      from, transcript, escalations.filter(e => !startedAt || e.timestamp >= startedAt),
+    );
+    resumptionHandleRef.current = null;
+    metricsRef.current?.handoff();
+    recordTranscript(transcript);
+    recordAudit('handoff', { fromAgentId: from.id, toAgentId: next.id, turns: transcript.length });
+    setSelectedAgent(next);
+    setTransferringTo(next);
+
+    const handoff = openSession(next, procedure);
+    try {
+      const session = await handoff;
+      // The patient may have hung up while the new session was connecting
+      if (sessionPromiseRef.current === handoff) session.sendText(HANDOFF_TRIGGER);
+    } catch (err) {
+      console.warn("Transfer failed", err);
+      handleConnectionLost(handoff, next, procedure, err instanceof Error ? err.message : 'transfer failed');
+    } finally {
+      setTransferringTo(null);
+    }
+  };
+
+  // Switch between typing and talking without leaving the session
+  const switchInputMode = async (mode: InputMode) => {
+    setNoticeMsg(null);
+    if (mode === 'text') {
+      stopAudioInput();
+      setInputMode('text');
+      return;
+    }
+
+    const inputCtx = inputAudioContextRef.current;
+    if (!inputCtx) return;
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia(microphoneConstraints(audioSettingsRef.current));
+      recordAudit('mic_permission', { outcome: 'granted' });
+      streamRef.current = stream;
+      if (inputCtx.state === 'suspended') await inputCtx.resume();
+      startAudioCapture(inputCtx, stream);
+      setInputMode('voice');
+    } catch (err) {
+      console.warn("Could not switch to voice", err);
+      recordAudit('mic_permission', { outcome: 'denied', error: err instanceof Error ? err.name : String(err) });
+      setNoticeMsg(isMicUnavailable(err) ? strings.errors.micBlocked : strings.errors.micFailed);
+    }
+  };
+
+  const exportAuditLog = async () => {
+    try {
+      const jsonl = await auditLog.exportSignedJsonl();
+      downloadFile(`atoscare-audit-${new Date().toISOString().slice(0, 10)}.jsonl`, jsonl, 'application/jsonl');
+    } catch (err) {
+      console.error("Audit export failed", err);
+      setErrorMsg(strings.errors.auditExportFailed);
+    }
+  };
+
+  const acknowledgeEscalation = (id: string) => {
+    setEscalations(prev => prev.map(e => (e.id === id ? { ...e, acknowledgedAt: new Date() } : e)));
   };
 
+  const activeEscalation = escalations.find(e => !e.acknowledgedAt);
+  const escalationBanner = activeEscalation && (
+    <EscalationBanner escalation={activeEscalation} onAcknowledge={() => acknowledgeEscalation(activeEscalation.id)} />
+  );
+
   // --- UI RENDER ---
 
-  if (connectionState === 'connected' && selectedAgent) {
+  if ((connectionState === 'connected' || connectionState === 'reconnecting') && selectedAgent) {
+    const isReconnecting = connectionState === 'reconnecting';
+    const isTextMode = inputMode === 'text';
+
     return (
       <div className="min-h-screen bg-slate-900 text-white flex flex-col items-center justify-between p-6">
+        {escalationBanner}
+
         {/* Active Call Header */}
         <div className="w-full max-w-md flex items-center justify-between">
           <div className="flex items-center space-x-3">
@@ -223,47 +1172,191 @@ const App: React.FC = () => {
              </div>
              <div>
                <h3 className="font-semibold text-lg">{selectedAgent.name}</h3>
-               <p className="text-xs text-slate-400">AtosCare Active Agent</p>
+               <p className="text-xs text-slate-400">{strings.call.activeAgent}{selectedProcedure ? ` · ${selectedProcedure.name}` : ''}</p>
              </div>
           </div>
-          <div className="flex items-center space-x-2 text-green-400 text-xs font-mono">
+          <div className={`flex items-center space-x-2 text-xs font-mono ${isReconnecting ? 'text-amber-400' : 'text-green-400'}`}>
             <span className="relative flex h-3 w-3">
-              <span className="animate-ping absolute inline-flex h-full w-full rounded-full bg-green-400 opacity-75"></span>
-              <span className="relative inline-flex rounded-full h-3 w-3 bg-green-500"></span>
+              <span className={`animate-ping absolute inline-flex h-full w-full rounded-full opacity-75 ${isReconnecting ? 'bg-amber-400' : 'bg-green-400'}`}></span>
+              <span className={`relative inline-flex rounded-full h-3 w-3 ${isReconnecting ? 'bg-amber-500' : 'bg-green-500'}`}></span>
             </span>
-            <span>LIVE</span>
+            <span>{isReconnecting ? strings.call.reconnecting : strings.call.live}</span>
           </div>
         </div>
 
+        {isRecording && (
+          <div className="w-full max-w-md mt-4 flex items-center justify-between gap-3 bg-red-500/10 border border-red-500/40 text-red-200 text-sm rounded-xl px-4 py-2">
+            <span className="flex items-center gap-2">
+              <Circle size={10} className="fill-red-500 text-red-500 animate-pulse" />
+              {strings.recording.active}
+            </span>
+            <button onClick={discardRecording} className="text-xs underline underline-offset-2 hover:text-white">
+              {strings.recording.discard}
+            </button>
+          </div>
+        )}
+
+        {isReconnecting && (
+          <div role="status" className="w-full max-w-md mt-4 flex items-center gap-3 bg-amber-500/10 border border-amber-500/40 text-amber-200 text-sm rounded-xl px-4 py-3">
+            <div className="w-4 h-4 border-2 border-amber-300 border-t-transparent rounded-full animate-spin shrink-0"></div>
+            <span>{strings.call.reconnectingNotice(reconnectAttempt, RECONNECT_DELAYS_MS.length)}</span>
+          </div>
+        )}
+
+        {!guardrailsCoverLanguage(language.code) && (
+          <p className="w-full max-w-md mt-4 text-xs text-slate-400">{strings.guardrail.englishOnly}</p>
+        )}
+
+        <AgentTransfer
+          agents={transferTargets(activeContent.agents, selectedAgent, language.code)}
+          transferringTo={transferringTo}
+          disabled={isReconnecting || (teachBack !== null && !teachBack.completedAt)}
+          onTransfer={transferToAgent}
+        />
+
         {/* Visualizer Area */}
         <div className="w-full max-w-md flex-1 flex flex-col justify-center space-y-8">
-            <div className="text-center space-y-2">
-               <p className="text-slate-400 text-sm tracking-widest uppercase">Listening...</p>
+            <div className="text-center space-y-2" aria-live="polite">
+               <p className={`text-sm tracking-widest uppercase ${speakingState === 'idle' ? 'text-slate-400' : 'text-white font-semibold'}`}>
+                 {speakingState === 'agent'
+                   ? strings.call.agentSpeaking(selectedAgent.name)
+                   : speakingState === 'user'
+                     ? (isMicOn ? strings.call.youAreSpeaking : strings.call.youAreMuted)
+                     : isTextMode ? strings.call.typeBelow : strings.call.idle}
+               </p>
+               {!isTextMode && micMode !== 'open' && (micMode === 'push_to_talk' || isMicOn) && (
+                 <p className={`flex items-center justify-center gap-2 text-xs ${micGateOpen ? 'text-green-400' : 'text-slate-500'}`}>
+                   <span className={`w-2 h-2 rounded-full ${micGateOpen ? 'bg-green-400 animate-pulse' : 'bg-slate-600'}`}></span>
+                   {micMode === 'push_to_talk'
+                     ? (micGateOpen ? strings.call.talking : strings.call.holdToTalkHint)
+                     : (micGateOpen ? strings.call.sendingSpeech : strings.call.listeningForSpeech)}
+                 </p>
+               )}
             </div>
+
+            {noticeMsg && (
+              <div role="status" className="bg-blue-500/10 border border-blue-500/40 text-blue-200 text-sm rounded-xl px-4 py-3">
+                {noticeMsg}
+              </div>
+            )}
             
-            <AudioVisualizer isActive={true} barColor={selectedAgent.style === 'serious' ? '#3b82f6' : '#ec4899'} />
-            
-            <div className="bg-slate-800/50 p-6 rounded-2xl border border-slate-700/50 backdrop-blur-sm">
-                <h4 className="text-sm font-semibold text-slate-300 mb-2">Capabilities</h4>
-                <ul className="text-sm text-slate-400 space-y-2">
-                    <li className="flex items-center gap-2"><Activity className="w-4 h-4" /> Procedural Explanations</li>
-                    <li className="flex items-center gap-2"><FileText className="w-4 h-4" /> Pre-op Preparations</li>
-                    <li className="flex items-center gap-2"><HeartPulse className="w-4 h-4" /> Post-op Recovery Care</li>
-                </ul>
-            </div>
+            <AudioVisualizer
+              isActive={connectionState === 'connected'}
+              inputAnalyser={inputAnalyser}
+              outputAnalyser={outputAnalyser}
+              barColor={selectedAgent.themeColor}
+              onSpeakingStateChange={setSpeakingState}
+            />
+
+            {isTextMode ? (
+              <>
+                <TranscriptPanel
+                  messages={messages}
+                  agentName={selectedAgent.name}
+                  title={strings.transcript.chatTitle}
+                  emptyText={strings.transcript.chatEmpty(selectedAgent.name)}
+                  tall
+                />
+                <ChatComposer onSend={sendTextMessage} disabled={isReconnecting} />
+              </>
+            ) : (
+              <>
+                <TranscriptPanel messages={messages} agentName={selectedAgent.name} />
+
+                <div role="radiogroup" aria-label={strings.call.micModeLabel} className="flex rounded-xl bg-slate-800/50 border border-slate-700/50 p-1 text-xs">
+                  {MIC_MODES.map((mode) => (
+                    <button
+                      key={mode}
+                      role="radio"
+                      aria-checked={micMode === mode}
+                      onClick={() => changeMicMode(mode)}
+                      className={`flex-1 px-3 py-2 rounded-lg transition-colors ${micMode === mode ? 'bg-slate-600 text-white font-medium' : 'text-slate-400 hover:text-slate-200'}`}
+                    >
+                      {strings.call.micModes[mode]}
+                    </button>
+                  ))}
+                </div>
+                
+                <CapabilityList capabilities={localizeAgent(selectedAgent, language.code).capabilities} />
+              </>
+            )}
+
+            {(!isTextMode || readAloud) && (
+              <PlaybackControls
+                playbackRate={audioSettings.playbackRate}
+                volume={audioSettings.volume}
+                onChange={updateAudioSettings}
+                dark
+              />
+            )}
+
+            {teachBack
+              ? <TeachBackPanel result={teachBack} />
+              : checkInRecord
+                ? <CheckInProgress record={checkInRecord} />
+                : checklist && <PreOpChecklistPanel checklist={checklist} {...checklistHandlers} dark />}
         </div>
 
         {/* Controls */}
         <div className="w-full max-w-md flex justify-center space-x-6 pb-8">
-            <button 
-              onClick={toggleMic}
-              className={`p-4 rounded-full transition-all duration-300 ${isMicOn ? 'bg-slate-700 hover:bg-slate-600 text-white' : 'bg-red-500/20 text-red-500 border border-red-500'}`}
+            {isTextMode ? (
+              <button 
+                onClick={toggleReadAloud}
+                aria-label={readAloud ? strings.call.readAloudOn : strings.call.readAloudOff}
+                className={`p-4 rounded-full transition-all duration-300 ${readAloud ? 'bg-slate-700 hover:bg-slate-600 text-white' : 'bg-red-500/20 text-red-500 border border-red-500'}`}
+              >
+                {readAloud ? <Volume2 size={28} /> : <VolumeX size={28} />}
+              </button>
+            ) : micMode === 'push_to_talk' ? (
+              <button
+                onPointerDown={(e) => {
+                  e.currentTarget.setPointerCapture(e.pointerId);
+                  setTalkHeld(true);
+                }}
+                onPointerUp={() => setTalkHeld(false)}
+                onPointerCancel={() => setTalkHeld(false)}
+                onContextMenu={(e) => e.preventDefault()}
+                aria-label={strings.call.holdToTalk}
+                aria-pressed={micGateOpen}
+                title={strings.call.holdToTalkHint}
+                className={`p-4 rounded-full select-none touch-none transition-all duration-300 ${micGateOpen ? 'bg-green-600 text-white scale-110 shadow-lg shadow-green-600/30' : 'bg-slate-700 hover:bg-slate-600 text-white'}`}
+              >
+                <Hand size={28} />
+              </button>
+            ) : (
+              <button 
+                onClick={toggleMic}
+                aria-label={isMicOn ? strings.call.mute : strings.call.unmute}
+                className={`p-4 rounded-full transition-all duration-300 ${isMicOn ? 'bg-slate-700 hover:bg-slate-600 text-white' : 'bg-red-500/20 text-red-500 border border-red-500'}`}
+              >
+                {isMicOn ? <Mic size={28} /> : <MicOff size={28} />}
+              </button>
+            )}
+
+            <button
+              onClick={() => switchInputMode(isTextMode ? 'voice' : 'text')}
+              aria-label={isTextMode ? strings.call.switchToVoice : strings.call.switchToTyping}
+              title={isTextMode ? strings.call.switchToVoice : strings.call.switchToTyping}
+              className="p-4 rounded-full bg-slate-700 hover:bg-slate-600 text-white transition-all duration-300"
             >
-              {isMicOn ? <Mic size={28} /> : <MicOff size={28} />}
+              {isTextMode ? <Mic size={28} /> : <Keyboard size={28} />}
             </button>
+
+            {!checkInRecord && (
+              <button
+                onClick={startTeachBack}
+                disabled={isReconnecting || teachBack !== null}
+                aria-label={strings.teachBack.start}
+                title={strings.teachBack.start}
+                className="p-4 rounded-full bg-slate-700 hover:bg-slate-600 text-white transition-all duration-300 disabled:opacity-40 disabled:hover:bg-slate-700"
+              >
+                <GraduationCap size={28} />
+              </button>
+            )}
             
             <button 
-              onClick={disconnect}
+              onClick={endConsultation}
+              aria-label={strings.call.endCall}
               className="p-4 rounded-full bg-red-600 hover:bg-red-700 text-white shadow-lg hover:shadow-red-600/30 transition-all duration-300"
             >
               <PhoneOff size={28} />
@@ -276,6 +1369,8 @@ const App: React.FC = () => {
   // Selection Screen
   return (
     <div className="min-h-screen bg-slate-50 text-slate-900 flex flex-col">
+      {escalationBanner}
+
       {/* Brand Header */}
       <header className="bg-white border-b border-slate-200 px-6 py-4 flex items-center justify-between sticky top-0 z-10">
         <div className="flex items-center gap-2">
@@ -284,18 +1379,34 @@ const App: React.FC = () => {
            </div>
            <div>
              <h1 className="text-xl font-bold tracking-tight text-slate-900">AtosCare</h1>
-             <p className="text-xs text-slate-500">Surgical Patient Education</p>
+             <p className="text-xs text-slate-500">{strings.brand.tagline}</p>
            </div>
         </div>
+        <label className="flex items-center gap-2 text-sm text-slate-600">
+          <Globe size={16} />
+          <span className="sr-only">{strings.selection.languageLabel}</span>
+          <select
+            value={language.code}
+            onChange={(e) => setLanguage(e.target.value)}
+            disabled={connectionState === 'connecting'}
+            className="bg-white border border-slate-200 rounded-lg px-2 py-1 text-slate-900 focus:outline-none focus:ring-2 focus:ring-blue-200"
+          >
+            {LANGUAGES.map((option) => (
+              <option key={option.code} value={option.code}>{option.nativeName}</option>
+            ))}
+          </select>
+        </label>
       </header>
 
       <main className="flex-1 max-w-5xl mx-auto w-full p-6 flex flex-col items-center justify-center">
-        <div className="text-center mb-12 max-w-2xl">
-          <h2 className="text-3xl font-bold text-slate-900 mb-4">How can we help you today?</h2>
-          <p className="text-lg text-slate-600">
-            Select an AI assistant to guide you through your upcoming procedure, pre-operative instructions, or recovery guidelines.
-          </p>
-        </div>
+        {!sessionSummary && (
+          <div className="text-center mb-12 max-w-2xl">
+            <h2 className="text-3xl font-bold text-slate-900 mb-4">{strings.selection.heading}</h2>
+            <p className="text-lg text-slate-600">
+              {strings.selection.intro}
+            </p>
+          </div>
+        )}
 
         {errorMsg && (
           <div className="w-full max-w-md bg-red-50 text-red-600 p-4 rounded-lg mb-8 border border-red-100 flex items-center justify-center">
@@ -303,56 +1414,189 @@ const App: React.FC = () => {
           </div>
         )}
 
+        {AGENT_CONFIG_ERRORS.length > 0 && (
+          <div className="w-full max-w-4xl bg-amber-50 text-amber-800 p-4 rounded-lg mb-8 border border-amber-200 text-sm">
+            <p className="font-semibold mb-1">{strings.selection.agentConfigErrors}</p>
+            <ul className="list-disc list-inside font-mono text-xs space-y-0.5">
+              {AGENT_CONFIG_ERRORS.map((error) => <li key={error}>{error}</li>)}
+            </ul>
+          </div>
+        )}
+
+        {GUARDRAIL_CONFIG_ERRORS.length > 0 && (
+          <div className="w-full max-w-4xl bg-amber-50 text-amber-800 p-4 rounded-lg mb-8 border border-amber-200 text-sm">
+            <p className="font-semibold mb-1">{strings.selection.guardrailConfigErrors}</p>
+            <ul className="list-disc list-inside font-mono text-xs space-y-0.5">
+              {GUARDRAIL_CONFIG_ERRORS.map((error) => <li key={error}>{error}</li>)}
+            </ul>
+          </div>
+        )}
+
         {connectionState === 'connecting' ? (
            <div className="flex flex-col items-center justify-center space-y-4 animate-pulse">
              <div className="w-16 h-16 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
-             <p className="text-slate-500 font-medium">Connecting to secure medical line...</p>
+             <p className="text-slate-500 font-medium">{strings.selection.connecting}</p>
            </div>
+        ) : sessionSummary ? (
+          <SessionSummaryPanel
+            summary={sessionSummary}
+            onDownloadRecording={finishedRecording ? downloadRecording : undefined}
+            onClose={closeSummary}
+          />
         ) : (
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-8 w-full max-w-4xl">
-            {AGENTS.map((agent) => (
-              <div 
-                key={agent.id}
-                onClick={() => handleAgentSelect(agent)}
-                className="group relative bg-white rounded-2xl shadow-sm border border-slate-200 p-6 cursor-pointer hover:shadow-xl hover:border-blue-300 hover:-translate-y-1 transition-all duration-300"
-              >
-                 <div className="absolute top-6 right-6 opacity-0 group-hover:opacity-100 transition-opacity">
-                    <span className="bg-blue-100 text-blue-700 text-xs font-bold px-3 py-1 rounded-full uppercase tracking-wider">Select</span>
-                 </div>
-
-                 <div className="flex items-start space-x-4">
-                    <div className="w-20 h-20 rounded-full overflow-hidden bg-slate-100 shadow-inner">
-                      <img src={agent.avatarUrl} alt={agent.name} className="w-full h-full object-cover group-hover:scale-110 transition-transform duration-500" />
-                    </div>
-                    <div>
-                      <h3 className="text-xl font-bold text-slate-900">{agent.name}</h3>
-                      <p className={`text-sm font-medium ${agent.style === 'serious' ? 'text-blue-600' : 'text-pink-600'}`}>{agent.role}</p>
-                    </div>
-                 </div>
-
-                 <div className="mt-6 space-y-3">
-                   <p className="text-slate-600 leading-relaxed text-sm h-16">
-                     {agent.description}
-                   </p>
+          <>
+            <PatientProfilePanel
+              key={profile?.updatedAt.getTime() ?? 'new'}
+              profile={profile}
+              procedures={activeContent.procedures}
+              defaultProcedureId={selectedProcedure?.id}
+              onSave={saveProfile}
+              onForget={forgetMyData}
+            />
+
+            <AudioSettingsPanel settings={audioSettings} onChange={updateAudioSettings} onTestOutput={playTestSound} />
+
+            <ProcedurePicker
+              procedures={activeContent.procedures}
+              selectedId={selectedProcedure?.id ?? null}
+              onSelect={handleProcedureSelect}
+            />
+
+            {selectedProcedure && (
+              <div className="w-full max-w-4xl mb-10 space-y-4">
+                <div role="group" aria-label={strings.recovery.modeLabel} className="inline-flex rounded-xl border border-slate-200 bg-white p-1">
+                  {(['education', 'checkin'] as ConsultationMode[]).map((mode) => (
+                    <button
+                      key={mode}
+                      onClick={() => setConsultationMode(mode)}
+                      aria-pressed={consultationMode === mode}
+                      className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                        consultationMode === mode ? 'bg-slate-900 text-white' : 'text-slate-600 hover:text-slate-900'
+                      }`}
+                    >
+                      {mode === 'education' ? strings.recovery.education : strings.recovery.checkIn}
+                    </button>
+                  ))}
+                </div>
+
+                {consultationMode === 'checkin' ? (
+                  <RecoveryPanel
+                    key={selectedProcedure.id}
+                    log={recoveryLog}
+                    thresholds={selectedProcedure.recovery}
+                    defaultSurgeryDate={checklist?.surgeryAt ?? (profile?.procedureId === selectedProcedure.id ? profile.surgeryDate ?? undefined : undefined)}
+                    onSetSurgeryDate={setSurgeryDate}
+                  />
+                ) : (
+                  <PreOpChecklistPanel key={selectedProcedure.id} checklist={checklist} {...checklistHandlers} />
+                )}
+
+                <label className="flex items-start gap-3 bg-white rounded-xl border border-slate-200 p-4 text-sm text-slate-700 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={recordingConsent}
+                    onChange={(e) => setRecordingConsent(e.target.checked)}
+                    className="mt-0.5 h-4 w-4 accent-blue-600"
+                  />
+                  <span>
+                    <span className="font-medium text-slate-900">{strings.recording.consentLabel}</span>
+                    <span className="block text-xs text-slate-500 mt-0.5">{strings.recording.consentDetail}</span>
+                  </span>
+                </label>
+              </div>
+            )}
+  
+            <div className="w-full max-w-4xl flex items-center gap-2 mb-4 text-slate-700">
+              <Users size={18} />
+              <h3 className="font-semibold">{strings.selection.agentStep}</h3>
+            </div>
+  
+            <div className={`grid grid-cols-1 md:grid-cols-2 gap-8 w-full max-w-4xl transition-opacity ${selectedProcedure ? '' : 'opacity-50'}`}>
+              {activeContent.agents.map((agent) => {
+                const speaksLanguage = Boolean(findAgentVoice(agent, language.code));
+                const shown = localizeAgent(agent, language.code);
+                return (
+                <div 
+                  key={agent.id}
+                  onClick={() => handleAgentSelect(agent)}
+                  aria-disabled={!speaksLanguage}
+                  className={`group relative bg-white rounded-2xl shadow-sm border border-slate-200 p-6 transition-all duration-300 ${
+                    speaksLanguage ? 'cursor-pointer hover:shadow-xl hover:border-blue-300 hover:-translate-y-1' : 'cursor-not-allowed opacity-50 grayscale'
+                  }`}
+                >
+                   <div className={`absolute top-6 right-6 transition-opacity ${speaksLanguage ? 'opacity-0 group-hover:opacity-100' : ''}`}>
+                      {speaksLanguage ? (
+                        <span className="bg-blue-100 text-blue-700 text-xs font-bold px-3 py-1 rounded-full uppercase tracking-wider">{strings.selection.select}</span>
+                      ) : (
+                        <span className="bg-slate-100 text-slate-600 text-xs font-bold px-3 py-1 rounded-full">{strings.selection.notAvailableIn(language.nativeName)}</span>
+                      )}
+                   </div>
+  
+                   <div className="flex items-start space-x-4">
+                      <div className="w-20 h-20 rounded-full overflow-hidden bg-slate-100 shadow-inner">
+                        <img src={agent.avatarUrl} alt={agent.name} className="w-full h-full object-cover group-hover:scale-110 transition-transform duration-500" />
+                      </div>
+                      <div>
+                        <h3 className="text-xl font-bold text-slate-900">{agent.name}</h3>
+                        <p className="text-sm font-medium" style={{ color: agent.themeColor }}>{shown.role}</p>
+                      </div>
+                   </div>
+  
+                   <div className="mt-6 space-y-3">
+                     <p className="text-slate-600 leading-relaxed text-sm h-16">
+                       {shown.description}
+                     </p>
+                     
+                     <div className="flex items-center gap-2 text-xs text-slate-400 bg-slate-50 p-3 rounded-lg">
+                        <User size={14} />
+                        <span>{strings.selection.bestFor} {shown.bestFor}</span>
+                     </div>
+                   </div>
                    
-                   <div className="flex items-center gap-2 text-xs text-slate-400 bg-slate-50 p-3 rounded-lg">
-                      <User size={14} />
-                      <span>Best for: {agent.style === 'serious' ? 'Detailed medical facts & risks' : 'Anxiety relief & care tips'}</span>
+                   <div className={`mt-6 w-full py-3 bg-slate-900 text-white text-center rounded-lg opacity-0 transform translate-y-2 transition-all duration-300 font-medium ${speaksLanguage ? 'group-hover:opacity-100 group-hover:translate-y-0' : ''}`}>
+                      {strings.selection.startConsultation}
                    </div>
-                 </div>
-                 
-                 <div className="mt-6 w-full py-3 bg-slate-900 text-white text-center rounded-lg opacity-0 group-hover:opacity-100 transform translate-y-2 group-hover:translate-y-0 transition-all duration-300 font-medium">
-                    Start Consultation
-                 </div>
-              </div>
-            ))}
-          </div>
+
+                   <button
+                     onClick={(e) => {
+                       e.stopPropagation();
+                       handleAgentSelect(agent, 'text');
+                     }}
+                     disabled={!speaksLanguage}
+                     className="mt-3 w-full flex items-center justify-center gap-2 text-sm text-slate-500 hover:text-slate-900 disabled:hover:text-slate-500 transition-colors"
+                   >
+                     <MessageSquareText size={16} />
+                     {strings.selection.chatByText}
+                   </button>
+                </div>
+                );
+              })}
+            </div>
+          </>
         )}
       </main>
       
       <footer className="bg-slate-50 border-t border-slate-200 py-6 text-center text-slate-400 text-sm">
-        <p>&copy; {new Date().getFullYear()} AtosCare AI. HIPAA Compliant Interface.</p>
-        <p className="text-xs mt-1">Disclaimer: This is an AI education tool, not a doctor. In emergencies, call 911.</p>
+        <p>{strings.footer.copyright(new Date().getFullYear())}</p>
+        <p className="text-xs mt-1">{strings.footer.disclaimer(strings.emergencyNumber)}</p>
+        <button
+          onClick={exportAuditLog}
+          className="inline-flex items-center gap-1 text-xs mt-2 text-slate-500 hover:text-slate-700 underline-offset-2 hover:underline"
+        >
+          <Download size={12} /> {strings.footer.exportAudit}
+        </button>
+        <a
+          href="#/admin"
+          className="inline-flex items-center gap-1 text-xs mt-2 ml-4 text-slate-500 hover:text-slate-700 underline-offset-2 hover:underline"
+        >
+          <FileCheck2 size={12} /> {strings.footer.contentConsole}
+        </a>
+        <a
+          href="#/analytics"
+          className="inline-flex items-center gap-1 text-xs mt-2 ml-4 text-slate-500 hover:text-slate-700 underline-offset-2 hover:underline"
+        >
+          <BarChart3 size={12} /> {strings.footer.analytics}
+        </a>
       </footer>
     </div>
   );
@@ -0,0 +1,54 @@
+import React from 'react';
+import { ArrowRightLeft } from 'lucide-react';
+import { Agent } from '../types';
+import { useLocale } from '../locales/LocaleContext';
+import { localizeAgent } from '../utils/agentRegistry';
+
+interface AgentTransferProps {
+  agents: Agent[]; // Who the call can go to; empty hides the control
+  transferringTo: Agent | null;
+  disabled: boolean;
+  onTransfer: (agent: Agent) => void;
+}
+
+const AgentTransfer: React.FC<AgentTransferProps> = ({ agents, transferringTo, disabled, onTransfer }) => {
+  const { strings, language } = useLocale();
+
+  if (transferringTo) {
+    return (
+      <div role="status" className="w-full max-w-md mt-4 flex items-center gap-3 bg-slate-800/50 border border-slate-700/50 text-slate-200 text-sm rounded-xl px-4 py-3">
+        <div className="w-4 h-4 border-2 border-slate-300 border-t-transparent rounded-full animate-spin shrink-0"></div>
+        <span>{strings.call.transferring(transferringTo.name)}</span>
+      </div>
+    );
+  }
+
+  if (agents.length === 0) return null;
+
+  return (
+    <div className="w-full max-w-md mt-4 flex items-center gap-2 flex-wrap text-xs text-slate-400">
+      <span className="flex items-center gap-1">
+        <ArrowRightLeft size={14} />
+        {strings.call.transferTo}
+      </span>
+      {agents.map((agent) => {
+        const label = strings.call.transferToAgent(agent.name, localizeAgent(agent, language.code).role);
+        return (
+        <button
+          key={agent.id}
+          onClick={() => onTransfer(agent)}
+          disabled={disabled}
+          aria-label={label}
+          title={label}
+          className="flex items-center gap-2 pl-1 pr-3 py-1 rounded-full bg-slate-800 border border-slate-700 text-slate-200 hover:bg-slate-700 transition-colors disabled:opacity-40 disabled:hover:bg-slate-800"
+        >
+          <img src={agent.avatarUrl} alt="" className="w-6 h-6 rounded-full object-cover" />
+          {agent.name}
+        </button>
+        );
+      })}
+    </div>
+  );
+};
+
+export default AgentTransfer;
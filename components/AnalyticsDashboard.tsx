@@ -0,0 +1,281 @@
+import React, { useMemo, useState } from 'react';
+import { ArrowLeft, BarChart3, Download } from 'lucide-react';
+import { SessionMetrics } from '../types';
+import { AGENTS } from '../constants';
+import { PROCEDURES } from '../procedures';
+import { LANGUAGES } from '../locales';
+import { useLocale } from '../locales/LocaleContext';
+import {
+  MetricsSummary,
+  CONNECTION_ERROR_TYPES,
+  connectionErrorCounts,
+  filterByDate,
+  groupMetrics,
+  loadSessionMetrics,
+  metricsToCsv,
+  summarizeMetrics,
+  topicCounts,
+} from '../utils/sessionMetrics';
+import { downloadFile } from '../utils/summaryExport';
+
+type Dimension = 'procedure' | 'ageGroup' | 'language' | 'consultationMode';
+
+const DIMENSIONS: Dimension[] = ['procedure', 'ageGroup', 'language', 'consultationMode'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// <input type="date"> works in local calendar dates
+const toInputValue = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const fromInputValue = (value: string): Date | null => {
+  if (!value) return null;
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+/**
+ * Program-lead view, opened at #/analytics, of the anonymized session
+ * metrics kept on this device.
+ */
+const AnalyticsDashboard: React.FC = () => {
+  const { strings } = useLocale();
+  const text = strings.analytics;
+
+  const records = useMemo(loadSessionMetrics, []);
+  const [fromInput, setFromInput] = useState(() => toInputValue(new Date(Date.now() - 29 * DAY_MS)));
+  const [toInput, setToInput] = useState('');
+  const [dimension, setDimension] = useState<Dimension>('procedure');
+
+  const filtered = filterByDate(records, fromInputValue(fromInput), fromInputValue(toInput));
+  const overall = summarizeMetrics(filtered);
+  const byAgent = groupMetrics(filtered, r => r.agentId);
+  // Every configured agent gets a row, plus any since removed from the config
+  const agentIds = [...new Set([...AGENTS.map(a => a.id), ...byAgent.keys()])];
+  const topics = topicCounts(filtered);
+  const maxTopicSessions = Math.max(1, ...topics.map(t => t.sessions));
+  const errors = connectionErrorCounts(filtered);
+
+  const agentName = (id: string) => AGENTS.find(a => a.id === id)?.name ?? id;
+
+  const dimensionKey = (record: SessionMetrics): string => {
+    switch (dimension) {
+      case 'procedure': return record.procedureId;
+      case 'ageGroup': return record.ageGroup ?? '';
+      case 'language': return record.language;
+      case 'consultationMode': return record.consultationMode;
+    }
+  };
+
+  const dimensionLabel = (key: string): string => {
+    switch (dimension) {
+      case 'procedure': return PROCEDURES.find(p => p.id === key)?.name ?? key;
+      case 'ageGroup': return key ? strings.profile.ageGroups[key as keyof typeof strings.profile.ageGroups] : text.notGiven;
+      case 'language': return LANGUAGES.find(l => l.code === key)?.nativeName ?? key;
+      case 'consultationMode': return text.modes[key as keyof typeof text.modes] ?? key;
+    }
+  };
+
+  const byDimension = groupMetrics(filtered, dimensionKey);
+
+  const setPreset = (days: number | null) => {
+    setFromInput(days === null ? '' : toInputValue(new Date(Date.now() - (days - 1) * DAY_MS)));
+    setToInput('');
+  };
+
+  const exportCsv = () => {
+    downloadFile(`atoscare-analytics-${toInputValue(new Date())}.csv`, metricsToCsv(filtered), 'text/csv');
+  };
+
+  const percent = (value: number | null) => (value === null ? '—' : `${Math.round(value * 100)}%`);
+  const seconds = (ms: number | null) => (ms === null ? '—' : text.seconds((ms / 1000).toFixed(1)));
+  const minutes = (value: number | null) => (value === null ? '—' : strings.summary.minutes(Math.max(1, Math.round(value / 60))));
+  const decimal = (value: number | null) => (value === null ? '—' : value.toFixed(1));
+  const score = (value: number | null) => (value === null ? '—' : `${Math.round(value)}%`);
+
+  const summaryCells = (summary: MetricsSummary) => [
+    summary.sessions,
+    minutes(summary.averageDurationSeconds),
+    seconds(summary.medianFirstResponseMs),
+    percent(summary.escalationRate),
+    decimal(summary.interruptionsPerSession),
+    percent(summary.completionRate),
+    score(summary.averageTeachBackScore),
+  ];
+
+  const kpis: [string, string | number][] = [
+    [text.metrics.sessions, overall.sessions],
+    [text.metrics.averageDuration, minutes(overall.averageDurationSeconds)],
+    [text.metrics.firstResponse, seconds(overall.medianFirstResponseMs)],
+    [text.metrics.escalationRate, percent(overall.escalationRate)],
+    [text.metrics.interruptions, decimal(overall.interruptionsPerSession)],
+    [text.metrics.completionRate, percent(overall.completionRate)],
+    [text.metrics.teachBack, score(overall.averageTeachBackScore)],
+  ];
+
+  const fieldClass = 'rounded-lg border border-slate-200 px-3 py-2 text-sm bg-white';
+  const cardClass = 'bg-white rounded-2xl border border-slate-200 shadow-sm p-6';
+
+  return (
+    <div className="min-h-screen bg-slate-50 text-slate-900 font-sans flex flex-col">
+      <header className="bg-white border-b border-slate-200 px-6 py-4 flex items-center justify-between sticky top-0 z-10">
+        <div className="flex items-center gap-2">
+          <div className="bg-blue-600 text-white p-2 rounded-lg">
+            <BarChart3 size={24} />
+          </div>
+          <div>
+            <h1 className="text-xl font-bold tracking-tight text-slate-900">{text.title}</h1>
+            <p className="text-xs text-slate-500">{text.intro}</p>
+          </div>
+        </div>
+        <a href="#/" className="flex items-center gap-1 text-sm text-slate-600 hover:text-slate-900">
+          <ArrowLeft size={16} /> {strings.admin.backToApp}
+        </a>
+      </header>
+
+      <main className="flex-1 w-full max-w-6xl mx-auto p-6 space-y-6">
+        <div className="flex flex-wrap items-end gap-3">
+          <label className="flex flex-col gap-1 text-sm">
+            <span className="text-slate-500">{text.from}</span>
+            <input type="date" value={fromInput} onChange={(e) => setFromInput(e.target.value)} className={fieldClass} />
+          </label>
+          <label className="flex flex-col gap-1 text-sm">
+            <span className="text-slate-500">{text.to}</span>
+            <input type="date" value={toInput} onChange={(e) => setToInput(e.target.value)} className={fieldClass} />
+          </label>
+          {([[7, text.last7], [30, text.last30], [null, text.allTime]] as const).map(([days, label]) => (
+            <button
+              key={label}
+              onClick={() => setPreset(days)}
+              className="px-3 py-2 rounded-lg border border-slate-200 bg-white text-sm text-slate-700 hover:bg-slate-50 transition-colors"
+            >
+              {label}
+            </button>
+          ))}
+          <button
+            onClick={exportCsv}
+            disabled={filtered.length === 0}
+            className="ml-auto flex items-center gap-2 px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium disabled:opacity-40 transition-colors"
+          >
+            <Download size={16} /> {text.exportCsv}
+          </button>
+        </div>
+
+        {filtered.length === 0 ? (
+          <p className={`${cardClass} text-sm text-slate-500`}>{text.noSessions}</p>
+        ) : (
+          <>
+            <dl className="grid grid-cols-2 sm:grid-cols-4 lg:grid-cols-7 gap-4">
+              {kpis.map(([label, value]) => (
+                <div key={label} className="bg-white rounded-2xl border border-slate-200 shadow-sm p-4">
+                  <dt className="text-xs text-slate-500">{label}</dt>
+                  <dd className="text-2xl font-bold mt-1">{value}</dd>
+                </div>
+              ))}
+            </dl>
+
+            <section className={cardClass}>
+              <h2 className="font-semibold mb-4">{text.byAgent}</h2>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-slate-500 border-b border-slate-200">
+                      <th className="py-2 pr-4 font-medium">{text.agent}</th>
+                      {kpis.map(([label]) => <th key={label} className="py-2 pr-4 font-medium">{label}</th>)}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {agentIds.map((id) => (
+                      <tr key={id} className="border-b border-slate-100 last:border-0">
+                        <td className="py-2 pr-4 font-medium">{agentName(id)}</td>
+                        {summaryCells(summarizeMetrics(byAgent.get(id) ?? [])).map((cell, i) => (
+                          <td key={i} className="py-2 pr-4 tabular-nums">{cell}</td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </section>
+
+            <section className={cardClass}>
+              <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+                <h2 className="font-semibold">{text.compareTitle}</h2>
+                <label className="flex items-center gap-2 text-sm">
+                  <span className="text-slate-500">{text.compareBy}</span>
+                  <select value={dimension} onChange={(e) => setDimension(e.target.value as Dimension)} className={fieldClass}>
+                    {DIMENSIONS.map((d) => <option key={d} value={d}>{text.dimensions[d]}</option>)}
+                  </select>
+                </label>
+              </div>
+              <p className="text-xs text-slate-500 mb-3">{text.compareHint}</p>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-slate-500 border-b border-slate-200">
+                      <th className="py-2 pr-4 font-medium">{text.dimensions[dimension]}</th>
+                      {agentIds.map((id) => <th key={id} className="py-2 pr-4 font-medium">{agentName(id)}</th>)}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {[...byDimension.entries()].map(([key, group]) => {
+                      const groupByAgent = groupMetrics(group, r => r.agentId);
+                      return (
+                        <tr key={key} className="border-b border-slate-100 last:border-0">
+                          <td className="py-2 pr-4 font-medium">{dimensionLabel(key)}</td>
+                          {agentIds.map((id) => {
+                            const summary = summarizeMetrics(groupByAgent.get(id) ?? []);
+                            return (
+                              <td key={id} className="py-2 pr-4 tabular-nums">
+                                {summary.sessions === 0 ? '—' : text.compareCell(summary.sessions, percent(summary.completionRate), score(summary.averageTeachBackScore))}
+                              </td>
+                            );
+                          })}
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            </section>
+
+            <div className="grid grid-cols-1 lg:grid-cols-[2fr_1fr] gap-6 items-start">
+              <section className={cardClass}>
+                <h2 className="font-semibold mb-1">{text.topicsTitle}</h2>
+                <p className="text-xs text-slate-500 mb-4">{text.topicsHint}</p>
+                <ul className="space-y-2">
+                  {topics.map(({ topic, sessions, gaps }) => (
+                    <li key={topic} className="grid grid-cols-[9rem_1fr_auto] items-center gap-3 text-sm">
+                      <span>{text.topics[topic]}</span>
+                      <span className="h-2 rounded-full bg-slate-100 overflow-hidden">
+                        <span className="block h-full bg-blue-500" style={{ width: `${(sessions / maxTopicSessions) * 100}%` }} />
+                      </span>
+                      <span className="tabular-nums text-slate-600">
+                        {sessions}
+                        {gaps > 0 && <span className="ml-2 text-amber-700">{text.contentGaps(gaps)}</span>}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </section>
+
+              <section className={cardClass}>
+                <h2 className="font-semibold mb-4">{text.connectionErrors}</h2>
+                <dl className="space-y-2 text-sm">
+                  {CONNECTION_ERROR_TYPES.map((type) => (
+                    <div key={type} className="flex justify-between">
+                      <dt className="text-slate-600">{text.errorTypes[type]}</dt>
+                      <dd className="tabular-nums font-medium">{errors[type]}</dd>
+                    </div>
+                  ))}
+                </dl>
+              </section>
+            </div>
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default AnalyticsDashboard;
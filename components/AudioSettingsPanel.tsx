@@ -0,0 +1,217 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { ChevronDown, ChevronUp, Headphones } from 'lucide-react';
+import { AudioSettings } from '../types';
+import { useLocale } from '../locales/LocaleContext';
+import { canSelectOutputDevice, listAudioDevices, microphoneConstraints } from '../utils/audioSettings';
+import PlaybackControls from './PlaybackControls';
+
+// Scales speech RMS (rarely above 0.25) to fill the level bar
+const LEVEL_GAIN = 4;
+
+interface AudioSettingsPanelProps {
+  settings: AudioSettings;
+  onChange: (patch: Partial<AudioSettings>) => void;
+  onTestOutput: () => void;
+}
+
+const AudioSettingsPanel: React.FC<AudioSettingsPanelProps> = ({ settings, onChange, onTestOutput }) => {
+  const { strings } = useLocale();
+  const text = strings.audio;
+  const [open, setOpen] = useState(false);
+  const [inputs, setInputs] = useState<MediaDeviceInfo[]>([]);
+  const [outputs, setOutputs] = useState<MediaDeviceInfo[]>([]);
+  const [testing, setTesting] = useState(false);
+  const [testFailed, setTestFailed] = useState(false);
+  const [level, setLevel] = useState(0);
+  const outputSelectable = canSelectOutputDevice();
+
+  const refreshDevices = useCallback(() => {
+    listAudioDevices()
+      .then(({ inputs, outputs }) => {
+        setInputs(inputs);
+        setOutputs(outputs);
+      })
+      .catch((err) => console.warn("Could not list audio devices", err));
+  }, []);
+
+  useEffect(() => {
+    if (!open || !navigator.mediaDevices) return;
+    refreshDevices();
+    navigator.mediaDevices.addEventListener('devicechange', refreshDevices);
+    return () => navigator.mediaDevices.removeEventListener('devicechange', refreshDevices);
+  }, [open, refreshDevices]);
+
+  const { inputDeviceId, echoCancellation, noiseSuppression } = settings;
+  const constraints = useMemo(
+    () => microphoneConstraints({ inputDeviceId, echoCancellation, noiseSuppression }),
+    [inputDeviceId, echoCancellation, noiseSuppression],
+  );
+
+  // Live level meter for the chosen mic; restarts when the mic or its processing changes
+  useEffect(() => {
+    if (!open || !testing) return;
+    let stopped = false;
+    let frame = 0;
+    let stream: MediaStream | null = null;
+    let ctx: AudioContext | null = null;
+
+    navigator.mediaDevices.getUserMedia(constraints)
+      .then((granted) => {
+        stream = granted;
+        if (stopped) {
+          granted.getTracks().forEach(track => track.stop());
+          return;
+        }
+        // Device names are only exposed once the mic has been allowed
+        refreshDevices();
+        ctx = new AudioContext();
+        const analyser = ctx.createAnalyser();
+        analyser.fftSize = 512;
+        ctx.createMediaStreamSource(granted).connect(analyser);
+        const samples = new Float32Array(analyser.fftSize);
+
+        const tick = () => {
+          analyser.getFloatTimeDomainData(samples);
+          let sum = 0;
+          for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+          setLevel(Math.min(1, Math.sqrt(sum / samples.length) * LEVEL_GAIN));
+          frame = requestAnimationFrame(tick);
+        };
+        tick();
+      })
+      .catch((err) => {
+        console.warn("Microphone test failed", err);
+        setTestFailed(true);
+        setTesting(false);
+      });
+
+    return () => {
+      stopped = true;
+      cancelAnimationFrame(frame);
+      stream?.getTracks().forEach(track => track.stop());
+      ctx?.close();
+      setLevel(0);
+    };
+  }, [open, testing, constraints, refreshDevices]);
+
+  const toggleTest = () => {
+    setTestFailed(false);
+    setTesting(prev => !prev);
+  };
+
+  const fieldClass = 'rounded-lg border border-slate-200 px-3 py-2 text-sm bg-white';
+
+  return (
+    <section className="w-full max-w-4xl bg-white rounded-2xl border border-slate-200 shadow-sm mb-8">
+      <button
+        onClick={() => setOpen(prev => !prev)}
+        aria-expanded={open}
+        className="w-full flex items-center justify-between gap-3 p-5 text-left"
+      >
+        <span className="flex items-center gap-2 text-slate-900">
+          <Headphones size={18} />
+          <span className="font-semibold">{text.title}</span>
+          <span className="text-xs text-slate-500 font-normal">{text.subtitle}</span>
+        </span>
+        {open ? <ChevronUp size={18} className="text-slate-400" /> : <ChevronDown size={18} className="text-slate-400" />}
+      </button>
+
+      {open && (
+        <div className="px-5 pb-5 space-y-5">
+          <p className="text-sm text-slate-500">{text.intro}</p>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="flex flex-col gap-2 text-sm">
+              <label className="flex flex-col gap-1">
+                <span className="text-slate-500">{text.microphone}</span>
+                <select
+                  value={settings.inputDeviceId ?? ''}
+                  onChange={(e) => onChange({ inputDeviceId: e.target.value || null })}
+                  className={fieldClass}
+                >
+                  <option value="">{text.systemDefault}</option>
+                  {inputs.filter(d => d.deviceId && d.deviceId !== 'default').map((device, i) => (
+                    <option key={device.deviceId} value={device.deviceId}>{device.label || text.unnamedMicrophone(i + 1)}</option>
+                  ))}
+                </select>
+              </label>
+
+              <div className="flex items-center gap-3">
+                <button
+                  type="button"
+                  onClick={toggleTest}
+                  aria-pressed={testing}
+                  className="px-3 py-1.5 rounded-lg border border-slate-200 text-slate-700 text-xs font-medium hover:bg-slate-50 transition-colors"
+                >
+                  {testing ? text.stopTest : text.testMicrophone}
+                </button>
+                <div
+                  role="meter"
+                  aria-label={text.micLevel}
+                  aria-valuemin={0}
+                  aria-valuemax={100}
+                  aria-valuenow={Math.round(level * 100)}
+                  className="flex-1 h-2 rounded-full bg-slate-100 overflow-hidden"
+                >
+                  <div className="h-full bg-green-500 transition-[width] duration-75" style={{ width: `${level * 100}%` }}></div>
+                </div>
+              </div>
+              {testing && <p className="text-xs text-slate-500">{text.testHint}</p>}
+              {testFailed && <p role="alert" className="text-xs text-red-700">{text.testFailed}</p>}
+            </div>
+
+            <div className="flex flex-col gap-2 text-sm">
+              <label className="flex flex-col gap-1">
+                <span className="text-slate-500">{text.speaker}</span>
+                <select
+                  value={settings.outputDeviceId ?? ''}
+                  onChange={(e) => onChange({ outputDeviceId: e.target.value || null })}
+                  disabled={!outputSelectable}
+                  className={`${fieldClass} disabled:bg-slate-50 disabled:text-slate-400`}
+                >
+                  <option value="">{text.systemDefault}</option>
+                  {outputs.filter(d => d.deviceId && d.deviceId !== 'default').map((device, i) => (
+                    <option key={device.deviceId} value={device.deviceId}>{device.label || text.unnamedSpeaker(i + 1)}</option>
+                  ))}
+                </select>
+              </label>
+              <div className="flex items-center gap-3">
+                <button
+                  type="button"
+                  onClick={onTestOutput}
+                  className="px-3 py-1.5 rounded-lg border border-slate-200 text-slate-700 text-xs font-medium hover:bg-slate-50 transition-colors"
+                >
+                  {text.playTestSound}
+                </button>
+                {!outputSelectable && <p className="text-xs text-slate-500">{text.outputUnsupported}</p>}
+              </div>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 text-sm">
+            {(['echoCancellation', 'noiseSuppression'] as const).map((key) => (
+              <label key={key} className="flex items-start gap-3 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={settings[key]}
+                  onChange={(e) => onChange({ [key]: e.target.checked })}
+                  className="mt-0.5 h-4 w-4 accent-blue-600"
+                />
+                <span>
+                  <span className="font-medium text-slate-900">{text[key]}</span>
+                  <span className="block text-xs text-slate-500 mt-0.5">{text.hints[key]}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+
+          <PlaybackControls playbackRate={settings.playbackRate} volume={settings.volume} onChange={onChange} />
+
+          <p className="text-xs text-slate-500 italic">{text.appliesNextCall}</p>
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default AudioSettingsPanel;
@@ -1,13 +1,40 @@
 import React, { useEffect, useRef } from 'react';
+import { SpeakingState } from '../types';
 
 interface AudioVisualizerProps {
   isActive: boolean;
+  inputAnalyser?: AnalyserNode | null;
+  outputAnalyser?: AnalyserNode | null;
   barColor?: string;
+  inputBarColor?: string;
+  onSpeakingStateChange?: (state: SpeakingState) => void;
 }
 
-const AudioVisualizer: React.FC<AudioVisualizerProps> = ({ isActive, barColor = '#3b82f6' }) => {
+// RMS levels above which a side counts as speaking
+const INPUT_THRESHOLD = 0.02;
+const OUTPUT_THRESHOLD = 0.01;
+// Keep a state for a moment after the level drops so short pauses don't flicker
+const HOLD_MS = 400;
+
+const rmsLevel = (analyser: AnalyserNode, buffer: Float32Array<ArrayBuffer>): number => {
+  analyser.getFloatTimeDomainData(buffer);
+  let sum = 0;
+  for (let i = 0; i < buffer.length; i++) sum += buffer[i] * buffer[i];
+  return Math.sqrt(sum / buffer.length);
+};
+
+const AudioVisualizer: React.FC<AudioVisualizerProps> = ({
+  isActive,
+  inputAnalyser,
+  outputAnalyser,
+  barColor = '#3b82f6',
+  inputBarColor = '#64748b',
+  onSpeakingStateChange,
+}) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const animationRef = useRef<number>();
+  const onStateChangeRef = useRef(onSpeakingStateChange);
+  onStateChangeRef.current = onSpeakingStateChange;
 
   useEffect(() => {
     const canvas = canvasRef.current;
@@ -27,36 +54,68 @@ const AudioVisualizer: React.FC<AudioVisualizerProps> = ({ isActive, barColor =
     const barWidth = rect.width / barCount;
     const centerY = rect.height / 2;
 
-    let phase = 0;
+    const inputTime = inputAnalyser ? new Float32Array(inputAnalyser.fftSize) : null;
+    const outputTime = outputAnalyser ? new Float32Array(outputAnalyser.fftSize) : null;
+    const inputFreq = inputAnalyser ? new Uint8Array(inputAnalyser.frequencyBinCount) : null;
+    const outputFreq = outputAnalyser ? new Uint8Array(outputAnalyser.frequencyBinCount) : null;
+
+    let state: SpeakingState = 'idle';
+    let lastHeard = 0;
+
+    const setState = (next: SpeakingState) => {
+      if (next !== state) {
+        state = next;
+        onStateChangeRef.current?.(next);
+      }
+    };
 
     const animate = () => {
       ctx.clearRect(0, 0, rect.width, rect.height);
-      
+
+      const now = performance.now();
+      const inputLevel = isActive && inputAnalyser && inputTime ? rmsLevel(inputAnalyser, inputTime) : 0;
+      const outputLevel = isActive && outputAnalyser && outputTime ? rmsLevel(outputAnalyser, outputTime) : 0;
+
+      // Agent playback wins ties: the mic often picks up the speakers
+      if (outputLevel > OUTPUT_THRESHOLD) {
+        setState('agent');
+        lastHeard = now;
+      } else if (inputLevel > INPUT_THRESHOLD) {
+        setState('user');
+        lastHeard = now;
+      } else if (now - lastHeard > HOLD_MS) {
+        setState('idle');
+      }
+
+      const analyser = state === 'agent' ? outputAnalyser : state === 'user' ? inputAnalyser : null;
+      const freq = state === 'agent' ? outputFreq : inputFreq;
+      if (analyser && freq) analyser.getByteFrequencyData(freq);
+
+      // Voice energy sits in the lower part of the spectrum
+      const usefulBins = freq ? Math.floor(freq.length / 3) : 0;
+      const binsPerBar = Math.max(1, Math.floor(usefulBins / barCount));
+
+      ctx.fillStyle = state === 'user' ? inputBarColor : barColor;
       for (let i = 0; i < barCount; i++) {
-        // Create a fake wave effect if active, otherwise flat line
-        let amplitude = 0;
-        
-        if (isActive) {
-            // Mix of sine waves to create "voice-like" movement
-            const wave1 = Math.sin(phase + i * 0.2) * 15;
-            const wave2 = Math.sin(phase * 1.5 + i * 0.5) * 10;
-            const noise = Math.random() * 5; 
-            amplitude = Math.max(2, Math.abs(wave1 + wave2 + noise));
-        } else {
-            amplitude = 2;
+        let amplitude = 2;
+
+        if (analyser && freq) {
+          let peak = 0;
+          for (let b = 0; b < binsPerBar; b++) {
+            peak = Math.max(peak, freq[i * binsPerBar + b] ?? 0);
+          }
+          amplitude = Math.max(2, (peak / 255) * rect.height * 0.9);
         }
 
         const height = amplitude;
         const x = i * barWidth;
         const y = centerY - height / 2;
 
-        ctx.fillStyle = barColor;
         ctx.beginPath();
         ctx.roundRect(x + 2, y, barWidth - 4, height, 4);
         ctx.fill();
       }
 
-      phase += 0.15;
       animationRef.current = requestAnimationFrame(animate);
     };
 
@@ -67,11 +126,11 @@ const AudioVisualizer: React.FC<AudioVisualizerProps> = ({ isActive, barColor =
         cancelAnimationFrame(animationRef.current);
       }
     };
-  }, [isActive, barColor]);
+  }, [isActive, inputAnalyser, outputAnalyser, barColor, inputBarColor]);
 
   return (
-    <canvas 
-      ref={canvasRef} 
+    <canvas
+      ref={canvasRef}
       className="w-full h-32 rounded-lg bg-slate-50 border border-slate-100"
     />
   );
@@ -0,0 +1,37 @@
+import React from 'react';
+import { Activity, Baby, FileText, HeartPulse, LucideIcon, Smile, Stethoscope } from 'lucide-react';
+import { AgentCapability, CapabilityIcon } from '../types';
+import { useLocale } from '../locales/LocaleContext';
+
+const ICONS: Record<CapabilityIcon, LucideIcon> = {
+  'activity': Activity,
+  'file-text': FileText,
+  'heart-pulse': HeartPulse,
+  'stethoscope': Stethoscope,
+  'smile': Smile,
+  'baby': Baby,
+};
+
+interface CapabilityListProps {
+  capabilities: AgentCapability[];
+}
+
+const CapabilityList: React.FC<CapabilityListProps> = ({ capabilities }) => {
+  const { strings } = useLocale();
+
+  return (
+    <div className="bg-slate-800/50 p-6 rounded-2xl border border-slate-700/50 backdrop-blur-sm">
+      <h4 className="text-sm font-semibold text-slate-300 mb-2">{strings.call.capabilities}</h4>
+      <ul className="text-sm text-slate-400 space-y-2">
+        {capabilities.map(({ label, icon }) => {
+          const Icon = ICONS[icon];
+          return (
+            <li key={label} className="flex items-center gap-2"><Icon className="w-4 h-4" /> {label}</li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default CapabilityList;
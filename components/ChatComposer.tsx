@@ -0,0 +1,48 @@
+import React, { useState } from 'react';
+import { SendHorizontal } from 'lucide-react';
+import { useLocale } from '../locales/LocaleContext';
+
+interface ChatComposerProps {
+  onSend: (text: string) => void;
+  disabled?: boolean;
+}
+
+const ChatComposer: React.FC<ChatComposerProps> = ({ onSend, disabled = false }) => {
+  const { strings } = useLocale();
+  const [draft, setDraft] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const text = draft.trim();
+    if (!text || disabled) return;
+    onSend(text);
+    setDraft('');
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex items-center gap-2 bg-slate-800/50 rounded-2xl border border-slate-700/50 p-2">
+      <label htmlFor="chat-input" className="sr-only">{strings.composer.label}</label>
+      <input
+        id="chat-input"
+        type="text"
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        placeholder={strings.composer.placeholder}
+        autoComplete="off"
+        autoFocus
+        disabled={disabled}
+        className="flex-1 bg-transparent px-3 py-2 text-sm text-white placeholder-slate-500 focus:outline-none disabled:opacity-50"
+      />
+      <button
+        type="submit"
+        disabled={disabled || !draft.trim()}
+        aria-label={strings.composer.send}
+        className="p-2 rounded-xl bg-blue-600 hover:bg-blue-500 text-white disabled:opacity-40 disabled:hover:bg-blue-600 transition-colors"
+      >
+        <SendHorizontal size={20} />
+      </button>
+    </form>
+  );
+};
+
+export default ChatComposer;
@@ -0,0 +1,45 @@
+import React from 'react';
+import { CheckInRecord } from '../types';
+import { CHECKIN_FLAG_COLORS } from '../constants';
+import { useLocale } from '../locales/LocaleContext';
+import { CHECKIN_QUESTIONS, formatCheckInAnswer } from '../utils/recoveryCheckIn';
+
+interface CheckInProgressProps {
+  record: CheckInRecord;
+}
+
+const CheckInProgress: React.FC<CheckInProgressProps> = ({ record }) => {
+  const { strings } = useLocale();
+  const text = strings.recovery;
+
+  return (
+    <div className="bg-slate-800/50 p-6 rounded-2xl border border-slate-700/50 backdrop-blur-sm">
+      <div className="flex items-center justify-between mb-3">
+        <h4 className="text-sm font-semibold text-slate-300">
+          {text.progressTitle} · {text.day(record.postOpDay)}
+        </h4>
+        <span className={`text-xs ${record.completedAt ? 'text-green-400' : 'text-slate-500'}`}>
+          {record.completedAt ? text.completed : text.inProgress}
+        </span>
+      </div>
+      <ul className="text-sm space-y-2" aria-live="polite">
+        {CHECKIN_QUESTIONS.map((question) => {
+          const flag = record.flags[question];
+          return (
+            <li key={question} className="flex items-center gap-3">
+              <span
+                className="w-2.5 h-2.5 rounded-full shrink-0 border border-slate-600"
+                style={flag ? { backgroundColor: CHECKIN_FLAG_COLORS[flag], borderColor: CHECKIN_FLAG_COLORS[flag] } : undefined}
+                title={flag ? text.flags[flag] : undefined}
+              ></span>
+              <span className="text-slate-400 w-28 shrink-0">{text.questions[question]}</span>
+              <span className="text-slate-100">{formatCheckInAnswer(question, record.answers, strings)}</span>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default CheckInProgress;
@@ -0,0 +1,394 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { ArrowLeft, CheckCircle2, FilePlus2, LogOut, ShieldCheck, XCircle } from 'lucide-react';
+import { ClinicalContent, ContentStatus, ContentVersion } from '../types';
+import { AGENTS } from '../constants';
+import { PROCEDURES } from '../procedures';
+import { useLocale } from '../locales/LocaleContext';
+import { ContentUser, createContentClient } from '../services/contentClient';
+import { BUILT_IN_CONTENT, ContentField, contentFields, emptyContentFields, invalidContentFields } from '../utils/clinicalContent';
+import ContentDiff from './ContentDiff';
+
+const contentClient = createContentClient();
+
+const STATUS_STYLES: Record<ContentStatus, string> = {
+  draft: 'bg-slate-100 text-slate-700',
+  in_review: 'bg-amber-100 text-amber-800',
+  approved: 'bg-green-100 text-green-800',
+  rejected: 'bg-red-100 text-red-700',
+  superseded: 'bg-slate-100 text-slate-400',
+};
+
+/**
+ * Clinician view, opened at #/admin, for editing persona prompts and
+ * procedure education. Authors write drafts and submit them; a reviewer other
+ * than the author approves one, which makes it the version new sessions use.
+ */
+const ContentConsole: React.FC = () => {
+  const { strings, language } = useLocale();
+  const text = strings.admin;
+
+  const [user, setUser] = useState<ContentUser | null>(() => contentClient.currentUser());
+  const [name, setName] = useState('');
+  const [password, setPassword] = useState('');
+  const [versions, setVersions] = useState<ContentVersion[]>([]);
+  const [selectedNumber, setSelectedNumber] = useState<number | null>(null);
+  // Working copy of the selected draft, plus the raw text of the field being edited
+  const [working, setWorking] = useState<ClinicalContent | null>(null);
+  const [fieldKey, setFieldKey] = useState('base');
+  const [fieldText, setFieldText] = useState('');
+  const [note, setNote] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+  const [noticeMsg, setNoticeMsg] = useState<string | null>(null);
+
+  const selected = versions.find(v => v.number === selectedNumber) ?? null;
+  const approved = versions.find(v => v.status === 'approved') ?? null;
+  const baseline = selected?.basedOn ? versions.find(v => v.number === selected.basedOn) ?? null : null;
+  const isAuthor = user?.roles.includes('author') ?? false;
+  const isReviewer = user?.roles.includes('reviewer') ?? false;
+  const canEdit = selected?.status === 'draft' && selected.author === user?.name && isAuthor;
+
+  const fields = contentFields(working ?? selected?.content ?? BUILT_IN_CONTENT);
+  const field = fields.find(f => f.key === fieldKey) ?? fields[0];
+  // The draft as it would be saved right now, including the field being typed in
+  const edited = working && field ? field.set(working, fieldText) : working;
+  const unsaved = canEdit && edited !== null && selected !== null && JSON.stringify(edited) !== JSON.stringify(selected.content);
+
+  const fieldLabel = (f: ContentField): string => {
+    if (f.kind === 'base') return text.baseInstruction;
+    if (f.kind === 'agent') return text.personaPrompt(AGENTS.find(a => a.id === f.id)?.name ?? f.id!);
+    const procedureName = PROCEDURES.find(p => p.id === f.id)?.name ?? f.id;
+    if (f.kind === 'preOp') return `${procedureName} · ${text.preOpFields[f.preOpKey!]}`;
+    return `${procedureName} · ${text.sections[f.section!]}`;
+  };
+
+  const formatDate = (date: Date) => date.toLocaleString(language.code, { dateStyle: 'medium', timeStyle: 'short' });
+
+  // Runs a console action, showing the server's reason if it refuses
+  const run = useCallback(async (action: () => Promise<void>) => {
+    setBusy(true);
+    setErrorMsg(null);
+    setNoticeMsg(null);
+    try {
+      await action();
+    } catch (err: any) {
+      setErrorMsg(err.message);
+      setUser(contentClient.currentUser());
+    } finally {
+      setBusy(false);
+    }
+  }, []);
+
+  const refresh = async (select?: number) => {
+    const list = await contentClient.listVersions();
+    setVersions(list);
+    if (select !== undefined) selectVersion(select, list);
+  };
+
+  const selectVersion = (number: number, list: ContentVersion[] = versions) => {
+    const version = list.find(v => v.number === number);
+    setSelectedNumber(number);
+    setWorking(version?.status === 'draft' ? version.content : null);
+    const first = contentFields(version?.content ?? BUILT_IN_CONTENT)[0];
+    setFieldKey(first.key);
+    setFieldText(version ? first.get(version.content) : '');
+    setNote('');
+  };
+
+  // Loads the version list whenever someone signs in
+  const userName = user?.name;
+  useEffect(() => {
+    if (userName) run(async () => setVersions(await contentClient.listVersions()));
+  }, [userName, run]);
+
+  const handleLogin = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      setUser(await contentClient.login(name.trim(), password));
+      setPassword('');
+    });
+  };
+
+  const handleLogout = async () => {
+    await contentClient.logout();
+    setUser(null);
+    setVersions([]);
+    setSelectedNumber(null);
+    setWorking(null);
+  };
+
+  // Keeps what was typed in the current field before switching to another
+  const switchField = (key: string) => {
+    if (!working) return;
+    const next = edited!;
+    setWorking(next);
+    setFieldKey(key);
+    setFieldText(fields.find(f => f.key === key)!.get(next));
+  };
+
+  const startDraft = (from: ContentVersion | null) => run(async () => {
+    const draft = await contentClient.createDraft(from?.content ?? BUILT_IN_CONTENT, from?.number ?? null);
+    await refresh(draft.number);
+  });
+
+  const saveDraft = () => run(async () => {
+    if (!selected || !edited) return;
+    const empty = emptyContentFields(edited);
+    if (empty.length > 0) {
+      setErrorMsg(text.emptyFields(empty.length));
+      return;
+    }
+    const invalid = invalidContentFields(edited);
+    if (invalid.length > 0) {
+      setErrorMsg(text.invalidFields(invalid.length));
+      return;
+    }
+    await contentClient.saveDraft(selected.number, edited);
+    await refresh();
+    setWorking(edited);
+    setNoticeMsg(text.saved);
+  });
+
+  const submitDraft = () => run(async () => {
+    if (!selected) return;
+    await contentClient.submit(selected.number);
+    await refresh(selected.number);
+  });
+
+  const review = (decision: 'approve' | 'reject') => run(async () => {
+    if (!selected) return;
+    if (decision === 'approve') {
+      await contentClient.approve(selected.number, note);
+    } else {
+      await contentClient.reject(selected.number, note);
+    }
+    await refresh(selected.number);
+    setNoticeMsg(decision === 'approve' ? text.approvedNotice : text.rejectedNotice);
+  });
+
+  const fieldClass = 'rounded-lg border border-slate-200 px-3 py-2 text-sm bg-white';
+
+  return (
+    <div className="min-h-screen bg-slate-50 text-slate-900 font-sans flex flex-col">
+      <header className="bg-white border-b border-slate-200 px-6 py-4 flex items-center justify-between sticky top-0 z-10">
+        <div className="flex items-center gap-2">
+          <div className="bg-blue-600 text-white p-2 rounded-lg">
+            <ShieldCheck size={24} />
+          </div>
+          <div>
+            <h1 className="text-xl font-bold tracking-tight text-slate-900">{text.title}</h1>
+            {user && <p className="text-xs text-slate-500">{text.signedInAs(user.name, user.roles.map(role => text.roles[role]).join(', '))}</p>}
+          </div>
+        </div>
+        <div className="flex items-center gap-4 text-sm">
+          <a href="#/" className="flex items-center gap-1 text-slate-600 hover:text-slate-900">
+            <ArrowLeft size={16} /> {text.backToApp}
+          </a>
+          {user && (
+            <button onClick={handleLogout} className="flex items-center gap-1 text-slate-600 hover:text-slate-900">
+              <LogOut size={16} /> {text.signOut}
+            </button>
+          )}
+        </div>
+      </header>
+
+      <main className="flex-1 w-full max-w-6xl mx-auto p-6 space-y-4">
+        {errorMsg && (
+          <div role="alert" className="bg-red-50 text-red-700 p-4 rounded-lg border border-red-200 text-sm">{errorMsg}</div>
+        )}
+        {noticeMsg && (
+          <div role="status" className="bg-green-50 text-green-800 p-4 rounded-lg border border-green-200 text-sm">{noticeMsg}</div>
+        )}
+
+        {!user ? (
+          <form onSubmit={handleLogin} className="max-w-sm mx-auto mt-12 bg-white rounded-2xl border border-slate-200 shadow-sm p-6 space-y-4">
+            <h2 className="text-lg font-semibold">{text.signInTitle}</h2>
+            <p className="text-sm text-slate-500">{text.signInIntro}</p>
+            <label className="flex flex-col gap-1 text-sm">
+              <span className="text-slate-500">{text.name}</span>
+              <input value={name} onChange={(e) => setName(e.target.value)} autoComplete="username" required className={fieldClass} />
+            </label>
+            <label className="flex flex-col gap-1 text-sm">
+              <span className="text-slate-500">{text.password}</span>
+              <input type="password" value={password} onChange={(e) => setPassword(e.target.value)} autoComplete="current-password" required className={fieldClass} />
+            </label>
+            <button
+              type="submit"
+              disabled={busy}
+              className="w-full px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium disabled:opacity-40 transition-colors"
+            >
+              {text.signIn}
+            </button>
+          </form>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-[18rem_1fr] gap-6 items-start">
+            <aside className="bg-white rounded-2xl border border-slate-200 shadow-sm p-4 space-y-3">
+              <h2 className="text-sm font-semibold text-slate-700">{text.versions}</h2>
+              {isAuthor && (
+                <button
+                  onClick={() => startDraft(approved)}
+                  disabled={busy}
+                  className="w-full flex items-center justify-center gap-2 px-3 py-2 rounded-lg border border-blue-200 text-blue-700 text-sm font-medium hover:bg-blue-50 disabled:opacity-40 transition-colors"
+                >
+                  <FilePlus2 size={16} /> {text.newDraft}
+                </button>
+              )}
+              {versions.length === 0 ? (
+                <p className="text-xs text-slate-500">{text.noVersions}</p>
+              ) : (
+                <ul className="space-y-1">
+                  {[...versions].reverse().map((version) => (
+                    <li key={version.number}>
+                      <button
+                        onClick={() => selectVersion(version.number)}
+                        aria-current={version.number === selectedNumber}
+                        className={`w-full text-left px-3 py-2 rounded-lg text-sm transition-colors ${version.number === selectedNumber ? 'bg-blue-50 ring-1 ring-blue-200' : 'hover:bg-slate-50'}`}
+                      >
+                        <span className="flex items-center justify-between gap-2">
+                          <span className="font-medium">{text.version(version.number)}</span>
+                          <span className={`text-xs px-2 py-0.5 rounded-full ${STATUS_STYLES[version.status]}`}>{text.status[version.status]}</span>
+                        </span>
+                        <span className="block text-xs text-slate-500 mt-0.5">{version.author} · {formatDate(version.updatedAt)}</span>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </aside>
+
+            {!selected ? (
+              <p className="text-sm text-slate-500 p-4">{text.selectVersion}</p>
+            ) : (
+              <section className="bg-white rounded-2xl border border-slate-200 shadow-sm p-6 space-y-6">
+                <div className="flex flex-wrap items-start justify-between gap-3">
+                  <div>
+                    <h2 className="text-xl font-bold">{text.version(selected.number)}</h2>
+                    <span className={`inline-block mt-1 text-xs px-2 py-0.5 rounded-full ${STATUS_STYLES[selected.status]}`}>{text.status[selected.status]}</span>
+                  </div>
+                  {isAuthor && selected.status !== 'draft' && (
+                    <button
+                      onClick={() => startDraft(selected)}
+                      disabled={busy}
+                      className="flex items-center gap-2 px-3 py-2 rounded-lg border border-slate-200 text-slate-700 text-sm hover:bg-slate-50 disabled:opacity-40 transition-colors"
+                    >
+                      <FilePlus2 size={16} /> {text.draftFromThis}
+                    </button>
+                  )}
+                </div>
+
+                <dl className="grid grid-cols-2 sm:grid-cols-4 gap-4 text-sm">
+                  <div><dt className="text-slate-500">{text.author}</dt><dd className="font-medium">{selected.author}</dd></div>
+                  <div><dt className="text-slate-500">{text.reviewer}</dt><dd className="font-medium">{selected.reviewedBy ?? '—'}</dd></div>
+                  <div><dt className="text-slate-500">{text.basedOn}</dt><dd className="font-medium">{selected.basedOn ? text.version(selected.basedOn) : text.builtIn}</dd></div>
+                  <div><dt className="text-slate-500">{text.hash}</dt><dd className="font-mono text-xs break-all" title={selected.contentHash}>{selected.contentHash.slice(0, 16)}</dd></div>
+                </dl>
+
+                {selected.reviewNote && (
+                  <p className="text-sm bg-slate-50 border border-slate-200 rounded-lg p-3">
+                    <span className="font-medium">{text.reviewNote}:</span> {selected.reviewNote}
+                  </p>
+                )}
+
+                {canEdit && field && (
+                  <div className="space-y-3">
+                    <label className="flex flex-col gap-1 text-sm">
+                      <span className="text-slate-500">{text.field}</span>
+                      <select value={field.key} onChange={(e) => switchField(e.target.value)} className={fieldClass}>
+                        {fields.map((f) => <option key={f.key} value={f.key}>{fieldLabel(f)}</option>)}
+                      </select>
+                    </label>
+                    <textarea
+                      value={fieldText}
+                      onChange={(e) => setFieldText(e.target.value)}
+                      rows={field.kind === 'preOp' ? (field.preOpKey === 'bring' ? 6 : 1) : field.kind === 'procedure' ? 8 : 16}
+                      aria-label={fieldLabel(field)}
+                      className={`${fieldClass} w-full font-mono text-xs leading-relaxed`}
+                    />
+                    {((field.section && Array.isArray(working?.procedures[field.id!]?.[field.section])) || field.preOpKey === 'bring') && (
+                      <p className="text-xs text-slate-500">{text.listHint}</p>
+                    )}
+                    {field.kind === 'preOp' && field.preOpKey !== 'bring' && (
+                      <p className="text-xs text-slate-500">{field.optional ? text.hoursHint : text.minutesHint}</p>
+                    )}
+                    <div className="flex flex-wrap items-center gap-3">
+                      <button
+                        onClick={saveDraft}
+                        disabled={busy || !unsaved}
+                        className="px-4 py-2 rounded-lg border border-slate-200 text-slate-700 text-sm font-medium hover:bg-slate-50 disabled:opacity-40 transition-colors"
+                      >
+                        {text.save}
+                      </button>
+                      <button
+                        onClick={submitDraft}
+                        disabled={busy || unsaved}
+                        className="px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium disabled:opacity-40 transition-colors"
+                      >
+                        {text.submit}
+                      </button>
+                      {unsaved && <span className="text-xs text-amber-700">{text.unsavedChanges}</span>}
+                    </div>
+                  </div>
+                )}
+
+                {selected.status === 'in_review' && (
+                  isReviewer && selected.author !== user.name ? (
+                    <div className="space-y-3 border border-amber-200 bg-amber-50 rounded-lg p-4">
+                      <label className="flex flex-col gap-1 text-sm">
+                        <span className="text-slate-700 font-medium">{text.reviewNote}</span>
+                        <textarea value={note} onChange={(e) => setNote(e.target.value)} rows={3} className={fieldClass} />
+                        <span className="text-xs text-slate-500">{text.reviewNoteHint}</span>
+                      </label>
+                      <div className="flex flex-wrap gap-3">
+                        <button
+                          onClick={() => review('approve')}
+                          disabled={busy}
+                          className="flex items-center gap-2 px-4 py-2 rounded-lg bg-green-600 hover:bg-green-700 text-white text-sm font-medium disabled:opacity-40 transition-colors"
+                        >
+                          <CheckCircle2 size={16} /> {text.approve}
+                        </button>
+                        <button
+                          onClick={() => review('reject')}
+                          disabled={busy || !note.trim()}
+                          className="flex items-center gap-2 px-4 py-2 rounded-lg border border-red-200 text-red-700 text-sm font-medium hover:bg-red-50 disabled:opacity-40 transition-colors"
+                        >
+                          <XCircle size={16} /> {text.reject}
+                        </button>
+                      </div>
+                    </div>
+                  ) : (
+                    <p className="text-sm text-amber-800">{selected.author === user.name ? text.ownVersion : text.awaitingReview}</p>
+                  )
+                )}
+
+                <div>
+                  <h3 className="text-sm font-semibold text-slate-700 mb-2">
+                    {text.changesSince(selected.basedOn ? text.version(selected.basedOn) : text.builtIn)}
+                  </h3>
+                  <ContentDiff
+                    before={baseline?.content ?? BUILT_IN_CONTENT}
+                    after={(canEdit ? edited : null) ?? selected.content}
+                    fieldLabel={fieldLabel}
+                  />
+                </div>
+
+                <div>
+                  <h3 className="text-sm font-semibold text-slate-700 mb-2">{text.history}</h3>
+                  <ol className="space-y-1 text-sm">
+                    {selected.events.map((event, i) => (
+                      <li key={i} className="text-slate-600">
+                        <span className="text-slate-400">{formatDate(event.at)}</span> · {text.events[event.action]} · {event.by}
+                        {event.note && <span className="italic"> · "{event.note}"</span>}
+                      </li>
+                    ))}
+                  </ol>
+                </div>
+              </section>
+            )}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default ContentConsole;
@@ -0,0 +1,82 @@
+import React from 'react';
+import { ClinicalContent } from '../types';
+import { useLocale } from '../locales/LocaleContext';
+import { ContentField, contentFields } from '../utils/clinicalContent';
+import { DiffLine, diffLines } from '../utils/textDiff';
+
+// Unchanged runs longer than this are folded, keeping one line of context each side
+const MAX_UNCHANGED_RUN = 3;
+
+type DiffRow = DiffLine | { kind: 'folded'; count: number };
+
+function foldUnchanged(lines: DiffLine[]): DiffRow[] {
+  const rows: DiffRow[] = [];
+  let i = 0;
+  while (i < lines.length) {
+    if (lines[i].kind !== 'same') {
+      rows.push(lines[i++]);
+      continue;
+    }
+    let end = i;
+    while (end < lines.length && lines[end].kind === 'same') end++;
+    const run = lines.slice(i, end);
+    if (run.length > MAX_UNCHANGED_RUN) {
+      if (i > 0) rows.push(run[0]);
+      rows.push({ kind: 'folded', count: run.length - (i > 0 ? 1 : 0) - (end < lines.length ? 1 : 0) });
+      if (end < lines.length) rows.push(run[run.length - 1]);
+    } else {
+      rows.push(...run);
+    }
+    i = end;
+  }
+  return rows;
+}
+
+const ROW_STYLES: Record<DiffLine['kind'], string> = {
+  same: 'text-slate-600',
+  added: 'bg-green-50 text-green-800',
+  removed: 'bg-red-50 text-red-800 line-through decoration-red-300',
+};
+
+const ROW_MARKS: Record<DiffLine['kind'], string> = { same: ' ', added: '+', removed: '-' };
+
+interface ContentDiffProps {
+  before: ClinicalContent;
+  after: ClinicalContent;
+  fieldLabel: (field: ContentField) => string;
+}
+
+const ContentDiff: React.FC<ContentDiffProps> = ({ before, after, fieldLabel }) => {
+  const { strings } = useLocale();
+  const text = strings.admin;
+  const changed = contentFields(after).filter(field => field.get(before) !== field.get(after));
+
+  if (changed.length === 0) {
+    return <p className="text-sm text-slate-500">{text.noChanges}</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {changed.map((field) => (
+        <section key={field.key} className="border border-slate-200 rounded-lg overflow-hidden">
+          <h4 className="bg-slate-50 px-3 py-2 text-xs font-semibold text-slate-700 border-b border-slate-200">{fieldLabel(field)}</h4>
+          <div className="font-mono text-xs">
+            {foldUnchanged(diffLines(field.get(before), field.get(after))).map((row, i) => (
+              row.kind === 'folded' ? (
+                <p key={i} className="px-3 py-1 text-slate-400 italic">{text.unchangedLines(row.count)}</p>
+              ) : (
+                <p key={i} className={`px-3 py-0.5 whitespace-pre-wrap ${ROW_STYLES[row.kind]}`}>
+                  <span aria-hidden="true" className="select-none mr-2">{ROW_MARKS[row.kind]}</span>
+                  <span className="sr-only">{text.diffKinds[row.kind]}: </span>
+                  {row.text}
+                </p>
+              )
+            ))}
+          </div>
+        </section>
+      ))}
+    </div>
+  );
+};
+
+export default ContentDiff;
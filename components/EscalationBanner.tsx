@@ -0,0 +1,65 @@
+import React from 'react';
+import { AlertTriangle, Phone } from 'lucide-react';
+import { EscalationEvent } from '../types';
+import { useLocale } from '../locales/LocaleContext';
+
+interface EscalationBannerProps {
+  escalation: EscalationEvent;
+  onAcknowledge: () => void;
+}
+
+const EscalationBanner: React.FC<EscalationBannerProps> = ({ escalation, onAcknowledge }) => {
+  const { strings, language } = useLocale();
+  const text = strings.escalation;
+  const isCritical = escalation.severity === 'critical';
+
+  return (
+    <div
+      role="alertdialog"
+      aria-modal="true"
+      aria-labelledby="escalation-title"
+      className={`fixed inset-0 z-50 flex flex-col items-center justify-center p-6 text-white ${isCritical ? 'bg-red-700' : 'bg-orange-600'}`}
+    >
+      <div className="w-full max-w-md space-y-6 text-center">
+        <AlertTriangle size={64} className="mx-auto animate-pulse" />
+
+        <div className="space-y-2">
+          <p className="text-xs uppercase tracking-widest font-semibold opacity-80">
+            {text.severity[escalation.severity]} · {text.symptoms[escalation.symptomCategory]}
+          </p>
+          <h2 id="escalation-title" className="text-3xl font-bold">{text.title}</h2>
+        </div>
+
+        <div className="bg-white/10 rounded-2xl p-5 text-left space-y-3">
+          <p className="font-semibold">{text.whileYouWait}</p>
+          <ul className="list-disc list-inside space-y-1 text-sm">
+            {text.steps.map((step) => <li key={step}>{step}</li>)}
+          </ul>
+          <a
+            href={`tel:${strings.emergencyNumber}`}
+            className="flex items-center justify-center gap-2 w-full mt-2 py-3 bg-white text-red-700 rounded-lg font-bold"
+          >
+            <Phone size={18} /> {text.callEmergency(strings.emergencyNumber)}
+          </a>
+        </div>
+
+        {escalation.patientQuote && (
+          <blockquote className="text-sm italic opacity-90">"{escalation.patientQuote}"</blockquote>
+        )}
+
+        <p className="text-xs opacity-70">
+          {text.loggedAt(escalation.timestamp.toLocaleTimeString(language.code), escalation.id)}
+        </p>
+
+        <button
+          onClick={onAcknowledge}
+          className="w-full py-3 rounded-lg border-2 border-white/70 hover:bg-white/10 font-medium transition-colors"
+        >
+          {text.acknowledge}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default EscalationBanner;
@@ -0,0 +1,192 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronUp, UserRound } from 'lucide-react';
+import { AgeGroup, PatientProfile, Procedure } from '../types';
+import { LANGUAGES } from '../locales';
+import { useLocale } from '../locales/LocaleContext';
+import { AGE_GROUPS, daysSinceSurgery } from '../utils/patientProfile';
+
+// <input type="date"> expects the local calendar date
+const toInputValue = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const fromInputValue = (value: string): Date => {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+interface PatientProfilePanelProps {
+  profile: PatientProfile | null;
+  procedures: Procedure[];
+  defaultProcedureId?: string;
+  onSave: (profile: PatientProfile) => void;
+  onForget: () => void;
+}
+
+const PatientProfilePanel: React.FC<PatientProfilePanelProps> = ({ profile, procedures, defaultProcedureId, onSave, onForget }) => {
+  const { strings, language } = useLocale();
+  const text = strings.profile;
+  const [open, setOpen] = useState(false);
+  const [confirmingForget, setConfirmingForget] = useState(false);
+
+  const [procedureId, setProcedureId] = useState(profile?.procedureId ?? defaultProcedureId ?? '');
+  const [dateInput, setDateInput] = useState(profile?.surgeryDate ? toInputValue(profile.surgeryDate) : '');
+  const [ageGroup, setAgeGroup] = useState<AgeGroup | ''>(profile?.ageGroup ?? '');
+  const [hasCaregiver, setHasCaregiver] = useState<boolean | null>(profile?.hasCaregiver ?? null);
+  const [preferredLanguage, setPreferredLanguage] = useState(profile?.preferredLanguage ?? language.code);
+
+  const days = dateInput ? daysSinceSurgery(fromInputValue(dateInput)) : null;
+
+  // Patients who only know "it was five days ago" can enter that instead of a date
+  const setDaysSince = (value: string) => {
+    if (value === '') {
+      setDateInput('');
+      return;
+    }
+    const date = new Date();
+    date.setDate(date.getDate() - Math.max(0, Math.round(Number(value))));
+    setDateInput(toInputValue(date));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!procedureId) return;
+    onSave({
+      procedureId,
+      surgeryDate: dateInput ? fromInputValue(dateInput) : null,
+      ageGroup: ageGroup || null,
+      hasCaregiver,
+      preferredLanguage,
+      updatedAt: new Date(),
+    });
+    setOpen(false);
+  };
+
+  const forget = () => {
+    onForget();
+    setConfirmingForget(false);
+    setOpen(false);
+    setProcedureId('');
+    setDateInput('');
+    setAgeGroup('');
+    setHasCaregiver(null);
+  };
+
+  const fieldClass = 'rounded-lg border border-slate-200 px-3 py-2 text-sm bg-white';
+
+  return (
+    <section className="w-full max-w-4xl bg-white rounded-2xl border border-slate-200 shadow-sm mb-8">
+      <button
+        onClick={() => setOpen(prev => !prev)}
+        aria-expanded={open}
+        className="w-full flex items-center justify-between gap-3 p-5 text-left"
+      >
+        <span className="flex items-center gap-2 text-slate-900">
+          <UserRound size={18} />
+          <span className="font-semibold">{text.title}</span>
+          <span className="text-xs text-slate-500 font-normal">{profile ? text.saved : text.optional}</span>
+        </span>
+        {open ? <ChevronUp size={18} className="text-slate-400" /> : <ChevronDown size={18} className="text-slate-400" />}
+      </button>
+
+      {open && (
+        <form onSubmit={handleSubmit} className="px-5 pb-5 space-y-4">
+          <p className="text-sm text-slate-500">{text.intro}</p>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <label className="flex flex-col gap-1 text-sm">
+              <span className="text-slate-500">{text.procedure}</span>
+              <select value={procedureId} onChange={(e) => setProcedureId(e.target.value)} required className={fieldClass}>
+                <option value="" disabled>{text.chooseProcedure}</option>
+                {procedures.map((p) => <option key={p.id} value={p.id}>{(p.translations[language.code] ?? p).name}</option>)}
+              </select>
+            </label>
+
+            <label className="flex flex-col gap-1 text-sm">
+              <span className="text-slate-500">{text.language}</span>
+              <select value={preferredLanguage} onChange={(e) => setPreferredLanguage(e.target.value)} className={fieldClass}>
+                {LANGUAGES.map((option) => <option key={option.code} value={option.code}>{option.nativeName}</option>)}
+              </select>
+            </label>
+
+            <label className="flex flex-col gap-1 text-sm">
+              <span className="text-slate-500">{text.surgeryDate}</span>
+              <input type="date" value={dateInput} onChange={(e) => setDateInput(e.target.value)} className={fieldClass} />
+            </label>
+
+            <label className="flex flex-col gap-1 text-sm">
+              <span className="text-slate-500">{text.daysSince}</span>
+              <input
+                type="number"
+                min={0}
+                value={days !== null && days >= 0 ? days : ''}
+                placeholder={days !== null && days < 0 ? text.inDays(-days) : ''}
+                onChange={(e) => setDaysSince(e.target.value)}
+                className={fieldClass}
+              />
+            </label>
+
+            <label className="flex flex-col gap-1 text-sm">
+              <span className="text-slate-500">{text.ageGroup}</span>
+              <select value={ageGroup} onChange={(e) => setAgeGroup(e.target.value as AgeGroup | '')} className={fieldClass}>
+                <option value="">{text.preferNotToSay}</option>
+                {AGE_GROUPS.map((group) => <option key={group} value={group}>{text.ageGroups[group]}</option>)}
+              </select>
+            </label>
+
+            <fieldset className="flex flex-col gap-1 text-sm">
+              <legend className="text-slate-500 mb-1">{text.caregiver}</legend>
+              <div className="flex gap-4 py-2">
+                {([true, false] as const).map((value) => (
+                  <label key={String(value)} className="flex items-center gap-2">
+                    <input
+                      type="radio"
+                      name="caregiver"
+                      checked={hasCaregiver === value}
+                      onChange={() => setHasCaregiver(value)}
+                      className="accent-blue-600"
+                    />
+                    {value ? text.yes : text.no}
+                  </label>
+                ))}
+              </div>
+            </fieldset>
+          </div>
+
+          <p className="text-xs text-slate-500 italic">{text.privacy}</p>
+
+          <div className="flex flex-wrap items-center gap-3">
+            <button
+              type="submit"
+              disabled={!procedureId}
+              className="px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium disabled:opacity-40 transition-colors"
+            >
+              {text.save}
+            </button>
+
+            {confirmingForget ? (
+              <span role="alert" className="flex flex-wrap items-center gap-2 text-sm text-red-700">
+                {text.forgetConfirm}
+                <button type="button" onClick={forget} className="px-3 py-1.5 rounded-lg bg-red-600 hover:bg-red-700 text-white font-medium">
+                  {text.forgetYes}
+                </button>
+                <button type="button" onClick={() => setConfirmingForget(false)} className="px-3 py-1.5 rounded-lg border border-slate-200 text-slate-700">
+                  {text.cancel}
+                </button>
+              </span>
+            ) : (
+              <button
+                type="button"
+                onClick={() => setConfirmingForget(true)}
+                className="px-4 py-2 rounded-lg border border-red-200 text-red-700 text-sm font-medium hover:bg-red-50 transition-colors"
+              >
+                {text.forget}
+              </button>
+            )}
+          </div>
+        </form>
+      )}
+    </section>
+  );
+};
+
+export default PatientProfilePanel;
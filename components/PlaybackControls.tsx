@@ -0,0 +1,63 @@
+import React from 'react';
+import { Gauge, Volume2 } from 'lucide-react';
+import { useLocale } from '../locales/LocaleContext';
+import { MAX_VOLUME, PLAYBACK_RATES } from '../utils/audioSettings';
+
+interface PlaybackControlsProps {
+  playbackRate: number;
+  volume: number;
+  onChange: (patch: { playbackRate?: number; volume?: number }) => void;
+  dark?: boolean; // Call screen styling
+}
+
+const PlaybackControls: React.FC<PlaybackControlsProps> = ({ playbackRate, volume, onChange, dark = false }) => {
+  const { strings, language } = useLocale();
+  const text = strings.audio;
+
+  return (
+    <div className={`flex flex-wrap items-center gap-x-6 gap-y-3 text-xs ${dark ? 'text-slate-400' : 'text-slate-500'}`}>
+      <div role="radiogroup" aria-label={text.speed} className="flex items-center gap-2">
+        <Gauge size={14} />
+        <span>{text.speed}</span>
+        <div className={`flex rounded-lg p-0.5 ${dark ? 'bg-slate-800/50 border border-slate-700/50' : 'bg-slate-100'}`}>
+          {PLAYBACK_RATES.map((rate) => {
+            const selected = playbackRate === rate;
+            return (
+              <button
+                key={rate}
+                type="button"
+                role="radio"
+                aria-checked={selected}
+                onClick={() => onChange({ playbackRate: rate })}
+                className={`px-2 py-1 rounded-md transition-colors ${
+                  selected
+                    ? (dark ? 'bg-slate-600 text-white font-medium' : 'bg-white text-slate-900 font-medium shadow-sm')
+                    : (dark ? 'hover:text-slate-200' : 'hover:text-slate-900')
+                }`}
+              >
+                {rate.toLocaleString(language.code)}×
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      <label className="flex items-center gap-2 flex-1 min-w-[12rem]">
+        <Volume2 size={14} />
+        <span>{text.volume}</span>
+        <input
+          type="range"
+          min={0}
+          max={MAX_VOLUME}
+          step={0.1}
+          value={volume}
+          onChange={(e) => onChange({ volume: Number(e.target.value) })}
+          className="flex-1 accent-blue-600"
+        />
+        <span className="w-10 text-right tabular-nums">{Math.round(volume * 100)}%</span>
+      </label>
+    </div>
+  );
+};
+
+export default PlaybackControls;
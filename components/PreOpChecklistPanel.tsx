@@ -0,0 +1,225 @@
+import React, { useEffect, useState } from 'react';
+import { CalendarClock, CheckSquare, Plus, Square, X } from 'lucide-react';
+import { ChecklistCategory, PreOpChecklist } from '../types';
+import { useLocale } from '../locales/LocaleContext';
+
+const CATEGORY_ORDER: ChecklistCategory[] = ['medication', 'bring', 'logistics', 'other'];
+
+// <input type="datetime-local"> works in local time without a zone suffix
+const toInputValue = (date: Date): string => {
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60000);
+  return local.toISOString().slice(0, 16);
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+interface PreOpChecklistPanelProps {
+  checklist: PreOpChecklist | null;
+  onSchedule: (surgeryAt: Date) => void;
+  onToggle: (id: string, done: boolean) => void;
+  onAdd: (label: string) => void;
+  onRemove: (id: string) => void;
+  onReset: () => void;
+  dark?: boolean; // Styling for the call screen, which also hides editing controls
+}
+
+const PreOpChecklistPanel: React.FC<PreOpChecklistPanelProps> = ({
+  checklist,
+  onSchedule,
+  onToggle,
+  onAdd,
+  onRemove,
+  onReset,
+  dark = false,
+}) => {
+  const { strings, language } = useLocale();
+  const text = strings.checklist;
+  const [now, setNow] = useState(() => Date.now());
+  const [surgeryInput, setSurgeryInput] = useState(() => (checklist ? toInputValue(checklist.surgeryAt) : ''));
+  const [draft, setDraft] = useState('');
+
+  // Tick once a second for the countdowns
+  useEffect(() => {
+    if (!checklist) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [checklist]);
+
+  // Follow the saved time when the checklist is loaded, rescheduled or cleared
+  const surgeryTime = checklist?.surgeryAt.getTime();
+  useEffect(() => {
+    setSurgeryInput(surgeryTime === undefined ? '' : toInputValue(new Date(surgeryTime)));
+  }, [surgeryTime]);
+
+  const formatTime = (date: Date) =>
+    date.toLocaleString(language.code, { weekday: 'short', day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+  const formatRemaining = (target: Date): string => {
+    const ms = target.getTime() - now;
+    if (ms <= 0) return text.passed;
+    const totalSeconds = Math.floor(ms / 1000);
+    const days = Math.floor(totalSeconds / 86400);
+    const clock = `${pad(Math.floor((totalSeconds % 86400) / 3600))}:${pad(Math.floor((totalSeconds % 3600) / 60))}:${pad(totalSeconds % 60)}`;
+    return text.remaining(days > 0 ? `${text.days(days)} ${clock}` : clock);
+  };
+
+  const handleSchedule = (e: React.FormEvent) => {
+    e.preventDefault();
+    const surgeryAt = new Date(surgeryInput);
+    if (!surgeryInput || Number.isNaN(surgeryAt.getTime())) return;
+    onSchedule(surgeryAt);
+  };
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    const label = draft.trim();
+    if (!label) return;
+    onAdd(label);
+    setDraft('');
+  };
+
+  const panelClass = dark
+    ? 'bg-slate-800/50 border-slate-700/50 text-slate-100 backdrop-blur-sm'
+    : 'bg-white border-slate-200 text-slate-900 shadow-sm';
+  const mutedClass = dark ? 'text-slate-400' : 'text-slate-500';
+  const inputClass = dark
+    ? 'bg-slate-900/60 border-slate-700 text-white placeholder-slate-500'
+    : 'bg-white border-slate-200 text-slate-900 placeholder-slate-400';
+
+  const timings: { label: string; at: Date | null; urgent: boolean }[] = checklist ? [
+    { label: text.solidFood, at: checklist.solidFoodCutoffAt, urgent: true },
+    { label: text.clearFluids, at: checklist.clearFluidsCutoffAt, urgent: true },
+    { label: text.arrival, at: checklist.arrivalAt, urgent: false },
+  ] : [];
+
+  const doneCount = checklist?.items.filter(i => i.done).length ?? 0;
+
+  return (
+    <section className={`w-full rounded-2xl border p-5 space-y-4 ${panelClass}`}>
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <CalendarClock size={18} />
+          <h3 className="font-semibold">{text.title}</h3>
+        </div>
+        {checklist && (
+          <span className={`text-xs ${mutedClass}`}>{text.progress(doneCount, checklist.items.length)}</span>
+        )}
+      </div>
+
+      {!dark && (
+        <form onSubmit={handleSchedule} className="flex flex-wrap items-end gap-3">
+          <label className="flex flex-col gap-1 text-sm">
+            <span className={mutedClass}>{text.surgeryLabel}</span>
+            <input
+              type="datetime-local"
+              value={surgeryInput}
+              onChange={(e) => setSurgeryInput(e.target.value)}
+              className={`rounded-lg border px-3 py-2 text-sm ${inputClass}`}
+            />
+          </label>
+          <button
+            type="submit"
+            disabled={!surgeryInput}
+            className="px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium disabled:opacity-40 transition-colors"
+          >
+            {checklist ? text.reschedule : text.create}
+          </button>
+          {checklist && (
+            <button type="button" onClick={onReset} className={`text-sm underline ${mutedClass}`}>
+              {text.reset}
+            </button>
+          )}
+        </form>
+      )}
+
+      {!checklist ? (
+        <p className={`text-sm ${mutedClass}`}>{text.hint}</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+            {timings.map(({ label, at, urgent }) => (
+              <div key={label} className={`rounded-xl p-3 ${dark ? 'bg-slate-900/50' : 'bg-slate-50'}`}>
+                <p className={`text-xs ${mutedClass}`}>{label}</p>
+                {at ? (
+                  <>
+                    <p className="text-sm font-medium">{formatTime(at)}</p>
+                    <p
+                      className={`text-sm font-mono ${urgent && at.getTime() > now ? 'text-orange-500' : mutedClass}`}
+                      aria-live="off"
+                    >
+                      {formatRemaining(at)}
+                    </p>
+                  </>
+                ) : (
+                  <p className="text-sm">{text.noCutoff}</p>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {CATEGORY_ORDER.map((category) => {
+            const items = checklist.items.filter(i => i.category === category);
+            if (items.length === 0) return null;
+            return (
+              <div key={category}>
+                <h4 className={`text-xs uppercase tracking-wider mb-2 ${mutedClass}`}>{text.categories[category]}</h4>
+                <ul className="space-y-1">
+                  {items.map((item) => (
+                    <li key={item.id} className="flex items-start gap-2 text-sm">
+                      <button
+                        onClick={() => onToggle(item.id, !item.done)}
+                        role="checkbox"
+                        aria-checked={item.done}
+                        aria-label={item.label}
+                        className="mt-0.5 shrink-0 text-blue-500"
+                      >
+                        {item.done ? <CheckSquare size={18} /> : <Square size={18} />}
+                      </button>
+                      <div className="flex-1">
+                        <span className={item.done ? `line-through ${mutedClass}` : ''}>{item.label}</span>
+                        {(item.dueAt || item.source === 'agent') && (
+                          <p className={`text-xs ${mutedClass}`}>
+                            {[item.dueAt && text.due(formatTime(item.dueAt)), item.source === 'agent' && text.addedByAgent]
+                              .filter(Boolean)
+                              .join(' · ')}
+                          </p>
+                        )}
+                      </div>
+                      {!dark && item.source !== 'procedure' && (
+                        <button onClick={() => onRemove(item.id)} aria-label={text.remove} className={`${mutedClass} hover:text-red-600`}>
+                          <X size={16} />
+                        </button>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            );
+          })}
+
+          {!dark && (
+            <form onSubmit={handleAdd} className="flex items-center gap-2">
+              <input
+                type="text"
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                placeholder={text.addPlaceholder}
+                className={`flex-1 rounded-lg border px-3 py-2 text-sm ${inputClass}`}
+              />
+              <button
+                type="submit"
+                disabled={!draft.trim()}
+                aria-label={text.add}
+                className="p-2 rounded-lg bg-slate-900 text-white disabled:opacity-40"
+              >
+                <Plus size={18} />
+              </button>
+            </form>
+          )}
+        </>
+      )}
+    </section>
+  );
+};
+
+export default PreOpChecklistPanel;
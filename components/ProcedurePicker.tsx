@@ -0,0 +1,50 @@
+import React from 'react';
+import { ClipboardList } from 'lucide-react';
+import { Procedure } from '../types';
+import { DEFAULT_LANGUAGE } from '../locales';
+import { useLocale } from '../locales/LocaleContext';
+
+interface ProcedurePickerProps {
+  procedures: Procedure[];
+  selectedId: string | null;
+  onSelect: (procedure: Procedure) => void;
+}
+
+const ProcedurePicker: React.FC<ProcedurePickerProps> = ({ procedures, selectedId, onSelect }) => {
+  const { strings, language } = useLocale();
+
+  return (
+    <div className="w-full max-w-4xl mb-10">
+      <div className="flex items-center gap-2 mb-4 text-slate-700">
+        <ClipboardList size={18} />
+        <h3 className="font-semibold">{strings.selection.procedureStep}</h3>
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        {procedures.map((procedure) => {
+          const isSelected = procedure.id === selectedId;
+          const label = procedure.translations[language.code] ?? procedure;
+          return (
+            <button
+              key={procedure.id}
+              onClick={() => onSelect(procedure)}
+              aria-pressed={isSelected}
+              className={`text-left p-4 rounded-xl border transition-all duration-200 ${
+                isSelected
+                  ? 'bg-blue-50 border-blue-500 ring-2 ring-blue-200'
+                  : 'bg-white border-slate-200 hover:border-blue-300'
+              }`}
+            >
+              <p className="font-semibold text-slate-900">{label.name}</p>
+              {/* The duration is approved English content, so other languages show the specialty alone */}
+              <p className="text-xs text-slate-500">
+                {label.specialty}{language.code === DEFAULT_LANGUAGE && ` · ${procedure.sections.duration.split('.')[0]}`}
+              </p>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default ProcedurePicker;
@@ -0,0 +1,116 @@
+import React, { useEffect, useState } from 'react';
+import { HeartPulse } from 'lucide-react';
+import { RecoveryLog, RecoveryThresholds } from '../types';
+import { CHECKIN_FLAG_COLORS } from '../constants';
+import { useLocale } from '../locales/LocaleContext';
+import { CHECKIN_QUESTIONS, formatCheckInAnswer, postOpDay } from '../utils/recoveryCheckIn';
+import RecoveryTrendChart from './RecoveryTrendChart';
+
+// <input type="date"> expects the local calendar date
+const toInputValue = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+interface RecoveryPanelProps {
+  log: RecoveryLog | null;
+  thresholds: RecoveryThresholds;
+  defaultSurgeryDate?: Date; // Taken from the pre-op checklist when there is one
+  onSetSurgeryDate: (date: Date) => void;
+}
+
+const RecoveryPanel: React.FC<RecoveryPanelProps> = ({ log, thresholds, defaultSurgeryDate, onSetSurgeryDate }) => {
+  const { strings, language } = useLocale();
+  const text = strings.recovery;
+  const initialDate = log?.surgeryDate ?? defaultSurgeryDate;
+  const [dateInput, setDateInput] = useState(initialDate ? toInputValue(initialDate) : '');
+
+  const savedTime = log?.surgeryDate.getTime();
+  useEffect(() => {
+    if (savedTime !== undefined) setDateInput(toInputValue(new Date(savedTime)));
+  }, [savedTime]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!dateInput) return;
+    const [year, month, day] = dateInput.split('-').map(Number);
+    onSetSurgeryDate(new Date(year, month - 1, day));
+  };
+
+  const records = log?.records ?? [];
+
+  return (
+    <section className="w-full bg-white rounded-2xl border border-slate-200 shadow-sm p-5 space-y-4">
+      <div className="flex items-center gap-2 text-slate-900">
+        <HeartPulse size={18} />
+        <h3 className="font-semibold">{text.title}</h3>
+      </div>
+
+      <form onSubmit={handleSubmit} className="flex flex-wrap items-end gap-3">
+        <label className="flex flex-col gap-1 text-sm">
+          <span className="text-slate-500">{text.surgeryDateLabel}</span>
+          <input
+            type="date"
+            value={dateInput}
+            max={toInputValue(new Date())}
+            onChange={(e) => setDateInput(e.target.value)}
+            className="rounded-lg border border-slate-200 px-3 py-2 text-sm"
+          />
+        </label>
+        <button
+          type="submit"
+          disabled={!dateInput}
+          className="px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium disabled:opacity-40 transition-colors"
+        >
+          {text.save}
+        </button>
+        {log && <p className="text-sm text-slate-600">{text.today(postOpDay(log.surgeryDate))}</p>}
+      </form>
+
+      {!log ? (
+        <p className="text-sm text-slate-500">{text.hint}</p>
+      ) : records.length === 0 ? (
+        <p className="text-sm text-slate-500">{text.noRecords}</p>
+      ) : (
+        <>
+          <RecoveryTrendChart records={records} thresholds={thresholds} />
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs text-left">
+              <thead>
+                <tr className="text-slate-500">
+                  <th className="py-1 pr-3 font-medium"></th>
+                  {records.map((r) => (
+                    <th key={r.id} className="py-1 px-2 font-medium whitespace-nowrap" title={r.recordedAt.toLocaleDateString(language.code)}>
+                      {text.day(r.postOpDay)}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {CHECKIN_QUESTIONS.map((question) => (
+                  <tr key={question} className="border-t border-slate-100">
+                    <th className="py-1 pr-3 font-medium text-slate-700">{text.questions[question]}</th>
+                    {records.map((r) => {
+                      const flag = r.flags[question];
+                      return (
+                        <td key={r.id} className="py-1 px-2 whitespace-nowrap">
+                          {flag && (
+                            <span className="inline-flex items-center gap-1" title={text.flags[flag]}>
+                              <span className="w-2 h-2 rounded-full" style={{ backgroundColor: CHECKIN_FLAG_COLORS[flag] }}></span>
+                              {formatCheckInAnswer(question, r.answers, strings)}
+                            </span>
+                          )}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </section>
+  );
+};
+
+export default RecoveryPanel;
@@ -0,0 +1,67 @@
+import React from 'react';
+import { CheckInRecord, RecoveryThresholds } from '../types';
+import { CHECKIN_FLAG_COLORS } from '../constants';
+import { useLocale } from '../locales/LocaleContext';
+import { worstFlag } from '../utils/recoveryCheckIn';
+
+const WIDTH = 480;
+const HEIGHT = 160;
+const PAD_X = 28;
+const PAD_Y = 16;
+
+interface RecoveryTrendChartProps {
+  records: CheckInRecord[];
+  thresholds: RecoveryThresholds;
+}
+
+/**
+ * Pain score by post-op day, over the procedure's amber and red bands.
+ * Each point is colored by the worst flag of that day's check-in.
+ */
+const RecoveryTrendChart: React.FC<RecoveryTrendChartProps> = ({ records, thresholds }) => {
+  const { strings } = useLocale();
+  const scored = records.filter(r => r.answers.painScore !== undefined);
+  const lastDay = Math.max(7, ...records.map(r => r.postOpDay));
+
+  const x = (day: number) => PAD_X + (day / lastDay) * (WIDTH - PAD_X * 2);
+  const y = (score: number) => PAD_Y + (1 - score / 10) * (HEIGHT - PAD_Y * 2);
+
+  const path = scored
+    .map((r, i) => `${i === 0 ? 'M' : 'L'}${x(r.postOpDay).toFixed(1)},${y(r.answers.painScore!).toFixed(1)}`)
+    .join(' ');
+
+  return (
+    <figure>
+      <figcaption className="text-xs text-slate-500 mb-1">{strings.recovery.painTrend}</figcaption>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-40" role="img" aria-label={strings.recovery.painTrend}>
+        <rect x={PAD_X} y={y(10)} width={WIDTH - PAD_X * 2} height={y(thresholds.painRed) - y(10)} fill={CHECKIN_FLAG_COLORS.red} opacity={0.08} />
+        <rect x={PAD_X} y={y(thresholds.painRed)} width={WIDTH - PAD_X * 2} height={y(thresholds.painAmber) - y(thresholds.painRed)} fill={CHECKIN_FLAG_COLORS.amber} opacity={0.1} />
+
+        {[0, 5, 10].map((score) => (
+          <g key={score}>
+            <line x1={PAD_X} x2={WIDTH - PAD_X} y1={y(score)} y2={y(score)} stroke="#e2e8f0" />
+            <text x={PAD_X - 6} y={y(score) + 3} fontSize="10" textAnchor="end" fill="#94a3b8">{score}</text>
+          </g>
+        ))}
+        {Array.from({ length: lastDay + 1 }, (_, day) => day).filter(day => day % Math.ceil(lastDay / 7) === 0).map((day) => (
+          <text key={day} x={x(day)} y={HEIGHT - 2} fontSize="10" textAnchor="middle" fill="#94a3b8">{day}</text>
+        ))}
+
+        <path d={path} fill="none" stroke="#334155" strokeWidth={2} />
+        {scored.map((r) => (
+          <circle
+            key={r.id}
+            cx={x(r.postOpDay)}
+            cy={y(r.answers.painScore!)}
+            r={5}
+            fill={CHECKIN_FLAG_COLORS[worstFlag(Object.values(r.flags))]}
+          >
+            <title>{`${strings.recovery.day(r.postOpDay)}: ${r.answers.painScore}/10`}</title>
+          </circle>
+        ))}
+      </svg>
+    </figure>
+  );
+};
+
+export default RecoveryTrendChart;
@@ -0,0 +1,140 @@
+import React from 'react';
+import { AlertTriangle, AudioLines, CheckCircle2, FileCode2, FileText, Printer } from 'lucide-react';
+import { SessionSummary, SummaryItem } from '../types';
+import { useLocale } from '../locales/LocaleContext';
+import { formatContentStamp } from '../utils/clinicalContent';
+import { summaryDurationMinutes } from '../utils/sessionSummary';
+import {
+  downloadFile,
+  printHtml,
+  summaryFileName,
+  summaryToFhirBundle,
+  summaryToHtml,
+  summaryToMarkdown,
+} from '../utils/summaryExport';
+import TeachBackPanel from './TeachBackPanel';
+
+interface SessionSummaryPanelProps {
+  summary: SessionSummary;
+  onDownloadRecording?: () => void; // Only passed when the patient agreed to be recorded
+  onClose: () => void;
+}
+
+const SessionSummaryPanel: React.FC<SessionSummaryPanelProps> = ({ summary, onDownloadRecording, onClose }) => {
+  const { strings } = useLocale();
+  const text = strings.summary;
+  const fileName = summaryFileName(summary);
+
+  const renderItems = (items: SummaryItem[]) => (
+    <ul className="space-y-1 text-sm text-slate-700">
+      {items.map(({ text: line, discussed }) => (
+        <li key={line} className="flex items-start gap-2">
+          <span className={`mt-1.5 w-1.5 h-1.5 rounded-full shrink-0 ${discussed ? 'bg-blue-600' : 'bg-slate-300'}`}></span>
+          <span>
+            {line}
+            {discussed && <span className="ml-2 text-xs text-blue-700">{text.discussed}</span>}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+
+  return (
+    <div className="w-full max-w-2xl bg-white rounded-2xl shadow-sm border border-slate-200 p-6 space-y-6">
+      <div className="flex items-start gap-3">
+        <CheckCircle2 className="text-green-600 shrink-0" size={28} />
+        <div>
+          <p className="text-xs uppercase tracking-wider text-slate-500">{text.ended}</p>
+          <h2 className="text-2xl font-bold text-slate-900">{text.title}</h2>
+        </div>
+      </div>
+
+      <dl className="grid grid-cols-2 sm:grid-cols-4 gap-4 text-sm">
+        <div><dt className="text-slate-500">{text.procedure}</dt><dd className="font-medium">{summary.procedureName}</dd></div>
+        <div><dt className="text-slate-500">{text.assistant}</dt><dd className="font-medium">{summary.agentName}</dd></div>
+        <div><dt className="text-slate-500">{text.date}</dt><dd className="font-medium">{summary.startedAt.toLocaleDateString(summary.languageCode)}</dd></div>
+        <div><dt className="text-slate-500">{text.duration}</dt><dd className="font-medium">{text.minutes(summaryDurationMinutes(summary))}</dd></div>
+      </dl>
+      <p className="text-xs text-slate-400 -mt-4">
+        {text.contentVersion}: <span className="font-mono">{formatContentStamp(summary.content, text.builtInContent)}</span>
+      </p>
+
+      <section>
+        <h3 className="font-semibold text-slate-900 mb-2">{text.preOpTitle}</h3>
+        {renderItems(summary.preOpInstructions)}
+      </section>
+
+      <section>
+        <h3 className="font-semibold text-red-700 mb-2">{text.redFlagsTitle}</h3>
+        {renderItems(summary.redFlags)}
+      </section>
+
+      <section>
+        <h3 className="font-semibold text-slate-900 mb-2">{text.escalationsTitle}</h3>
+        {summary.escalations.length === 0 ? (
+          <p className="text-sm text-slate-500">{text.noEscalations}</p>
+        ) : (
+          <ul className="space-y-1 text-sm text-slate-700">
+            {summary.escalations.map((e) => (
+              <li key={e.id} className="flex items-center gap-2">
+                <AlertTriangle size={14} className="text-red-600" />
+                {strings.escalation.severity[e.severity]} · {strings.escalation.symptoms[e.symptomCategory]}
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+
+      <section>
+        {summary.teachBack ? (
+          <TeachBackPanel result={summary.teachBack} dark={false} />
+        ) : (
+          <>
+            <h3 className="font-semibold text-slate-900 mb-2">{strings.teachBack.title}</h3>
+            <p className="text-sm text-slate-500">{strings.teachBack.notTaken}</p>
+          </>
+        )}
+      </section>
+
+      <p className="text-xs text-slate-500 italic">{text.disclaimer}</p>
+
+      <div className="flex flex-wrap gap-3">
+        <button
+          onClick={() => printHtml(summaryToHtml(summary, strings))}
+          className="flex items-center gap-2 px-4 py-2 rounded-lg bg-slate-900 text-white text-sm font-medium hover:bg-slate-700 transition-colors"
+        >
+          <Printer size={16} /> {text.print}
+        </button>
+        <button
+          onClick={() => downloadFile(`${fileName}.md`, summaryToMarkdown(summary, strings), 'text/markdown')}
+          className="flex items-center gap-2 px-4 py-2 rounded-lg border border-slate-200 text-sm font-medium text-slate-700 hover:border-slate-400 transition-colors"
+        >
+          <FileText size={16} /> {text.downloadMarkdown}
+        </button>
+        <button
+          onClick={() => downloadFile(`${fileName}.fhir.json`, JSON.stringify(summaryToFhirBundle(summary, strings), null, 2), 'application/fhir+json')}
+          className="flex items-center gap-2 px-4 py-2 rounded-lg border border-slate-200 text-sm font-medium text-slate-700 hover:border-slate-400 transition-colors"
+        >
+          <FileCode2 size={16} /> {text.downloadFhir}
+        </button>
+        {onDownloadRecording && (
+          <button
+            onClick={onDownloadRecording}
+            className="flex items-center gap-2 px-4 py-2 rounded-lg border border-slate-200 text-sm font-medium text-slate-700 hover:border-slate-400 transition-colors"
+          >
+            <AudioLines size={16} /> {strings.recording.download}
+          </button>
+        )}
+      </div>
+
+      <button
+        onClick={onClose}
+        className="w-full py-3 rounded-lg bg-blue-600 hover:bg-blue-700 text-white font-medium transition-colors"
+      >
+        {text.done}
+      </button>
+    </div>
+  );
+};
+
+export default SessionSummaryPanel;
@@ -0,0 +1,71 @@
+import React from 'react';
+import { GraduationCap } from 'lucide-react';
+import { TeachBackGrade, TeachBackResult } from '../types';
+import { CHECKIN_FLAG_COLORS } from '../constants';
+import { useLocale } from '../locales/LocaleContext';
+import { itemsNeedingReinforcement, teachBackScore } from '../utils/teachBack';
+
+// Grades reuse the check-in traffic lights
+const GRADE_COLORS: Record<TeachBackGrade, string> = {
+  correct: CHECKIN_FLAG_COLORS.green,
+  partial: CHECKIN_FLAG_COLORS.amber,
+  incorrect: CHECKIN_FLAG_COLORS.red,
+};
+
+interface TeachBackPanelProps {
+  result: TeachBackResult;
+  dark?: boolean;
+}
+
+const TeachBackPanel: React.FC<TeachBackPanelProps> = ({ result, dark = true }) => {
+  const { strings } = useLocale();
+  const text = strings.teachBack;
+  const toReinforce = itemsNeedingReinforcement(result);
+  const mutedClass = dark ? 'text-slate-400' : 'text-slate-500';
+
+  return (
+    <div className={dark ? 'bg-slate-800/50 p-6 rounded-2xl border border-slate-700/50 backdrop-blur-sm' : ''}>
+      <div className="flex items-center justify-between mb-3">
+        <h4 className={`flex items-center gap-2 text-sm font-semibold ${dark ? 'text-slate-300' : 'text-slate-900'}`}>
+          <GraduationCap size={16} /> {text.title}
+        </h4>
+        {result.items.length > 0 && (
+          <span className={`text-sm font-semibold ${dark ? 'text-white' : 'text-slate-900'}`}>{text.score(teachBackScore(result))}</span>
+        )}
+      </div>
+
+      {result.items.length === 0 ? (
+        <p className={`text-sm ${mutedClass}`}>{text.intro} {text.waiting}</p>
+      ) : (
+        <ul className="space-y-2 text-sm">
+          {result.items.map((item) => (
+            <li key={item.id} className="flex items-start gap-2">
+              <span className="mt-1.5 w-2.5 h-2.5 rounded-full shrink-0" style={{ backgroundColor: GRADE_COLORS[item.grade] }}></span>
+              <div>
+                <p className={dark ? 'text-slate-100' : 'text-slate-800'}>{item.question}</p>
+                <p className={`text-xs ${mutedClass}`}>{text.grades[item.grade]}</p>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {result.completedAt && (
+        <div className={`mt-4 pt-3 border-t ${dark ? 'border-slate-700/50' : 'border-slate-200'}`}>
+          {toReinforce.length === 0 ? (
+            <p className="text-sm text-green-500">{text.allClear}</p>
+          ) : (
+            <>
+              <p className={`text-xs uppercase tracking-wider mb-1 ${mutedClass}`}>{text.reinforce}</p>
+              <ul className={`list-disc list-inside text-sm space-y-1 ${dark ? 'text-amber-200' : 'text-amber-800'}`}>
+                {toReinforce.map((item) => <li key={item.id}>{item.reinforcement || item.question}</li>)}
+              </ul>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TeachBackPanel;
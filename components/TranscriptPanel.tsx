@@ -0,0 +1,65 @@
+import React, { useEffect, useRef } from 'react';
+import { ShieldAlert } from 'lucide-react';
+import { Message } from '../types';
+import { useLocale } from '../locales/LocaleContext';
+
+interface TranscriptPanelProps {
+  messages: Message[];
+  agentName: string;
+  title?: string;
+  emptyText?: string;
+  tall?: boolean;
+}
+
+const TranscriptPanel: React.FC<TranscriptPanelProps> = ({
+  messages,
+  agentName,
+  title,
+  emptyText,
+  tall = false,
+}) => {
+  const { strings, language } = useLocale();
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  // Keep the latest caption in view as new chunks arrive
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (el) el.scrollTop = el.scrollHeight;
+  }, [messages]);
+
+  return (
+    <div className="bg-slate-800/50 rounded-2xl border border-slate-700/50 backdrop-blur-sm">
+      <div className="px-4 py-2 border-b border-slate-700/50 flex items-center justify-between">
+        <h4 className="text-sm font-semibold text-slate-300">{title ?? strings.transcript.captionsTitle}</h4>
+        <span className="text-[10px] uppercase tracking-wider text-slate-500">{strings.transcript.label}</span>
+      </div>
+      <div ref={scrollRef} className={`${tall ? 'h-96' : 'h-48'} overflow-y-auto p-4 space-y-3`} aria-live="polite">
+        {messages.length === 0 ? (
+          <p className="text-sm text-slate-500 text-center pt-14">{emptyText ?? strings.transcript.captionsEmpty}</p>
+        ) : (
+          messages.map((message) => (
+            <div key={message.id} className={`flex flex-col ${message.role === 'user' ? 'items-end' : 'items-start'}`}>
+              <span className="text-[10px] uppercase tracking-wider text-slate-500 mb-1">
+                {message.role === 'user' ? strings.transcript.you : message.agentName ?? agentName} · {message.timestamp.toLocaleTimeString(language.code, { hour: '2-digit', minute: '2-digit' })}
+              </span>
+              <p
+                className={`max-w-[85%] px-3 py-2 rounded-xl text-sm leading-relaxed ${
+                  message.role === 'user' ? 'bg-blue-600/80 text-white' : 'bg-slate-700 text-slate-100'
+                } ${message.isPartial ? 'opacity-70' : ''} ${message.guardrailFlagged ? 'ring-2 ring-amber-400/70' : ''}`}
+              >
+                {message.text}
+              </p>
+              {message.guardrailFlagged && (
+                <span className="flex items-center gap-1 mt-1 text-xs text-amber-300">
+                  <ShieldAlert size={12} /> {strings.guardrail.flagged}
+                </span>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TranscriptPanel;
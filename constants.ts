@@ -1,4 +1,18 @@
-import { Agent } from './types';
+import agentsConfig from './config/agents.json';
+import guardrailsConfig from './config/guardrails.json';
+import { loadAgentRegistry } from './utils/agentRegistry';
+import { loadGuardrailRules } from './utils/guardrails';
+import { CheckInFlag } from './types';
+
+// Traffic-light colors for scored check-in answers
+export const CHECKIN_FLAG_COLORS: Record<CheckInFlag, string> = {
+  green: '#16a34a',
+  amber: '#f59e0b',
+  red: '#dc2626',
+};
+
+// Keep in sync with MODEL in server/token-server.js
+export const LIVE_MODEL = 'gemini-2.5-flash-native-audio-preview-09-2025';
 
 export const BASE_SYSTEM_INSTRUCTION = `
 You are the AtosCare AI Voice Bot, designed for Pre-Operative & Post-Operative Patient Education.
@@ -13,39 +27,12 @@ CORE RESPONSIBILITIES:
 CRITICAL RULES:
 - DO NOT provide personalized clinical advice.
 - DO NOT replace mandatory doctor counseling.
-- If the user expresses SEVERE PAIN, FEAR, UNCONTROLLABLE BLEEDING, or an EMERGENCY, immediately advise them to contact the Nursing Team or call emergency services, and state you are escalating this query.
+- If the user expresses SEVERE PAIN, FEAR, UNCONTROLLABLE BLEEDING, or an EMERGENCY, immediately call the escalate_to_nursing tool with the severity, symptom category and the patient's own words. Then advise them to contact the Nursing Team or call emergency services, and tell them you have escalated this query.
 - Keep answers concise, spoken-word friendly, and easy to understand.
 `;
 
-export const AGENTS: Agent[] = [
-  {
-    id: 'arthur',
-    name: 'Dr. Arthur',
-    role: 'Senior Surgical Consultant',
-    description: 'Mature, serious, and authoritative. Provides confidence through expertise.',
-    voiceName: 'Charon', // Deep, steady
-    avatarUrl: 'https://picsum.photos/id/1062/200/200', // Placeholder
-    style: 'serious',
-    systemInstructionAddon: `
-      You are Dr. Arthur. You are a mature, serious male agent.
-      Tone: Professional, calm, steady, authoritative, and reassuring.
-      Speak with gravitas. Use precise but clear medical terminology where appropriate, explained simply.
-      Focus on facts, safety, and procedure protocols.
-    `
-  },
-  {
-    id: 'sarah',
-    name: 'Nurse Sarah',
-    role: 'Patient Care Coordinator',
-    description: 'Young, cheerful, and empathetic. Focuses on comfort and emotional support.',
-    voiceName: 'Puck', // Lighter, energetic (closest approx available in standard set)
-    avatarUrl: 'https://picsum.photos/id/338/200/200', // Placeholder
-    style: 'cheerful',
-    systemInstructionAddon: `
-      You are Nurse Sarah. You are a young, cheerful female agent.
-      Tone: Warm, energetic, empathetic, and friendly.
-      Speak like a caring nurse guiding a nervous patient. Use encouraging language.
-      Focus on comfort, recovery tips, and making the patient feel at ease.
-    `
-  }
-];
+// Personas live in config/agents.json so new ones can be added without code changes
+export const { agents: AGENTS, errors: AGENT_CONFIG_ERRORS } = loadAgentRegistry(agentsConfig);
+
+// Checked against every agent reply as it is transcribed; see config/guardrails.json
+export const { rules: GUARDRAIL_RULES, errors: GUARDRAIL_CONFIG_ERRORS } = loadGuardrailRules(guardrailsConfig);
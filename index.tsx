@@ -1,6 +1,27 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import AnalyticsDashboard from './components/AnalyticsDashboard';
+import ContentConsole from './components/ContentConsole';
+import { LocaleProvider } from './locales/LocaleContext';
+
+const CONTENT_CONSOLE_HASH = '#/admin';
+const ANALYTICS_HASH = '#/analytics';
+
+// Staff views live behind hash routes so the app stays a single static page
+const Root: React.FC = () => {
+  const [hash, setHash] = useState(window.location.hash);
+
+  useEffect(() => {
+    const onHashChange = () => setHash(window.location.hash);
+    window.addEventListener('hashchange', onHashChange);
+    return () => window.removeEventListener('hashchange', onHashChange);
+  }, []);
+
+  if (hash === CONTENT_CONSOLE_HASH) return <ContentConsole />;
+  if (hash === ANALYTICS_HASH) return <AnalyticsDashboard />;
+  return <App />;
+};
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -10,6 +31,8 @@ if (!rootElement) {
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <App />
+    <LocaleProvider>
+      <Root />
+    </LocaleProvider>
   </React.StrictMode>
-);
\ No newline at end of file
+);
@@ -0,0 +1,40 @@
+import React, { createContext, useContext, useEffect, useMemo, useState } from 'react';
+import { LanguageOption } from '../types';
+import { UiStrings, detectLanguage, getLanguage, getStrings } from './index';
+
+const STORAGE_KEY = 'atoscare.language';
+
+interface LocaleContextValue {
+  language: LanguageOption;
+  strings: UiStrings;
+  setLanguage: (code: string) => void;
+}
+
+const LocaleContext = createContext<LocaleContextValue | null>(null);
+
+export const LocaleProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [code, setCode] = useState<string>(
+    () => localStorage.getItem(STORAGE_KEY) ?? detectLanguage(navigator.languages ?? [navigator.language])
+  );
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, code);
+    document.documentElement.lang = code;
+  }, [code]);
+
+  const value = useMemo<LocaleContextValue>(() => ({
+    language: getLanguage(code),
+    strings: getStrings(code),
+    setLanguage: setCode,
+  }), [code]);
+
+  return <LocaleContext.Provider value={value}>{children}</LocaleContext.Provider>;
+};
+
+export function useLocale(): LocaleContextValue {
+  const context = useContext(LocaleContext);
+  if (!context) {
+    throw new Error("useLocale must be used inside a LocaleProvider");
+  }
+  return context;
+}
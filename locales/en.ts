@@ -0,0 +1,431 @@
+// English UI strings. Every other locale must provide the same keys.
+export const en = {
+  // Dialled from the escalation banner and named in the disclaimers
+  emergencyNumber: '911',
+  brand: {
+    tagline: 'Surgical Patient Education',
+  },
+  selection: {
+    heading: 'How can we help you today?',
+    intro: 'Select an AI assistant to guide you through your upcoming procedure, pre-operative instructions, or recovery guidelines.',
+    languageLabel: 'Language',
+    procedureStep: '1. Which procedure are you having?',
+    agentStep: '2. Choose your assistant',
+    select: 'Select',
+    bestFor: 'Best for:',
+    startConsultation: 'Start Consultation',
+    chatByText: 'Prefer to type? Chat by text',
+    notAvailableIn: (language: string) => `Not available in ${language}`,
+    connecting: 'Connecting to secure medical line...',
+    agentConfigErrors: 'Some assistants could not be loaded from config/agents.json:',
+    guardrailConfigErrors: 'Some safety rules could not be loaded from config/guardrails.json:',
+  },
+  call: {
+    activeAgent: 'AtosCare Active Agent',
+    live: 'LIVE',
+    reconnecting: 'RECONNECTING',
+    reconnectingNotice: (attempt: number, max: number) =>
+      `Connection lost. Reconnecting (attempt ${attempt} of ${max})... Your conversation will pick up where it left off.`,
+    agentSpeaking: (name: string) => `${name} is speaking`,
+    youAreSpeaking: 'You are speaking',
+    youAreMuted: 'You are muted',
+    idle: 'Idle',
+    typeBelow: 'Type your question below',
+    capabilities: 'Capabilities',
+    mute: 'Mute microphone',
+    unmute: 'Unmute microphone',
+    holdToTalk: 'Hold to talk',
+    holdToTalkHint: 'Hold the button or press Space to talk',
+    talking: 'Talking. Release to send',
+    listeningForSpeech: 'Listening for speech',
+    sendingSpeech: 'Sending your speech',
+    micModeLabel: 'Microphone mode',
+    micModes: {
+      open: 'Open mic',
+      push_to_talk: 'Push to talk',
+      hands_free: 'Hands-free',
+    },
+    readAloudOn: 'Stop reading replies aloud',
+    readAloudOff: 'Read replies aloud',
+    switchToVoice: 'Switch to voice',
+    switchToTyping: 'Switch to typing',
+    transferTo: 'Transfer to',
+    transferToAgent: (name: string, role: string) => `Transfer the call to ${name}, ${role}`,
+    transferring: (name: string) => `Transferring you to ${name}. They will have the notes from this conversation, so there is no need to repeat yourself.`,
+    endCall: 'End consultation',
+  },
+  transcript: {
+    captionsTitle: 'Live Captions',
+    captionsEmpty: 'Captions will appear here as you talk.',
+    chatTitle: 'Text Chat',
+    chatEmpty: (name: string) => `Ask ${name} anything about your procedure.`,
+    label: 'Transcript',
+    you: 'You',
+  },
+  composer: {
+    label: 'Type your question',
+    placeholder: 'Type your question...',
+    send: 'Send message',
+  },
+  errors: {
+    chooseProcedureFirst: 'Please choose your procedure first.',
+    connectionLost: 'Connection lost. Please try again.',
+    failedToConnect: 'Failed to connect',
+    micFallback: "We couldn't access your microphone, so we've switched to text chat. You can still listen to the replies.",
+    micBlocked: 'Microphone access is blocked. Allow it in your browser settings to talk instead of typing.',
+    micFailed: 'Could not start the microphone. Please keep typing for now.',
+    auditExportFailed: 'Could not export the audit log. Please try again.',
+  },
+  escalation: {
+    title: 'Nursing team alerted',
+    whileYouWait: 'While you wait:',
+    steps: [
+      'Press your bedside call button or tell the nearest staff member.',
+      'If you are bleeding, apply firm pressure with a clean cloth.',
+      'Stay still and do not eat or drink until a nurse has seen you.',
+    ],
+    callEmergency: (number: string) => `If this is life-threatening, call ${number}`,
+    loggedAt: (time: string, ref: string) => `Logged at ${time} · Ref ${ref}`,
+    acknowledge: 'I understand',
+    severity: {
+      moderate: 'Moderate',
+      severe: 'Severe',
+      critical: 'Critical',
+    },
+    symptoms: {
+      pain: 'Severe pain',
+      bleeding: 'Bleeding',
+      breathing: 'Breathing difficulty',
+      fever_infection: 'Fever or infection signs',
+      chest_cardiac: 'Chest or heart symptoms',
+      emotional_distress: 'Emotional distress',
+      other: 'Urgent concern',
+    },
+  },
+  checklist: {
+    title: 'Pre-op checklist',
+    hint: 'Enter the date and time of your surgery to get a fasting countdown and a checklist you can tick off.',
+    surgeryLabel: 'Surgery date and time',
+    create: 'Create my checklist',
+    reschedule: 'Change time',
+    arrival: 'Arrive at hospital',
+    solidFood: 'Last solid food',
+    clearFluids: 'Last clear fluids',
+    noCutoff: 'Follow your admission letter',
+    remaining: (time: string) => `in ${time}`,
+    passed: 'Time has passed',
+    days: (count: number) => `${count}d`,
+    progress: (done: number, total: number) => `${done} of ${total} done`,
+    categories: {
+      medication: 'Medicines',
+      bring: 'Things to bring',
+      logistics: 'Arrangements',
+      other: 'Other',
+    },
+    due: (time: string) => `Due ${time}`,
+    addedByAgent: 'Added by your assistant',
+    addPlaceholder: 'Add your own item...',
+    add: 'Add item',
+    remove: 'Remove item',
+    reset: 'Clear checklist',
+  },
+  recovery: {
+    modeLabel: 'What would you like to do?',
+    education: 'Ask about my procedure',
+    checkIn: 'Daily recovery check-in',
+    title: 'Recovery check-ins',
+    hint: 'Enter the date of your operation to start daily check-ins.',
+    surgeryDateLabel: 'Date of your operation',
+    save: 'Save',
+    today: (day: number) => `Today is day ${day} after your operation`,
+    day: (day: number) => `Day ${day}`,
+    noRecords: 'No check-ins yet. Choose an assistant to start today\'s check-in.',
+    painTrend: 'Pain score by day',
+    progressTitle: "Today's check-in",
+    completed: 'Complete',
+    inProgress: 'In progress',
+    needsDate: 'Enter the date of your operation before starting a check-in.',
+    questions: {
+      pain: 'Pain',
+      wound: 'Wound',
+      fever: 'Temperature',
+      mobility: 'Mobility',
+      bowel: 'Bowels',
+    },
+    flags: {
+      green: 'As expected',
+      amber: 'Keep an eye on it',
+      red: 'Needs attention',
+    },
+    wound: {
+      clean_dry: 'Clean and dry',
+      mild_redness: 'Slightly red',
+      spreading_redness: 'Redness spreading',
+      discharge: 'Discharge',
+      wound_opening: 'Opening up',
+    },
+    mobility: {
+      walking_unaided: 'Walking unaided',
+      walking_with_aid: 'Walking with an aid',
+      bed_or_chair: 'Bed or chair',
+    },
+    bowel: {
+      opened: 'Opened',
+      not_opened: 'Not opened yet',
+      diarrhoea: 'Diarrhoea',
+    },
+    noReading: 'No reading',
+    feverish: 'feels feverish',
+  },
+  teachBack: {
+    start: 'Check my understanding',
+    title: 'Understanding check',
+    intro: 'Answer a few questions in your own words.',
+    waiting: 'Waiting for the first question...',
+    score: (percent: number) => `${percent}% understood`,
+    grades: {
+      correct: 'Understood',
+      partial: 'Partly understood',
+      incorrect: 'Needs review',
+    },
+    reinforce: 'Worth going over again',
+    allClear: 'You understood everything we checked.',
+    notTaken: 'No understanding check was done in this session.',
+  },
+  guardrail: {
+    disclaimer: 'Reminder: I can only share general education. Please check anything about your own medicines, doses or diagnosis with your surgical team.',
+    flagged: 'General information only. Check this with your care team.',
+    englishOnly: 'Automatic safety checks on the assistant\'s replies only work in English. Please check anything about your own medicines, doses or diagnosis with your surgical team.',
+  },
+  profile: {
+    title: 'About you',
+    optional: 'Optional',
+    saved: 'Saved on this device',
+    intro: 'Tell us a little about your surgery so the assistant can skip questions you have already answered. It only changes which general information the assistant focuses on, never the medical advice itself.',
+    procedure: 'Procedure',
+    chooseProcedure: 'Choose your procedure',
+    language: 'Preferred language',
+    surgeryDate: 'Date of your operation',
+    daysSince: 'Or days since your operation',
+    inDays: (n: number) => `In ${n} day${n === 1 ? '' : 's'}`,
+    ageGroup: 'Age group',
+    preferNotToSay: 'Prefer not to say',
+    ageGroups: {
+      under_18: 'Under 18',
+      '18_39': '18 to 39',
+      '40_64': '40 to 64',
+      '65_79': '65 to 79',
+      '80_plus': '80 or over',
+    },
+    caregiver: 'Is there an adult at home to help you?',
+    yes: 'Yes',
+    no: 'No',
+    privacy: 'Saved in this browser only. It is shared with the assistant at the start of each consultation, without your name.',
+    save: 'Save',
+    forget: 'Forget my data',
+    forgetConfirm: 'Delete your profile, checklists and recovery check-ins from this device?',
+    forgetYes: 'Delete',
+    cancel: 'Cancel',
+  },
+  recording: {
+    consentLabel: 'Record this consultation for quality review',
+    consentDetail: "Your voice and the assistant's replies are kept in this browser only. At the end you can download the recording to share with your care team for quality review. You can stop and delete it at any time during the call.",
+    active: 'Recording',
+    discard: 'Stop and delete recording',
+    download: 'Download recording (WAV)',
+  },
+  summary: {
+    title: 'Your consultation summary',
+    ended: 'Consultation ended',
+    procedure: 'Procedure',
+    assistant: 'Assistant',
+    date: 'Date',
+    duration: 'Duration',
+    minutes: (count: number) => `${count} min`,
+    preOpTitle: 'Before your surgery',
+    redFlagsTitle: 'Call your nursing team if you notice',
+    discussed: 'Discussed today',
+    escalationsTitle: 'Alerts raised during this session',
+    noEscalations: 'No alerts were raised.',
+    transcriptTitle: 'Conversation',
+    disclaimer: 'This summary is for education only. Always follow the instructions from your surgical team.',
+    print: 'Print or save as PDF',
+    downloadMarkdown: 'Download as text (Markdown)',
+    downloadFhir: 'Download clinician record (FHIR)',
+    done: 'Start a new consultation',
+    contentVersion: 'Content version',
+    builtInContent: 'built-in',
+  },
+  admin: {
+    title: 'Clinical content console',
+    backToApp: 'Back to the patient app',
+    signInTitle: 'Clinician sign-in',
+    signInIntro: 'Changes to persona prompts and procedure education reach patients only after a second clinician reviews and approves them.',
+    name: 'Name',
+    password: 'Password',
+    signIn: 'Sign in',
+    signOut: 'Sign out',
+    signedInAs: (name: string, roles: string) => `Signed in as ${name} (${roles})`,
+    roles: { author: 'author', reviewer: 'reviewer' },
+    versions: 'Versions',
+    newDraft: 'New draft from live content',
+    noVersions: 'No versions yet. Patients get the built-in content.',
+    selectVersion: 'Choose a version to see its changes and history.',
+    version: (number: number) => `Version ${number}`,
+    builtIn: 'Built-in content',
+    status: {
+      draft: 'Draft',
+      in_review: 'In review',
+      approved: 'Approved (live)',
+      rejected: 'Rejected',
+      superseded: 'Superseded',
+    },
+    draftFromThis: 'New draft from this version',
+    author: 'Author',
+    reviewer: 'Reviewer',
+    basedOn: 'Based on',
+    hash: 'Content hash (SHA-256)',
+    reviewNote: 'Review note',
+    reviewNoteHint: 'Required when rejecting: say what needs to change.',
+    field: 'Section to edit',
+    baseInstruction: 'Clinical rules for all assistants',
+    personaPrompt: (name: string) => `Persona prompt · ${name}`,
+    sections: {
+      description: 'What it is',
+      duration: 'Duration',
+      risks: 'Risks',
+      fasting: 'Fasting rules',
+      medicationHolds: 'Medication holds',
+      woundCare: 'Wound care',
+      redFlags: 'Red flags',
+    },
+    preOpFields: {
+      arrivalMinutesBefore: 'Arrive this many minutes early',
+      solidFoodHours: 'Last solid food (hours before arrival)',
+      clearFluidsHours: 'Last clear fluids (hours before arrival)',
+      bring: 'What to bring',
+    },
+    minutesHint: 'A whole number of minutes. Drives the checklist countdown.',
+    hoursHint: 'Hours before arrival. Leave empty if there is no fixed cut-off.',
+    listHint: 'One item per line.',
+    emptyFields: (count: number) => `${count} ${count === 1 ? 'section is' : 'sections are'} empty. Fill them in before saving.`,
+    invalidFields: (count: number) => `${count} pre-op ${count === 1 ? 'number is' : 'numbers are'} not valid. Fix them before saving.`,
+    save: 'Save draft',
+    saved: 'Draft saved.',
+    unsavedChanges: 'Unsaved changes',
+    submit: 'Submit for review',
+    approve: 'Approve and publish',
+    reject: 'Reject',
+    approvedNotice: 'Approved. New sessions now use this version.',
+    rejectedNotice: 'Rejected. The author can start a new draft from it.',
+    ownVersion: 'You wrote this version, so a different reviewer must approve it.',
+    awaitingReview: 'Waiting for a reviewer.',
+    changesSince: (label: string) => `Changes from ${label}`,
+    noChanges: 'No changes.',
+    unchangedLines: (count: number) => `${count} unchanged ${count === 1 ? 'line' : 'lines'}`,
+    diffKinds: { same: 'Unchanged', added: 'Added', removed: 'Removed' },
+    history: 'History',
+    events: {
+      created: 'Created',
+      edited: 'Edited',
+      submitted: 'Submitted for review',
+      approved: 'Approved',
+      rejected: 'Rejected',
+      superseded: 'Superseded',
+    },
+  },
+  analytics: {
+    title: 'Usage analytics',
+    intro: 'Anonymized metrics from sessions on this device. No transcripts or personal details are kept.',
+    from: 'From',
+    to: 'To',
+    last7: 'Last 7 days',
+    last30: 'Last 30 days',
+    allTime: 'All time',
+    exportCsv: 'Export CSV',
+    noSessions: 'No sessions in this period.',
+    metrics: {
+      sessions: 'Sessions',
+      averageDuration: 'Average length',
+      firstResponse: 'First response (median)',
+      escalationRate: 'Sessions with an escalation',
+      interruptions: 'Interruptions per session',
+      completionRate: 'Completed without a lost connection',
+      teachBack: 'Teach-back score',
+    },
+    seconds: (value: string) => `${value} s`,
+    byAgent: 'By assistant',
+    agent: 'Assistant',
+    compareTitle: 'Which assistant works for which patients',
+    compareBy: 'Compare by',
+    compareHint: 'Each cell: sessions · completed · average teach-back score.',
+    compareCell: (sessions: number, completed: string, teachBack: string) => `${sessions} · ${completed} · ${teachBack}`,
+    dimensions: {
+      procedure: 'Procedure',
+      ageGroup: 'Age group',
+      language: 'Language',
+      consultationMode: 'Session type',
+    },
+    notGiven: 'Not given',
+    modes: { education: 'Education', checkin: 'Recovery check-in' },
+    topicsTitle: 'What patients ask about',
+    topicsHint: 'Sessions per topic, with how many got "no approved information" from the assistant.',
+    contentGaps: (count: number) => `${count} not covered`,
+    topics: {
+      fasting: 'Fasting',
+      medication: 'Medication',
+      anesthesia: 'Anesthesia',
+      risks: 'Risks',
+      wound_care: 'Wound care',
+      pain: 'Pain',
+      activity: 'Activity and recovery',
+      symptoms: 'Symptoms',
+      logistics: 'Arrival and logistics',
+      other: 'Other',
+    },
+    connectionErrors: 'Connection errors',
+    errorTypes: {
+      token: 'Session token',
+      network: 'Network',
+      quota: 'Quota or rate limit',
+      timeout: 'Timeout',
+      closed: 'Closed by the service',
+      other: 'Other',
+    },
+  },
+  audio: {
+    title: 'Audio settings',
+    subtitle: 'Microphone, speaker and speech speed',
+    intro: 'Choose the microphone and the speaker or headset to use on this device. These settings are saved on this device.',
+    microphone: 'Microphone',
+    speaker: 'Speaker or headset',
+    systemDefault: 'System default',
+    unnamedMicrophone: (n: number) => `Microphone ${n}`,
+    unnamedSpeaker: (n: number) => `Speaker ${n}`,
+    testMicrophone: 'Test microphone',
+    stopTest: 'Stop test',
+    micLevel: 'Microphone level',
+    testHint: 'Speak normally. The bar should move while you talk.',
+    testFailed: 'Could not open this microphone. Check that it is plugged in and that the browser is allowed to use it.',
+    playTestSound: 'Play test sound',
+    outputUnsupported: 'This browser always plays through the system default speaker.',
+    echoCancellation: 'Echo cancellation',
+    noiseSuppression: 'Noise suppression',
+    hints: {
+      echoCancellation: 'Keep this on when using a loudspeaker. With a headset it can be turned off.',
+      noiseSuppression: 'Reduces background noise such as a busy waiting room.',
+    },
+    speed: 'Speech speed',
+    volume: 'Volume',
+    appliesNextCall: 'Microphone changes apply from the next consultation. Speed and volume can also be changed during a call.',
+  },
+  footer: {
+    copyright: (year: number) => `© ${year} AtosCare AI. HIPAA Compliant Interface.`,
+    disclaimer: (number: string) => `Disclaimer: This is an AI education tool, not a doctor. In emergencies, call ${number}.`,
+    exportAudit: 'Download audit log (signed JSONL)',
+    contentConsole: 'Clinician content console',
+    analytics: 'Usage analytics',
+  },
+};
+
+export type UiStrings = typeof en;
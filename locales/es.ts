@@ -0,0 +1,429 @@
+import { UiStrings } from './en';
+
+export const es: UiStrings = {
+  emergencyNumber: '911',
+  brand: {
+    tagline: 'Educación para pacientes quirúrgicos',
+  },
+  selection: {
+    heading: '¿Cómo podemos ayudarle hoy?',
+    intro: 'Elija un asistente de IA que le guíe sobre su próxima intervención, las instrucciones preoperatorias o las pautas de recuperación.',
+    languageLabel: 'Idioma',
+    procedureStep: '1. ¿Qué intervención le van a realizar?',
+    agentStep: '2. Elija su asistente',
+    select: 'Elegir',
+    bestFor: 'Ideal para:',
+    startConsultation: 'Iniciar consulta',
+    chatByText: '¿Prefiere escribir? Chatee por texto',
+    notAvailableIn: (language: string) => `No disponible en ${language}`,
+    connecting: 'Conectando con la línea médica segura...',
+    agentConfigErrors: 'Algunos asistentes no se pudieron cargar desde config/agents.json:',
+    guardrailConfigErrors: 'Algunas reglas de seguridad no se pudieron cargar desde config/guardrails.json:',
+  },
+  call: {
+    activeAgent: 'Asistente activo de AtosCare',
+    live: 'EN VIVO',
+    reconnecting: 'RECONECTANDO',
+    reconnectingNotice: (attempt: number, max: number) =>
+      `Se perdió la conexión. Reconectando (intento ${attempt} de ${max})... Su conversación continuará donde la dejó.`,
+    agentSpeaking: (name: string) => `${name} está hablando`,
+    youAreSpeaking: 'Usted está hablando',
+    youAreMuted: 'Su micrófono está silenciado',
+    idle: 'En espera',
+    typeBelow: 'Escriba su pregunta abajo',
+    capabilities: 'Funciones',
+    mute: 'Silenciar micrófono',
+    unmute: 'Activar micrófono',
+    holdToTalk: 'Mantenga pulsado para hablar',
+    holdToTalkHint: 'Mantenga pulsado el botón o la barra espaciadora para hablar',
+    talking: 'Hablando. Suelte para enviar',
+    listeningForSpeech: 'Esperando a que hable',
+    sendingSpeech: 'Enviando su voz',
+    micModeLabel: 'Modo del micrófono',
+    micModes: {
+      open: 'Micrófono abierto',
+      push_to_talk: 'Pulsar para hablar',
+      hands_free: 'Manos libres',
+    },
+    readAloudOn: 'Dejar de leer las respuestas en voz alta',
+    readAloudOff: 'Leer las respuestas en voz alta',
+    switchToVoice: 'Cambiar a voz',
+    switchToTyping: 'Cambiar a texto',
+    transferTo: 'Transferir a',
+    transferToAgent: (name: string, role: string) => `Transferir la llamada a ${name}, ${role}`,
+    transferring: (name: string) => `Transfiriendo la llamada a ${name}. Tendrá las notas de esta conversación, así que no hace falta repetir nada.`,
+    endCall: 'Terminar consulta',
+  },
+  transcript: {
+    captionsTitle: 'Subtítulos en vivo',
+    captionsEmpty: 'Los subtítulos aparecerán aquí mientras habla.',
+    chatTitle: 'Chat de texto',
+    chatEmpty: (name: string) => `Pregunte a ${name} lo que quiera sobre su intervención.`,
+    label: 'Transcripción',
+    you: 'Usted',
+  },
+  composer: {
+    label: 'Escriba su pregunta',
+    placeholder: 'Escriba su pregunta...',
+    send: 'Enviar mensaje',
+  },
+  errors: {
+    chooseProcedureFirst: 'Primero elija su intervención.',
+    connectionLost: 'Se perdió la conexión. Inténtelo de nuevo.',
+    failedToConnect: 'No se pudo conectar',
+    micFallback: 'No pudimos acceder a su micrófono, así que cambiamos al chat de texto. Aún puede escuchar las respuestas.',
+    micBlocked: 'El acceso al micrófono está bloqueado. Permítalo en la configuración del navegador para hablar en lugar de escribir.',
+    micFailed: 'No se pudo iniciar el micrófono. Por ahora siga escribiendo.',
+    auditExportFailed: 'No se pudo exportar el registro de auditoría. Inténtelo de nuevo.',
+  },
+  escalation: {
+    title: 'Se ha avisado al equipo de enfermería',
+    whileYouWait: 'Mientras espera:',
+    steps: [
+      'Pulse el botón de llamada junto a su cama o avise al personal más cercano.',
+      'Si está sangrando, presione con firmeza con un paño limpio.',
+      'Quédese quieto y no coma ni beba hasta que le vea una enfermera.',
+    ],
+    callEmergency: (number: string) => `Si su vida corre peligro, llame al ${number}`,
+    loggedAt: (time: string, ref: string) => `Registrado a las ${time} · Ref. ${ref}`,
+    acknowledge: 'Entendido',
+    severity: {
+      moderate: 'Moderada',
+      severe: 'Grave',
+      critical: 'Crítica',
+    },
+    symptoms: {
+      pain: 'Dolor intenso',
+      bleeding: 'Sangrado',
+      breathing: 'Dificultad para respirar',
+      fever_infection: 'Fiebre o signos de infección',
+      chest_cardiac: 'Síntomas en el pecho o el corazón',
+      emotional_distress: 'Angustia emocional',
+      other: 'Problema urgente',
+    },
+  },
+  checklist: {
+    title: 'Lista de preparación',
+    hint: 'Introduzca la fecha y hora de su cirugía para ver la cuenta atrás del ayuno y una lista que puede ir marcando.',
+    surgeryLabel: 'Fecha y hora de la cirugía',
+    create: 'Crear mi lista',
+    reschedule: 'Cambiar hora',
+    arrival: 'Llegada al hospital',
+    solidFood: 'Última comida sólida',
+    clearFluids: 'Últimos líquidos claros',
+    noCutoff: 'Siga su carta de ingreso',
+    remaining: (time: string) => `en ${time}`,
+    passed: 'La hora ya pasó',
+    days: (count: number) => `${count} d`,
+    progress: (done: number, total: number) => `${done} de ${total} hechos`,
+    categories: {
+      medication: 'Medicamentos',
+      bring: 'Qué llevar',
+      logistics: 'Preparativos',
+      other: 'Otros',
+    },
+    due: (time: string) => `Antes del ${time}`,
+    addedByAgent: 'Añadido por su asistente',
+    addPlaceholder: 'Añada su propio elemento...',
+    add: 'Añadir elemento',
+    remove: 'Quitar elemento',
+    reset: 'Borrar lista',
+  },
+  recovery: {
+    modeLabel: '¿Qué le gustaría hacer?',
+    education: 'Preguntar sobre mi intervención',
+    checkIn: 'Control diario de recuperación',
+    title: 'Controles de recuperación',
+    hint: 'Introduzca la fecha de su operación para empezar los controles diarios.',
+    surgeryDateLabel: 'Fecha de la operación',
+    save: 'Guardar',
+    today: (day: number) => `Hoy es el día ${day} después de su operación`,
+    day: (day: number) => `Día ${day}`,
+    noRecords: 'Aún no hay controles. Elija un asistente para empezar el control de hoy.',
+    painTrend: 'Dolor por día',
+    progressTitle: 'Control de hoy',
+    completed: 'Completado',
+    inProgress: 'En curso',
+    needsDate: 'Introduzca la fecha de su operación antes de empezar un control.',
+    questions: {
+      pain: 'Dolor',
+      wound: 'Herida',
+      fever: 'Temperatura',
+      mobility: 'Movilidad',
+      bowel: 'Intestino',
+    },
+    flags: {
+      green: 'Lo esperado',
+      amber: 'Vigilar',
+      red: 'Requiere atención',
+    },
+    wound: {
+      clean_dry: 'Limpia y seca',
+      mild_redness: 'Algo enrojecida',
+      spreading_redness: 'Enrojecimiento que se extiende',
+      discharge: 'Supuración',
+      wound_opening: 'Se está abriendo',
+    },
+    mobility: {
+      walking_unaided: 'Camina sin ayuda',
+      walking_with_aid: 'Camina con ayuda',
+      bed_or_chair: 'En cama o sillón',
+    },
+    bowel: {
+      opened: 'Ha hecho deposiciones',
+      not_opened: 'Aún no',
+      diarrhoea: 'Diarrea',
+    },
+    noReading: 'Sin medición',
+    feverish: 'se siente con fiebre',
+  },
+  teachBack: {
+    start: 'Comprobar lo que entendí',
+    title: 'Comprobación de comprensión',
+    intro: 'Responda a unas preguntas con sus propias palabras.',
+    waiting: 'Esperando la primera pregunta...',
+    score: (percent: number) => `${percent}% comprendido`,
+    grades: {
+      correct: 'Comprendido',
+      partial: 'Comprendido en parte',
+      incorrect: 'Conviene repasar',
+    },
+    reinforce: 'Conviene repasarlo',
+    allClear: 'Comprendió todo lo que se comprobó.',
+    notTaken: 'No se hizo comprobación de comprensión en esta sesión.',
+  },
+  guardrail: {
+    disclaimer: 'Recuerde: solo puedo darle información general. Consulte con su equipo quirúrgico cualquier duda sobre sus medicamentos, dosis o diagnóstico.',
+    flagged: 'Solo información general. Confírmelo con su equipo de atención.',
+    englishOnly: 'Las comprobaciones automáticas de seguridad de las respuestas del asistente solo funcionan en inglés. Confirme con su equipo quirúrgico todo lo relacionado con sus medicamentos, dosis o diagnóstico.',
+  },
+  profile: {
+    title: 'Sobre usted',
+    optional: 'Opcional',
+    saved: 'Guardado en este dispositivo',
+    intro: 'Cuéntenos un poco sobre su cirugía para que el asistente no repita preguntas que ya respondió. Solo cambia la información general en la que se centra el asistente, nunca el consejo médico.',
+    procedure: 'Procedimiento',
+    chooseProcedure: 'Elija su procedimiento',
+    language: 'Idioma preferido',
+    surgeryDate: 'Fecha de su operación',
+    daysSince: 'O días desde su operación',
+    inDays: (n: number) => `En ${n} día${n === 1 ? '' : 's'}`,
+    ageGroup: 'Grupo de edad',
+    preferNotToSay: 'Prefiero no decirlo',
+    ageGroups: {
+      under_18: 'Menos de 18',
+      '18_39': '18 a 39',
+      '40_64': '40 a 64',
+      '65_79': '65 a 79',
+      '80_plus': '80 o más',
+    },
+    caregiver: '¿Hay un adulto en casa que pueda ayudarle?',
+    yes: 'Sí',
+    no: 'No',
+    privacy: 'Se guarda solo en este navegador. Se comparte con el asistente al inicio de cada consulta, sin su nombre.',
+    save: 'Guardar',
+    forget: 'Olvidar mis datos',
+    forgetConfirm: '¿Borrar su perfil, listas de verificación y controles de recuperación de este dispositivo?',
+    forgetYes: 'Borrar',
+    cancel: 'Cancelar',
+  },
+  recording: {
+    consentLabel: 'Grabar esta consulta para revisión de calidad',
+    consentDetail: 'Su voz y las respuestas del asistente se guardan solo en este navegador. Al final puede descargar la grabación y compartirla con su equipo de atención para la revisión de calidad. Puede detenerla y borrarla en cualquier momento durante la llamada.',
+    active: 'Grabando',
+    discard: 'Detener y borrar la grabación',
+    download: 'Descargar grabación (WAV)',
+  },
+  summary: {
+    title: 'Resumen de su consulta',
+    ended: 'Consulta finalizada',
+    procedure: 'Intervención',
+    assistant: 'Asistente',
+    date: 'Fecha',
+    duration: 'Duración',
+    minutes: (count: number) => `${count} min`,
+    preOpTitle: 'Antes de su cirugía',
+    redFlagsTitle: 'Llame a su equipo de enfermería si nota',
+    discussed: 'Se habló hoy',
+    escalationsTitle: 'Alertas enviadas durante esta sesión',
+    noEscalations: 'No se envió ninguna alerta.',
+    transcriptTitle: 'Conversación',
+    disclaimer: 'Este resumen es solo informativo. Siga siempre las instrucciones de su equipo quirúrgico.',
+    print: 'Imprimir o guardar como PDF',
+    downloadMarkdown: 'Descargar como texto (Markdown)',
+    downloadFhir: 'Descargar registro clínico (FHIR)',
+    done: 'Iniciar una nueva consulta',
+    contentVersion: 'Versión del contenido',
+    builtInContent: 'integrado',
+  },
+  admin: {
+    title: 'Consola de contenido clínico',
+    backToApp: 'Volver a la aplicación de pacientes',
+    signInTitle: 'Acceso para clínicos',
+    signInIntro: 'Los cambios en las instrucciones de los asistentes y en la información de los procedimientos solo llegan a los pacientes después de que un segundo clínico los revise y apruebe.',
+    name: 'Nombre',
+    password: 'Contraseña',
+    signIn: 'Iniciar sesión',
+    signOut: 'Cerrar sesión',
+    signedInAs: (name: string, roles: string) => `Sesión iniciada como ${name} (${roles})`,
+    roles: { author: 'autor', reviewer: 'revisor' },
+    versions: 'Versiones',
+    newDraft: 'Nuevo borrador del contenido activo',
+    noVersions: 'Aún no hay versiones. Los pacientes reciben el contenido integrado.',
+    selectVersion: 'Elija una versión para ver sus cambios y su historial.',
+    version: (number: number) => `Versión ${number}`,
+    builtIn: 'Contenido integrado',
+    status: {
+      draft: 'Borrador',
+      in_review: 'En revisión',
+      approved: 'Aprobada (activa)',
+      rejected: 'Rechazada',
+      superseded: 'Reemplazada',
+    },
+    draftFromThis: 'Nuevo borrador a partir de esta versión',
+    author: 'Autor',
+    reviewer: 'Revisor',
+    basedOn: 'Basada en',
+    hash: 'Hash del contenido (SHA-256)',
+    reviewNote: 'Nota de revisión',
+    reviewNoteHint: 'Obligatoria al rechazar: indique qué debe cambiar.',
+    field: 'Sección a editar',
+    baseInstruction: 'Reglas clínicas para todos los asistentes',
+    personaPrompt: (name: string) => `Instrucciones del asistente · ${name}`,
+    sections: {
+      description: 'Qué es',
+      duration: 'Duración',
+      risks: 'Riesgos',
+      fasting: 'Reglas de ayuno',
+      medicationHolds: 'Medicamentos a suspender',
+      woundCare: 'Cuidado de la herida',
+      redFlags: 'Señales de alarma',
+    },
+    preOpFields: {
+      arrivalMinutesBefore: 'Minutos de antelación a la llegada',
+      solidFoodHours: 'Último alimento sólido (horas antes de la llegada)',
+      clearFluidsHours: 'Últimos líquidos claros (horas antes de la llegada)',
+      bring: 'Qué traer',
+    },
+    minutesHint: 'Un número entero de minutos. Rige la cuenta atrás de la lista.',
+    hoursHint: 'Horas antes de la llegada. Déjelo vacío si no hay un límite fijo.',
+    listHint: 'Un elemento por línea.',
+    emptyFields: (count: number) => `${count} ${count === 1 ? 'sección está vacía' : 'secciones están vacías'}. Complételas antes de guardar.`,
+    invalidFields: (count: number) => `${count} ${count === 1 ? 'número preoperatorio no es válido' : 'números preoperatorios no son válidos'}. Corríjalos antes de guardar.`,
+    save: 'Guardar borrador',
+    saved: 'Borrador guardado.',
+    unsavedChanges: 'Cambios sin guardar',
+    submit: 'Enviar a revisión',
+    approve: 'Aprobar y publicar',
+    reject: 'Rechazar',
+    approvedNotice: 'Aprobada. Las nuevas sesiones ya usan esta versión.',
+    rejectedNotice: 'Rechazada. El autor puede empezar un nuevo borrador a partir de ella.',
+    ownVersion: 'Usted escribió esta versión, así que debe aprobarla otro revisor.',
+    awaitingReview: 'Pendiente de un revisor.',
+    changesSince: (label: string) => `Cambios respecto a ${label}`,
+    noChanges: 'Sin cambios.',
+    unchangedLines: (count: number) => `${count} ${count === 1 ? 'línea sin cambios' : 'líneas sin cambios'}`,
+    diffKinds: { same: 'Sin cambios', added: 'Añadido', removed: 'Eliminado' },
+    history: 'Historial',
+    events: {
+      created: 'Creada',
+      edited: 'Editada',
+      submitted: 'Enviada a revisión',
+      approved: 'Aprobada',
+      rejected: 'Rechazada',
+      superseded: 'Reemplazada',
+    },
+  },
+  analytics: {
+    title: 'Análisis de uso',
+    intro: 'Métricas anónimas de las sesiones en este dispositivo. No se guardan transcripciones ni datos personales.',
+    from: 'Desde',
+    to: 'Hasta',
+    last7: 'Últimos 7 días',
+    last30: 'Últimos 30 días',
+    allTime: 'Todo',
+    exportCsv: 'Exportar CSV',
+    noSessions: 'No hay sesiones en este periodo.',
+    metrics: {
+      sessions: 'Sesiones',
+      averageDuration: 'Duración media',
+      firstResponse: 'Primera respuesta (mediana)',
+      escalationRate: 'Sesiones con un aviso',
+      interruptions: 'Interrupciones por sesión',
+      completionRate: 'Completadas sin perder la conexión',
+      teachBack: 'Puntuación de comprensión',
+    },
+    seconds: (value: string) => `${value} s`,
+    byAgent: 'Por asistente',
+    agent: 'Asistente',
+    compareTitle: 'Qué asistente funciona mejor para qué pacientes',
+    compareBy: 'Comparar por',
+    compareHint: 'Cada celda: sesiones · completadas · puntuación media de comprensión.',
+    compareCell: (sessions: number, completed: string, teachBack: string) => `${sessions} · ${completed} · ${teachBack}`,
+    dimensions: {
+      procedure: 'Procedimiento',
+      ageGroup: 'Grupo de edad',
+      language: 'Idioma',
+      consultationMode: 'Tipo de sesión',
+    },
+    notGiven: 'No indicado',
+    modes: { education: 'Información', checkin: 'Control de recuperación' },
+    topicsTitle: 'Sobre qué preguntan los pacientes',
+    topicsHint: 'Sesiones por tema, y en cuántas el asistente no tenía información aprobada.',
+    contentGaps: (count: number) => `${count} sin cubrir`,
+    topics: {
+      fasting: 'Ayuno',
+      medication: 'Medicación',
+      anesthesia: 'Anestesia',
+      risks: 'Riesgos',
+      wound_care: 'Cuidado de la herida',
+      pain: 'Dolor',
+      activity: 'Actividad y recuperación',
+      symptoms: 'Síntomas',
+      logistics: 'Llegada y logística',
+      other: 'Otros',
+    },
+    connectionErrors: 'Errores de conexión',
+    errorTypes: {
+      token: 'Token de sesión',
+      network: 'Red',
+      quota: 'Cuota o límite de uso',
+      timeout: 'Tiempo de espera agotado',
+      closed: 'Cerrada por el servicio',
+      other: 'Otros',
+    },
+  },
+  audio: {
+    title: 'Ajustes de audio',
+    subtitle: 'Micrófono, altavoz y velocidad de voz',
+    intro: 'Elija el micrófono y el altavoz o los auriculares que se usarán en este dispositivo. Estos ajustes se guardan en este dispositivo.',
+    microphone: 'Micrófono',
+    speaker: 'Altavoz o auriculares',
+    systemDefault: 'Predeterminado del sistema',
+    unnamedMicrophone: (n: number) => `Micrófono ${n}`,
+    unnamedSpeaker: (n: number) => `Altavoz ${n}`,
+    testMicrophone: 'Probar micrófono',
+    stopTest: 'Detener prueba',
+    micLevel: 'Nivel del micrófono',
+    testHint: 'Hable con normalidad. La barra debería moverse mientras habla.',
+    testFailed: 'No se pudo abrir este micrófono. Compruebe que está conectado y que el navegador tiene permiso para usarlo.',
+    playTestSound: 'Reproducir sonido de prueba',
+    outputUnsupported: 'Este navegador siempre reproduce el sonido por el altavoz predeterminado del sistema.',
+    echoCancellation: 'Cancelación de eco',
+    noiseSuppression: 'Supresión de ruido',
+    hints: {
+      echoCancellation: 'Manténgala activada si usa un altavoz. Con auriculares se puede desactivar.',
+      noiseSuppression: 'Reduce el ruido de fondo, como el de una sala de espera concurrida.',
+    },
+    speed: 'Velocidad de voz',
+    volume: 'Volumen',
+    appliesNextCall: 'Los cambios de micrófono se aplican a partir de la próxima consulta. La velocidad y el volumen también se pueden cambiar durante la llamada.',
+  },
+  footer: {
+    copyright: (year: number) => `© ${year} AtosCare AI. Interfaz conforme con HIPAA.`,
+    disclaimer: (number: string) => `Aviso: Esta es una herramienta educativa de IA, no un médico. En caso de emergencia, llame al ${number}.`,
+    exportAudit: 'Descargar registro de auditoría (JSONL firmado)',
+    contentConsole: 'Consola de contenido para clínicos',
+    analytics: 'Análisis de uso',
+  },
+};
@@ -0,0 +1,429 @@
+import { UiStrings } from './en';
+
+export const hi: UiStrings = {
+  emergencyNumber: '112',
+  brand: {
+    tagline: 'सर्जिकल रोगी शिक्षा',
+  },
+  selection: {
+    heading: 'आज हम आपकी कैसे मदद कर सकते हैं?',
+    intro: 'अपनी आने वाली सर्जरी, ऑपरेशन से पहले के निर्देशों या रिकवरी के दिशानिर्देशों को समझने के लिए एक AI सहायक चुनें।',
+    languageLabel: 'भाषा',
+    procedureStep: '1. आपकी कौन सी सर्जरी होने वाली है?',
+    agentStep: '2. अपना सहायक चुनें',
+    select: 'चुनें',
+    bestFor: 'इसके लिए सबसे अच्छा:',
+    startConsultation: 'परामर्श शुरू करें',
+    chatByText: 'लिखना पसंद है? टेक्स्ट से चैट करें',
+    notAvailableIn: (language: string) => `${language} में उपलब्ध नहीं`,
+    connecting: 'सुरक्षित चिकित्सा लाइन से जोड़ा जा रहा है...',
+    agentConfigErrors: 'कुछ सहायक config/agents.json से लोड नहीं हो सके:',
+    guardrailConfigErrors: 'कुछ सुरक्षा नियम config/guardrails.json से लोड नहीं हो सके:',
+  },
+  call: {
+    activeAgent: 'AtosCare सक्रिय सहायक',
+    live: 'लाइव',
+    reconnecting: 'फिर से जुड़ रहा है',
+    reconnectingNotice: (attempt: number, max: number) =>
+      `कनेक्शन टूट गया। फिर से जोड़ा जा रहा है (प्रयास ${attempt} / ${max})... आपकी बातचीत वहीं से जारी रहेगी।`,
+    agentSpeaking: (name: string) => `${name} बोल रहे हैं`,
+    youAreSpeaking: 'आप बोल रहे हैं',
+    youAreMuted: 'आपका माइक बंद है',
+    idle: 'प्रतीक्षा में',
+    typeBelow: 'अपना प्रश्न नीचे लिखें',
+    capabilities: 'क्षमताएँ',
+    mute: 'माइक्रोफ़ोन बंद करें',
+    unmute: 'माइक्रोफ़ोन चालू करें',
+    holdToTalk: 'बोलने के लिए दबाए रखें',
+    holdToTalkHint: 'बोलने के लिए बटन दबाए रखें या स्पेस दबाएँ',
+    talking: 'बोल रहे हैं। भेजने के लिए छोड़ें',
+    listeningForSpeech: 'आवाज़ की प्रतीक्षा है',
+    sendingSpeech: 'आपकी आवाज़ भेजी जा रही है',
+    micModeLabel: 'माइक्रोफ़ोन मोड',
+    micModes: {
+      open: 'खुला माइक',
+      push_to_talk: 'दबाकर बोलें',
+      hands_free: 'हैंड्स-फ़्री',
+    },
+    readAloudOn: 'जवाब पढ़कर सुनाना बंद करें',
+    readAloudOff: 'जवाब पढ़कर सुनाएँ',
+    switchToVoice: 'आवाज़ पर जाएँ',
+    switchToTyping: 'लिखने पर जाएँ',
+    transferTo: 'कॉल ट्रांसफ़र करें',
+    transferToAgent: (name: string, role: string) => `कॉल ${name} (${role}) को ट्रांसफ़र करें`,
+    transferring: (name: string) => `${name} से जोड़ा जा रहा है। इस बातचीत के नोट्स उनके पास होंगे, इसलिए कुछ भी दोहराने की ज़रूरत नहीं है।`,
+    endCall: 'परामर्श समाप्त करें',
+  },
+  transcript: {
+    captionsTitle: 'लाइव कैप्शन',
+    captionsEmpty: 'बात करते समय कैप्शन यहाँ दिखाई देंगे।',
+    chatTitle: 'टेक्स्ट चैट',
+    chatEmpty: (name: string) => `अपनी सर्जरी के बारे में ${name} से कुछ भी पूछें।`,
+    label: 'प्रतिलेख',
+    you: 'आप',
+  },
+  composer: {
+    label: 'अपना प्रश्न लिखें',
+    placeholder: 'अपना प्रश्न लिखें...',
+    send: 'संदेश भेजें',
+  },
+  errors: {
+    chooseProcedureFirst: 'कृपया पहले अपनी सर्जरी चुनें।',
+    connectionLost: 'कनेक्शन टूट गया। कृपया फिर से प्रयास करें।',
+    failedToConnect: 'कनेक्ट नहीं हो सका',
+    micFallback: 'हम आपके माइक्रोफ़ोन तक नहीं पहुँच सके, इसलिए टेक्स्ट चैट शुरू कर दी गई है। आप अब भी जवाब सुन सकते हैं।',
+    micBlocked: 'माइक्रोफ़ोन की अनुमति बंद है। बोलने के लिए अपने ब्राउज़र की सेटिंग में इसकी अनुमति दें।',
+    micFailed: 'माइक्रोफ़ोन शुरू नहीं हो सका। कृपया अभी लिखकर बात जारी रखें।',
+    auditExportFailed: 'ऑडिट लॉग निर्यात नहीं हो सका। कृपया फिर से प्रयास करें।',
+  },
+  escalation: {
+    title: 'नर्सिंग टीम को सूचित कर दिया गया है',
+    whileYouWait: 'जब तक मदद आए:',
+    steps: [
+      'बिस्तर के पास का कॉल बटन दबाएँ या पास के किसी स्टाफ़ सदस्य को बताएँ।',
+      'अगर खून बह रहा है, तो साफ़ कपड़े से ज़ोर से दबाकर रखें।',
+      'नर्स के देखने तक स्थिर रहें और कुछ न खाएँ-पिएँ।',
+    ],
+    callEmergency: (number: string) => `अगर जान को खतरा है, तो ${number} पर कॉल करें`,
+    loggedAt: (time: string, ref: string) => `${time} पर दर्ज · संदर्भ ${ref}`,
+    acknowledge: 'मैं समझ गया/गई',
+    severity: {
+      moderate: 'मध्यम',
+      severe: 'गंभीर',
+      critical: 'अत्यंत गंभीर',
+    },
+    symptoms: {
+      pain: 'तेज़ दर्द',
+      bleeding: 'खून बहना',
+      breathing: 'साँस लेने में तकलीफ़',
+      fever_infection: 'बुखार या संक्रमण के लक्षण',
+      chest_cardiac: 'सीने या दिल से जुड़े लक्षण',
+      emotional_distress: 'भावनात्मक परेशानी',
+      other: 'तुरंत ध्यान देने वाली समस्या',
+    },
+  },
+  checklist: {
+    title: 'सर्जरी से पहले की चेकलिस्ट',
+    hint: 'उपवास की उलटी गिनती और टिक करने योग्य चेकलिस्ट पाने के लिए अपनी सर्जरी की तारीख और समय दर्ज करें।',
+    surgeryLabel: 'सर्जरी की तारीख और समय',
+    create: 'मेरी चेकलिस्ट बनाएँ',
+    reschedule: 'समय बदलें',
+    arrival: 'अस्पताल पहुँचें',
+    solidFood: 'आखिरी ठोस भोजन',
+    clearFluids: 'आखिरी साफ़ तरल',
+    noCutoff: 'अपने भर्ती पत्र का पालन करें',
+    remaining: (time: string) => `${time} में`,
+    passed: 'समय बीत गया',
+    days: (count: number) => `${count} दिन`,
+    progress: (done: number, total: number) => `${total} में से ${done} पूरे`,
+    categories: {
+      medication: 'दवाइयाँ',
+      bring: 'साथ लाने की चीज़ें',
+      logistics: 'व्यवस्थाएँ',
+      other: 'अन्य',
+    },
+    due: (time: string) => `${time} तक`,
+    addedByAgent: 'आपके सहायक ने जोड़ा',
+    addPlaceholder: 'अपना आइटम जोड़ें...',
+    add: 'आइटम जोड़ें',
+    remove: 'आइटम हटाएँ',
+    reset: 'चेकलिस्ट साफ़ करें',
+  },
+  recovery: {
+    modeLabel: 'आप क्या करना चाहेंगे?',
+    education: 'मेरी प्रक्रिया के बारे में पूछें',
+    checkIn: 'दैनिक रिकवरी चेक-इन',
+    title: 'रिकवरी चेक-इन',
+    hint: 'दैनिक चेक-इन शुरू करने के लिए अपने ऑपरेशन की तारीख दर्ज करें।',
+    surgeryDateLabel: 'ऑपरेशन की तारीख',
+    save: 'सहेजें',
+    today: (day: number) => `आज आपके ऑपरेशन के बाद का दिन ${day} है`,
+    day: (day: number) => `दिन ${day}`,
+    noRecords: 'अभी तक कोई चेक-इन नहीं। आज का चेक-इन शुरू करने के लिए एक सहायक चुनें।',
+    painTrend: 'दिन के अनुसार दर्द स्कोर',
+    progressTitle: 'आज का चेक-इन',
+    completed: 'पूरा',
+    inProgress: 'जारी है',
+    needsDate: 'चेक-इन शुरू करने से पहले अपने ऑपरेशन की तारीख दर्ज करें।',
+    questions: {
+      pain: 'दर्द',
+      wound: 'घाव',
+      fever: 'तापमान',
+      mobility: 'चलना-फिरना',
+      bowel: 'मल त्याग',
+    },
+    flags: {
+      green: 'अपेक्षा के अनुसार',
+      amber: 'ध्यान रखें',
+      red: 'ध्यान देने की ज़रूरत',
+    },
+    wound: {
+      clean_dry: 'साफ़ और सूखा',
+      mild_redness: 'थोड़ा लाल',
+      spreading_redness: 'लालिमा फैल रही है',
+      discharge: 'रिसाव',
+      wound_opening: 'खुल रहा है',
+    },
+    mobility: {
+      walking_unaided: 'बिना सहारे चल रहे हैं',
+      walking_with_aid: 'सहारे से चल रहे हैं',
+      bed_or_chair: 'बिस्तर या कुर्सी पर',
+    },
+    bowel: {
+      opened: 'हुआ',
+      not_opened: 'अभी नहीं हुआ',
+      diarrhoea: 'दस्त',
+    },
+    noReading: 'कोई रीडिंग नहीं',
+    feverish: 'बुखार जैसा लगता है',
+  },
+  teachBack: {
+    start: 'मेरी समझ जाँचें',
+    title: 'समझ की जाँच',
+    intro: 'कुछ सवालों के जवाब अपने शब्दों में दें।',
+    waiting: 'पहले सवाल की प्रतीक्षा...',
+    score: (percent: number) => `${percent}% समझा`,
+    grades: {
+      correct: 'समझ गए',
+      partial: 'आंशिक रूप से समझे',
+      incorrect: 'दोबारा देखें',
+    },
+    reinforce: 'इसे फिर से दोहराना उपयोगी होगा',
+    allClear: 'जाँची गई सभी बातें आपने समझ लीं।',
+    notTaken: 'इस सत्र में समझ की जाँच नहीं की गई।',
+  },
+  guardrail: {
+    disclaimer: 'याद रखें: यहाँ केवल सामान्य जानकारी दी जाती है। अपनी दवाओं, खुराक या निदान के बारे में कोई भी बात अपनी सर्जिकल टीम से ज़रूर पूछें।',
+    flagged: 'केवल सामान्य जानकारी। कृपया इसे अपनी देखभाल टीम से जाँच लें।',
+    englishOnly: 'सहायक के उत्तरों की स्वचालित सुरक्षा जाँच केवल अंग्रेज़ी में काम करती है। अपनी दवाओं, खुराक या निदान से जुड़ी हर बात अपनी सर्जिकल टीम से ज़रूर जाँच लें।',
+  },
+  profile: {
+    title: 'आपके बारे में',
+    optional: 'वैकल्पिक',
+    saved: 'इस डिवाइस पर सहेजा गया',
+    intro: 'अपनी सर्जरी के बारे में थोड़ा बताएँ ताकि सहायक वे सवाल दोबारा न पूछे जिनका जवाब आप दे चुके हैं। इससे केवल यह बदलता है कि सहायक किस सामान्य जानकारी पर ध्यान दे, चिकित्सा सलाह नहीं।',
+    procedure: 'प्रक्रिया',
+    chooseProcedure: 'अपनी प्रक्रिया चुनें',
+    language: 'पसंदीदा भाषा',
+    surgeryDate: 'आपके ऑपरेशन की तारीख',
+    daysSince: 'या ऑपरेशन को कितने दिन हुए',
+    inDays: (n: number) => `${n} दिन में`,
+    ageGroup: 'आयु वर्ग',
+    preferNotToSay: 'नहीं बताना चाहते',
+    ageGroups: {
+      under_18: '18 से कम',
+      '18_39': '18 से 39',
+      '40_64': '40 से 64',
+      '65_79': '65 से 79',
+      '80_plus': '80 या अधिक',
+    },
+    caregiver: 'क्या घर पर कोई वयस्क आपकी मदद के लिए है?',
+    yes: 'हाँ',
+    no: 'नहीं',
+    privacy: 'केवल इसी ब्राउज़र में सहेजा जाता है। हर परामर्श की शुरुआत में इसे आपके नाम के बिना सहायक के साथ साझा किया जाता है।',
+    save: 'सहेजें',
+    forget: 'मेरा डेटा भूल जाएँ',
+    forgetConfirm: 'क्या इस डिवाइस से आपकी प्रोफ़ाइल, चेकलिस्ट और रिकवरी चेक-इन मिटा दें?',
+    forgetYes: 'मिटाएँ',
+    cancel: 'रद्द करें',
+  },
+  recording: {
+    consentLabel: 'गुणवत्ता समीक्षा के लिए इस परामर्श को रिकॉर्ड करें',
+    consentDetail: 'आपकी आवाज़ और सहायक के जवाब केवल इसी ब्राउज़र में रखे जाते हैं। अंत में आप रिकॉर्डिंग डाउनलोड करके गुणवत्ता समीक्षा के लिए अपनी देखभाल टीम को दे सकते हैं। कॉल के दौरान आप इसे कभी भी रोककर मिटा सकते हैं।',
+    active: 'रिकॉर्डिंग जारी है',
+    discard: 'रिकॉर्डिंग रोकें और मिटाएँ',
+    download: 'रिकॉर्डिंग डाउनलोड करें (WAV)',
+  },
+  summary: {
+    title: 'आपके परामर्श का सारांश',
+    ended: 'परामर्श समाप्त हुआ',
+    procedure: 'प्रक्रिया',
+    assistant: 'सहायक',
+    date: 'तारीख',
+    duration: 'अवधि',
+    minutes: (count: number) => `${count} मिनट`,
+    preOpTitle: 'आपकी सर्जरी से पहले',
+    redFlagsTitle: 'यदि आप इनमें से कुछ देखें तो अपनी नर्सिंग टीम को कॉल करें',
+    discussed: 'आज चर्चा हुई',
+    escalationsTitle: 'इस सत्र में भेजे गए अलर्ट',
+    noEscalations: 'कोई अलर्ट नहीं भेजा गया।',
+    transcriptTitle: 'बातचीत',
+    disclaimer: 'यह सारांश केवल जानकारी के लिए है। हमेशा अपनी सर्जिकल टीम के निर्देशों का पालन करें।',
+    print: 'प्रिंट करें या PDF के रूप में सहेजें',
+    downloadMarkdown: 'टेक्स्ट के रूप में डाउनलोड करें (Markdown)',
+    downloadFhir: 'चिकित्सक रिकॉर्ड डाउनलोड करें (FHIR)',
+    done: 'नया परामर्श शुरू करें',
+    contentVersion: 'सामग्री संस्करण',
+    builtInContent: 'अंतर्निहित',
+  },
+  admin: {
+    title: 'क्लिनिकल सामग्री कंसोल',
+    backToApp: 'मरीज़ ऐप पर वापस जाएँ',
+    signInTitle: 'चिकित्सक साइन-इन',
+    signInIntro: 'पर्सोना प्रॉम्प्ट और प्रक्रिया की जानकारी में बदलाव मरीज़ों तक तभी पहुँचते हैं जब दूसरा चिकित्सक उनकी समीक्षा करके उन्हें स्वीकृत करे।',
+    name: 'नाम',
+    password: 'पासवर्ड',
+    signIn: 'साइन इन करें',
+    signOut: 'साइन आउट करें',
+    signedInAs: (name: string, roles: string) => `${name} के रूप में साइन इन (${roles})`,
+    roles: { author: 'लेखक', reviewer: 'समीक्षक' },
+    versions: 'संस्करण',
+    newDraft: 'लाइव सामग्री से नया ड्राफ़्ट',
+    noVersions: 'अभी कोई संस्करण नहीं। मरीज़ों को अंतर्निहित सामग्री मिलती है।',
+    selectVersion: 'बदलाव और इतिहास देखने के लिए एक संस्करण चुनें।',
+    version: (number: number) => `संस्करण ${number}`,
+    builtIn: 'अंतर्निहित सामग्री',
+    status: {
+      draft: 'ड्राफ़्ट',
+      in_review: 'समीक्षा में',
+      approved: 'स्वीकृत (लाइव)',
+      rejected: 'अस्वीकृत',
+      superseded: 'प्रतिस्थापित',
+    },
+    draftFromThis: 'इस संस्करण से नया ड्राफ़्ट',
+    author: 'लेखक',
+    reviewer: 'समीक्षक',
+    basedOn: 'आधार',
+    hash: 'सामग्री हैश (SHA-256)',
+    reviewNote: 'समीक्षा टिप्पणी',
+    reviewNoteHint: 'अस्वीकार करते समय ज़रूरी: बताएँ कि क्या बदलना है।',
+    field: 'संपादित करने का भाग',
+    baseInstruction: 'सभी सहायकों के लिए क्लिनिकल नियम',
+    personaPrompt: (name: string) => `पर्सोना प्रॉम्प्ट · ${name}`,
+    sections: {
+      description: 'यह क्या है',
+      duration: 'अवधि',
+      risks: 'जोखिम',
+      fasting: 'उपवास के नियम',
+      medicationHolds: 'रोकी जाने वाली दवाएँ',
+      woundCare: 'घाव की देखभाल',
+      redFlags: 'खतरे के संकेत',
+    },
+    preOpFields: {
+      arrivalMinutesBefore: 'कितने मिनट पहले पहुँचना है',
+      solidFoodHours: 'आख़िरी ठोस भोजन (पहुँचने से कितने घंटे पहले)',
+      clearFluidsHours: 'आख़िरी साफ़ तरल (पहुँचने से कितने घंटे पहले)',
+      bring: 'साथ क्या लाना है',
+    },
+    minutesHint: 'मिनटों की पूरी संख्या। चेकलिस्ट की उलटी गिनती इसी से चलती है।',
+    hoursHint: 'पहुँचने से पहले के घंटे। कोई तय सीमा न हो तो खाली छोड़ें।',
+    listHint: 'हर पंक्ति में एक बिंदु।',
+    emptyFields: (count: number) => `${count} भाग खाली हैं। सहेजने से पहले उन्हें भरें।`,
+    invalidFields: (count: number) => `ऑपरेशन से पहले की ${count} संख्याएँ सही नहीं हैं। सहेजने से पहले उन्हें ठीक करें।`,
+    save: 'ड्राफ़्ट सहेजें',
+    saved: 'ड्राफ़्ट सहेजा गया।',
+    unsavedChanges: 'बिना सहेजे बदलाव',
+    submit: 'समीक्षा के लिए भेजें',
+    approve: 'स्वीकृत करें और प्रकाशित करें',
+    reject: 'अस्वीकार करें',
+    approvedNotice: 'स्वीकृत। नए सत्र अब इसी संस्करण का उपयोग करते हैं।',
+    rejectedNotice: 'अस्वीकृत। इससे नया ड्राफ़्ट शुरू किया जा सकता है।',
+    ownVersion: 'यह संस्करण आपका लिखा हुआ है, इसलिए किसी दूसरे समीक्षक की स्वीकृति ज़रूरी है।',
+    awaitingReview: 'समीक्षक की प्रतीक्षा है।',
+    changesSince: (label: string) => `${label} से बदलाव`,
+    noChanges: 'कोई बदलाव नहीं।',
+    unchangedLines: (count: number) => `${count} अपरिवर्तित पंक्तियाँ`,
+    diffKinds: { same: 'अपरिवर्तित', added: 'जोड़ा गया', removed: 'हटाया गया' },
+    history: 'इतिहास',
+    events: {
+      created: 'बनाया गया',
+      edited: 'संपादित',
+      submitted: 'समीक्षा के लिए भेजा गया',
+      approved: 'स्वीकृत',
+      rejected: 'अस्वीकृत',
+      superseded: 'प्रतिस्थापित',
+    },
+  },
+  analytics: {
+    title: 'उपयोग विश्लेषण',
+    intro: 'इस डिवाइस पर हुए सत्रों के अनाम आँकड़े। कोई बातचीत या निजी जानकारी नहीं रखी जाती।',
+    from: 'से',
+    to: 'तक',
+    last7: 'पिछले 7 दिन',
+    last30: 'पिछले 30 दिन',
+    allTime: 'पूरा समय',
+    exportCsv: 'CSV निर्यात करें',
+    noSessions: 'इस अवधि में कोई सत्र नहीं।',
+    metrics: {
+      sessions: 'सत्र',
+      averageDuration: 'औसत अवधि',
+      firstResponse: 'पहला जवाब (माध्यिका)',
+      escalationRate: 'एस्केलेशन वाले सत्र',
+      interruptions: 'प्रति सत्र रुकावटें',
+      completionRate: 'कनेक्शन टूटे बिना पूरे हुए',
+      teachBack: 'समझ की जाँच का स्कोर',
+    },
+    seconds: (value: string) => `${value} सेकंड`,
+    byAgent: 'सहायक के अनुसार',
+    agent: 'सहायक',
+    compareTitle: 'कौन सा सहायक किन मरीज़ों के लिए बेहतर है',
+    compareBy: 'तुलना का आधार',
+    compareHint: 'हर खाने में: सत्र · पूरे हुए · समझ की जाँच का औसत स्कोर।',
+    compareCell: (sessions: number, completed: string, teachBack: string) => `${sessions} · ${completed} · ${teachBack}`,
+    dimensions: {
+      procedure: 'प्रक्रिया',
+      ageGroup: 'आयु वर्ग',
+      language: 'भाषा',
+      consultationMode: 'सत्र का प्रकार',
+    },
+    notGiven: 'नहीं बताया गया',
+    modes: { education: 'जानकारी', checkin: 'रिकवरी चेक-इन' },
+    topicsTitle: 'मरीज़ किस बारे में पूछते हैं',
+    topicsHint: 'हर विषय पर सत्र, और उनमें से कितनों में सहायक के पास स्वीकृत जानकारी नहीं थी।',
+    contentGaps: (count: number) => `${count} में जानकारी नहीं`,
+    topics: {
+      fasting: 'उपवास',
+      medication: 'दवाएँ',
+      anesthesia: 'एनेस्थीसिया',
+      risks: 'जोखिम',
+      wound_care: 'घाव की देखभाल',
+      pain: 'दर्द',
+      activity: 'गतिविधि और रिकवरी',
+      symptoms: 'लक्षण',
+      logistics: 'पहुँचना और व्यवस्था',
+      other: 'अन्य',
+    },
+    connectionErrors: 'कनेक्शन त्रुटियाँ',
+    errorTypes: {
+      token: 'सत्र टोकन',
+      network: 'नेटवर्क',
+      quota: 'कोटा या दर सीमा',
+      timeout: 'समय समाप्त',
+      closed: 'सेवा द्वारा बंद',
+      other: 'अन्य',
+    },
+  },
+  audio: {
+    title: 'ऑडियो सेटिंग',
+    subtitle: 'माइक्रोफ़ोन, स्पीकर और बोलने की गति',
+    intro: 'इस डिवाइस पर इस्तेमाल होने वाला माइक्रोफ़ोन और स्पीकर या हेडसेट चुनें। ये सेटिंग इसी डिवाइस पर सहेजी जाती हैं।',
+    microphone: 'माइक्रोफ़ोन',
+    speaker: 'स्पीकर या हेडसेट',
+    systemDefault: 'सिस्टम डिफ़ॉल्ट',
+    unnamedMicrophone: (n: number) => `माइक्रोफ़ोन ${n}`,
+    unnamedSpeaker: (n: number) => `स्पीकर ${n}`,
+    testMicrophone: 'माइक्रोफ़ोन जाँचें',
+    stopTest: 'जाँच रोकें',
+    micLevel: 'माइक्रोफ़ोन स्तर',
+    testHint: 'सामान्य रूप से बोलें। बोलते समय पट्टी हिलनी चाहिए।',
+    testFailed: 'यह माइक्रोफ़ोन खोला नहीं जा सका। जाँचें कि यह लगा हुआ है और ब्राउज़र को इसके इस्तेमाल की अनुमति है।',
+    playTestSound: 'जाँच की आवाज़ चलाएँ',
+    outputUnsupported: 'यह ब्राउज़र हमेशा सिस्टम के डिफ़ॉल्ट स्पीकर से ही आवाज़ चलाता है।',
+    echoCancellation: 'गूँज हटाना',
+    noiseSuppression: 'शोर कम करना',
+    hints: {
+      echoCancellation: 'लाउडस्पीकर इस्तेमाल करते समय इसे चालू रखें। हेडसेट के साथ इसे बंद किया जा सकता है।',
+      noiseSuppression: 'आसपास का शोर कम करता है, जैसे भीड़ वाले प्रतीक्षा कक्ष का।',
+    },
+    speed: 'बोलने की गति',
+    volume: 'आवाज़',
+    appliesNextCall: 'माइक्रोफ़ोन के बदलाव अगले परामर्श से लागू होंगे। गति और आवाज़ कॉल के दौरान भी बदली जा सकती हैं।',
+  },
+  footer: {
+    copyright: (year: number) => `© ${year} AtosCare AI. HIPAA अनुरूप इंटरफ़ेस।`,
+    disclaimer: (number: string) => `अस्वीकरण: यह एक AI शिक्षा उपकरण है, डॉक्टर नहीं। आपातकाल में ${number} पर कॉल करें।`,
+    exportAudit: 'ऑडिट लॉग डाउनलोड करें (हस्ताक्षरित JSONL)',
+    contentConsole: 'चिकित्सक सामग्री कंसोल',
+    analytics: 'उपयोग विश्लेषण',
+  },
+};
@@ -0,0 +1,44 @@
+import { LanguageOption } from '../types';
+import { UiStrings, en } from './en';
+import { hi } from './hi';
+import { mr } from './mr';
+import { es } from './es';
+
+export type { UiStrings };
+
+export const DEFAULT_LANGUAGE = 'en-US';
+
+export const LANGUAGES: LanguageOption[] = [
+  { code: 'en-US', label: 'English', nativeName: 'English' },
+  { code: 'hi-IN', label: 'Hindi', nativeName: 'हिन्दी' },
+  { code: 'mr-IN', label: 'Marathi', nativeName: 'मराठी' },
+  { code: 'es-US', label: 'Spanish', nativeName: 'Español' },
+];
+
+const BUNDLES: Record<string, UiStrings> = {
+  'en-US': en,
+  'hi-IN': hi,
+  'mr-IN': mr,
+  'es-US': es,
+};
+
+export function getLanguage(code: string): LanguageOption {
+  return LANGUAGES.find(l => l.code === code) ?? LANGUAGES[0];
+}
+
+export function getStrings(code: string): UiStrings {
+  return BUNDLES[code] ?? en;
+}
+
+/**
+ * Picks the first supported language from the browser's preferences,
+ * matching on the primary subtag so "es-MX" still selects Spanish.
+ */
+export function detectLanguage(preferred: readonly string[]): string {
+  for (const tag of preferred) {
+    const primary = tag.split('-')[0];
+    const match = LANGUAGES.find(l => l.code === tag) ?? LANGUAGES.find(l => l.code.split('-')[0] === primary);
+    if (match) return match.code;
+  }
+  return DEFAULT_LANGUAGE;
+}
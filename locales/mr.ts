@@ -0,0 +1,429 @@
+import { UiStrings } from './en';
+
+export const mr: UiStrings = {
+  emergencyNumber: '112',
+  brand: {
+    tagline: 'शस्त्रक्रिया रुग्ण शिक्षण',
+  },
+  selection: {
+    heading: 'आज आम्ही तुम्हाला कशी मदत करू शकतो?',
+    intro: 'तुमची आगामी शस्त्रक्रिया, शस्त्रक्रियेपूर्वीच्या सूचना किंवा बरे होण्याच्या मार्गदर्शक सूचना समजून घेण्यासाठी एक AI सहाय्यक निवडा.',
+    languageLabel: 'भाषा',
+    procedureStep: '1. तुमची कोणती शस्त्रक्रिया होणार आहे?',
+    agentStep: '2. तुमचा सहाय्यक निवडा',
+    select: 'निवडा',
+    bestFor: 'यासाठी सर्वोत्तम:',
+    startConsultation: 'सल्लामसलत सुरू करा',
+    chatByText: 'लिहायला आवडते? मजकुराद्वारे चॅट करा',
+    notAvailableIn: (language: string) => `${language} मध्ये उपलब्ध नाही`,
+    connecting: 'सुरक्षित वैद्यकीय लाइनशी जोडत आहोत...',
+    agentConfigErrors: 'काही सहाय्यक config/agents.json मधून लोड होऊ शकले नाहीत:',
+    guardrailConfigErrors: 'काही सुरक्षा नियम config/guardrails.json मधून लोड होऊ शकले नाहीत:',
+  },
+  call: {
+    activeAgent: 'AtosCare सक्रिय सहाय्यक',
+    live: 'लाइव्ह',
+    reconnecting: 'पुन्हा जोडत आहे',
+    reconnectingNotice: (attempt: number, max: number) =>
+      `कनेक्शन तुटले. पुन्हा जोडत आहोत (प्रयत्न ${attempt} / ${max})... तुमचे संभाषण जिथे थांबले होते तिथूनच पुढे सुरू होईल.`,
+    agentSpeaking: (name: string) => `${name} बोलत आहेत`,
+    youAreSpeaking: 'तुम्ही बोलत आहात',
+    youAreMuted: 'तुमचा माइक बंद आहे',
+    idle: 'प्रतीक्षेत',
+    typeBelow: 'तुमचा प्रश्न खाली लिहा',
+    capabilities: 'क्षमता',
+    mute: 'मायक्रोफोन बंद करा',
+    unmute: 'मायक्रोफोन सुरू करा',
+    holdToTalk: 'बोलण्यासाठी दाबून ठेवा',
+    holdToTalkHint: 'बोलण्यासाठी बटण दाबून ठेवा किंवा स्पेस दाबा',
+    talking: 'बोलत आहात. पाठवण्यासाठी सोडा',
+    listeningForSpeech: 'आवाजाची वाट पाहत आहे',
+    sendingSpeech: 'तुमचा आवाज पाठवला जात आहे',
+    micModeLabel: 'मायक्रोफोन मोड',
+    micModes: {
+      open: 'खुला माइक',
+      push_to_talk: 'दाबून बोला',
+      hands_free: 'हँड्स-फ्री',
+    },
+    readAloudOn: 'उत्तरे वाचून दाखवणे थांबवा',
+    readAloudOff: 'उत्तरे वाचून दाखवा',
+    switchToVoice: 'आवाजावर जा',
+    switchToTyping: 'लिहिण्यावर जा',
+    transferTo: 'कॉल हस्तांतरित करा',
+    transferToAgent: (name: string, role: string) => `कॉल ${name} (${role}) यांच्याकडे हस्तांतरित करा`,
+    transferring: (name: string) => `${name} यांच्याशी जोडले जात आहे. या संभाषणाच्या नोंदी त्यांच्याकडे असतील, त्यामुळे काहीही पुन्हा सांगण्याची गरज नाही.`,
+    endCall: 'सल्लामसलत संपवा',
+  },
+  transcript: {
+    captionsTitle: 'लाइव्ह कॅप्शन',
+    captionsEmpty: 'तुम्ही बोलताना कॅप्शन येथे दिसतील.',
+    chatTitle: 'मजकूर चॅट',
+    chatEmpty: (name: string) => `तुमच्या शस्त्रक्रियेबद्दल ${name} यांना काहीही विचारा.`,
+    label: 'लिप्यंतर',
+    you: 'तुम्ही',
+  },
+  composer: {
+    label: 'तुमचा प्रश्न लिहा',
+    placeholder: 'तुमचा प्रश्न लिहा...',
+    send: 'संदेश पाठवा',
+  },
+  errors: {
+    chooseProcedureFirst: 'कृपया आधी तुमची शस्त्रक्रिया निवडा.',
+    connectionLost: 'कनेक्शन तुटले. कृपया पुन्हा प्रयत्न करा.',
+    failedToConnect: 'जोडता आले नाही',
+    micFallback: 'आम्हाला तुमचा मायक्रोफोन वापरता आला नाही, म्हणून मजकूर चॅट सुरू केली आहे. तुम्ही अजूनही उत्तरे ऐकू शकता.',
+    micBlocked: 'मायक्रोफोनची परवानगी बंद आहे. बोलण्यासाठी ब्राउझर सेटिंग्जमध्ये परवानगी द्या.',
+    micFailed: 'मायक्रोफोन सुरू होऊ शकला नाही. कृपया सध्या लिहून बोलणे सुरू ठेवा.',
+    auditExportFailed: 'ऑडिट लॉग निर्यात करता आला नाही. कृपया पुन्हा प्रयत्न करा.',
+  },
+  escalation: {
+    title: 'नर्सिंग टीमला कळवले आहे',
+    whileYouWait: 'मदत येईपर्यंत:',
+    steps: [
+      'बेडजवळचे कॉल बटण दाबा किंवा जवळच्या कर्मचाऱ्याला सांगा.',
+      'रक्तस्राव होत असल्यास स्वच्छ कापडाने घट्ट दाबून ठेवा.',
+      'नर्स येईपर्यंत शांत पडून राहा आणि काहीही खाऊ-पिऊ नका.',
+    ],
+    callEmergency: (number: string) => `जिवाला धोका असल्यास ${number} वर कॉल करा`,
+    loggedAt: (time: string, ref: string) => `${time} वाजता नोंद · संदर्भ ${ref}`,
+    acknowledge: 'मला समजले',
+    severity: {
+      moderate: 'मध्यम',
+      severe: 'गंभीर',
+      critical: 'अतिगंभीर',
+    },
+    symptoms: {
+      pain: 'तीव्र वेदना',
+      bleeding: 'रक्तस्राव',
+      breathing: 'श्वास घेण्यास त्रास',
+      fever_infection: 'ताप किंवा संसर्गाची लक्षणे',
+      chest_cardiac: 'छाती किंवा हृदयाशी संबंधित लक्षणे',
+      emotional_distress: 'भावनिक त्रास',
+      other: 'तातडीची समस्या',
+    },
+  },
+  checklist: {
+    title: 'शस्त्रक्रियेपूर्वीची यादी',
+    hint: 'उपवासाची उलटगणती आणि खूण करता येणारी यादी मिळवण्यासाठी तुमच्या शस्त्रक्रियेची तारीख आणि वेळ भरा.',
+    surgeryLabel: 'शस्त्रक्रियेची तारीख आणि वेळ',
+    create: 'माझी यादी तयार करा',
+    reschedule: 'वेळ बदला',
+    arrival: 'रुग्णालयात पोहोचा',
+    solidFood: 'शेवटचे घन अन्न',
+    clearFluids: 'शेवटचे स्वच्छ द्रव',
+    noCutoff: 'तुमच्या दाखल पत्राचे पालन करा',
+    remaining: (time: string) => `${time} मध्ये`,
+    passed: 'वेळ निघून गेली',
+    days: (count: number) => `${count} दिवस`,
+    progress: (done: number, total: number) => `${total} पैकी ${done} पूर्ण`,
+    categories: {
+      medication: 'औषधे',
+      bring: 'सोबत आणायच्या वस्तू',
+      logistics: 'व्यवस्था',
+      other: 'इतर',
+    },
+    due: (time: string) => `${time} पर्यंत`,
+    addedByAgent: 'तुमच्या सहाय्यकाने जोडले',
+    addPlaceholder: 'तुमची स्वतःची नोंद जोडा...',
+    add: 'नोंद जोडा',
+    remove: 'नोंद काढा',
+    reset: 'यादी साफ करा',
+  },
+  recovery: {
+    modeLabel: 'तुम्हाला काय करायचे आहे?',
+    education: 'माझ्या प्रक्रियेबद्दल विचारा',
+    checkIn: 'दैनंदिन बरे होण्याची तपासणी',
+    title: 'बरे होण्याच्या तपासण्या',
+    hint: 'दैनंदिन तपासणी सुरू करण्यासाठी तुमच्या शस्त्रक्रियेची तारीख भरा.',
+    surgeryDateLabel: 'शस्त्रक्रियेची तारीख',
+    save: 'जतन करा',
+    today: (day: number) => `आज तुमच्या शस्त्रक्रियेनंतरचा दिवस ${day} आहे`,
+    day: (day: number) => `दिवस ${day}`,
+    noRecords: 'अजून कोणतीही तपासणी नाही. आजची तपासणी सुरू करण्यासाठी सहाय्यक निवडा.',
+    painTrend: 'दिवसानुसार वेदना गुण',
+    progressTitle: 'आजची तपासणी',
+    completed: 'पूर्ण',
+    inProgress: 'सुरू आहे',
+    needsDate: 'तपासणी सुरू करण्यापूर्वी तुमच्या शस्त्रक्रियेची तारीख भरा.',
+    questions: {
+      pain: 'वेदना',
+      wound: 'जखम',
+      fever: 'तापमान',
+      mobility: 'हालचाल',
+      bowel: 'शौच',
+    },
+    flags: {
+      green: 'अपेक्षेप्रमाणे',
+      amber: 'लक्ष ठेवा',
+      red: 'लक्ष देणे आवश्यक',
+    },
+    wound: {
+      clean_dry: 'स्वच्छ आणि कोरडी',
+      mild_redness: 'थोडी लाल',
+      spreading_redness: 'लालसरपणा पसरत आहे',
+      discharge: 'स्राव',
+      wound_opening: 'उघडत आहे',
+    },
+    mobility: {
+      walking_unaided: 'आधाराशिवाय चालत आहात',
+      walking_with_aid: 'आधाराने चालत आहात',
+      bed_or_chair: 'पलंग किंवा खुर्चीवर',
+    },
+    bowel: {
+      opened: 'झाले',
+      not_opened: 'अजून झाले नाही',
+      diarrhoea: 'जुलाब',
+    },
+    noReading: 'नोंद नाही',
+    feverish: 'ताप असल्यासारखे वाटते',
+  },
+  teachBack: {
+    start: 'माझी समज तपासा',
+    title: 'समज तपासणी',
+    intro: 'काही प्रश्नांची उत्तरे तुमच्या शब्दांत द्या.',
+    waiting: 'पहिल्या प्रश्नाची वाट पाहत आहे...',
+    score: (percent: number) => `${percent}% समजले`,
+    grades: {
+      correct: 'समजले',
+      partial: 'अंशतः समजले',
+      incorrect: 'पुन्हा पाहा',
+    },
+    reinforce: 'हे पुन्हा पाहणे उपयुक्त ठरेल',
+    allClear: 'तपासलेले सर्व मुद्दे तुम्हाला समजले.',
+    notTaken: 'या सत्रात समज तपासणी झाली नाही.',
+  },
+  guardrail: {
+    disclaimer: 'लक्षात ठेवा: येथे फक्त सामान्य माहिती दिली जाते. तुमची औषधे, डोस किंवा निदान याबद्दल काहीही तुमच्या सर्जिकल टीमकडून नक्की तपासा.',
+    flagged: 'फक्त सामान्य माहिती. कृपया हे तुमच्या काळजी टीमकडून तपासा.',
+    englishOnly: 'सहाय्यकाच्या उत्तरांची स्वयंचलित सुरक्षा तपासणी फक्त इंग्रजीत काम करते. तुमची औषधे, डोस किंवा निदान याबद्दलची प्रत्येक गोष्ट तुमच्या शस्त्रक्रिया टीमकडून नक्की तपासा.',
+  },
+  profile: {
+    title: 'तुमच्याबद्दल',
+    optional: 'ऐच्छिक',
+    saved: 'या डिव्हाइसवर जतन केले',
+    intro: 'तुमच्या शस्त्रक्रियेबद्दल थोडी माहिती द्या, म्हणजे सहाय्यक तुम्ही आधीच उत्तर दिलेले प्रश्न पुन्हा विचारणार नाही. यामुळे फक्त सहाय्यक कोणत्या सामान्य माहितीवर भर देतो हे बदलते, वैद्यकीय सल्ला नाही.',
+    procedure: 'प्रक्रिया',
+    chooseProcedure: 'तुमची प्रक्रिया निवडा',
+    language: 'पसंतीची भाषा',
+    surgeryDate: 'तुमच्या ऑपरेशनची तारीख',
+    daysSince: 'किंवा ऑपरेशनला किती दिवस झाले',
+    inDays: (n: number) => `${n} दिवसांत`,
+    ageGroup: 'वयोगट',
+    preferNotToSay: 'सांगू इच्छित नाही',
+    ageGroups: {
+      under_18: '18 पेक्षा कमी',
+      '18_39': '18 ते 39',
+      '40_64': '40 ते 64',
+      '65_79': '65 ते 79',
+      '80_plus': '80 किंवा अधिक',
+    },
+    caregiver: 'घरी तुमच्या मदतीसाठी कोणी प्रौढ व्यक्ती आहे का?',
+    yes: 'हो',
+    no: 'नाही',
+    privacy: 'फक्त याच ब्राउझरमध्ये जतन केले जाते. प्रत्येक सल्ल्याच्या सुरुवातीला ते तुमच्या नावाशिवाय सहाय्यकाला दिले जाते.',
+    save: 'जतन करा',
+    forget: 'माझा डेटा विसरा',
+    forgetConfirm: 'या डिव्हाइसवरून तुमची प्रोफाइल, चेकलिस्ट आणि रिकव्हरी चेक-इन हटवायचे?',
+    forgetYes: 'हटवा',
+    cancel: 'रद्द करा',
+  },
+  recording: {
+    consentLabel: 'गुणवत्ता तपासणीसाठी हा सल्ला रेकॉर्ड करा',
+    consentDetail: 'तुमचा आवाज आणि सहाय्यकाची उत्तरे फक्त याच ब्राउझरमध्ये ठेवली जातात. शेवटी तुम्ही रेकॉर्डिंग डाउनलोड करून गुणवत्ता तपासणीसाठी तुमच्या काळजी टीमला देऊ शकता. कॉलदरम्यान तुम्ही ते कधीही थांबवून हटवू शकता.',
+    active: 'रेकॉर्डिंग सुरू आहे',
+    discard: 'रेकॉर्डिंग थांबवा आणि हटवा',
+    download: 'रेकॉर्डिंग डाउनलोड करा (WAV)',
+  },
+  summary: {
+    title: 'तुमच्या सल्लामसलतीचा सारांश',
+    ended: 'सल्लामसलत संपली',
+    procedure: 'प्रक्रिया',
+    assistant: 'सहाय्यक',
+    date: 'तारीख',
+    duration: 'कालावधी',
+    minutes: (count: number) => `${count} मिनिटे`,
+    preOpTitle: 'तुमच्या शस्त्रक्रियेपूर्वी',
+    redFlagsTitle: 'यापैकी काही जाणवल्यास तुमच्या नर्सिंग टीमला कॉल करा',
+    discussed: 'आज चर्चा झाली',
+    escalationsTitle: 'या सत्रात पाठवलेले अलर्ट',
+    noEscalations: 'कोणताही अलर्ट पाठवला गेला नाही.',
+    transcriptTitle: 'संभाषण',
+    disclaimer: 'हा सारांश फक्त माहितीसाठी आहे. नेहमी तुमच्या शस्त्रक्रिया टीमच्या सूचनांचे पालन करा.',
+    print: 'प्रिंट करा किंवा PDF म्हणून जतन करा',
+    downloadMarkdown: 'मजकूर म्हणून डाउनलोड करा (Markdown)',
+    downloadFhir: 'डॉक्टरांसाठी नोंद डाउनलोड करा (FHIR)',
+    done: 'नवीन सल्लामसलत सुरू करा',
+    contentVersion: 'मजकूर आवृत्ती',
+    builtInContent: 'अंगभूत',
+  },
+  admin: {
+    title: 'क्लिनिकल मजकूर कन्सोल',
+    backToApp: 'रुग्ण ॲपवर परत जा',
+    signInTitle: 'डॉक्टर साइन-इन',
+    signInIntro: 'पर्सोना प्रॉम्प्ट आणि प्रक्रियेच्या माहितीतील बदल दुसऱ्या डॉक्टरांनी तपासून मंजूर केल्यानंतरच रुग्णांपर्यंत पोहोचतात.',
+    name: 'नाव',
+    password: 'पासवर्ड',
+    signIn: 'साइन इन करा',
+    signOut: 'साइन आउट करा',
+    signedInAs: (name: string, roles: string) => `${name} म्हणून साइन इन (${roles})`,
+    roles: { author: 'लेखक', reviewer: 'परीक्षक' },
+    versions: 'आवृत्त्या',
+    newDraft: 'लाइव्ह मजकुरातून नवीन मसुदा',
+    noVersions: 'अद्याप कोणतीही आवृत्ती नाही. रुग्णांना अंगभूत मजकूर मिळतो.',
+    selectVersion: 'बदल आणि इतिहास पाहण्यासाठी एक आवृत्ती निवडा.',
+    version: (number: number) => `आवृत्ती ${number}`,
+    builtIn: 'अंगभूत मजकूर',
+    status: {
+      draft: 'मसुदा',
+      in_review: 'पुनरावलोकनात',
+      approved: 'मंजूर (लाइव्ह)',
+      rejected: 'नाकारलेले',
+      superseded: 'बदलले गेलेले',
+    },
+    draftFromThis: 'या आवृत्तीतून नवीन मसुदा',
+    author: 'लेखक',
+    reviewer: 'परीक्षक',
+    basedOn: 'आधार',
+    hash: 'मजकूर हॅश (SHA-256)',
+    reviewNote: 'पुनरावलोकन टीप',
+    reviewNoteHint: 'नाकारताना आवश्यक: काय बदलायचे ते सांगा.',
+    field: 'संपादित करायचा भाग',
+    baseInstruction: 'सर्व सहाय्यकांसाठी क्लिनिकल नियम',
+    personaPrompt: (name: string) => `पर्सोना प्रॉम्प्ट · ${name}`,
+    sections: {
+      description: 'हे काय आहे',
+      duration: 'कालावधी',
+      risks: 'धोके',
+      fasting: 'उपवासाचे नियम',
+      medicationHolds: 'थांबवायची औषधे',
+      woundCare: 'जखमेची काळजी',
+      redFlags: 'धोक्याची लक्षणे',
+    },
+    preOpFields: {
+      arrivalMinutesBefore: 'किती मिनिटे आधी पोहोचायचे',
+      solidFoodHours: 'शेवटचे घन अन्न (पोहोचण्यापूर्वी किती तास)',
+      clearFluidsHours: 'शेवटचे स्वच्छ द्रव (पोहोचण्यापूर्वी किती तास)',
+      bring: 'सोबत काय आणायचे',
+    },
+    minutesHint: 'मिनिटांची पूर्ण संख्या. चेकलिस्टची उलटगणती यावरून चालते.',
+    hoursHint: 'पोहोचण्यापूर्वीचे तास. ठरावीक मर्यादा नसल्यास रिकामे ठेवा.',
+    listHint: 'प्रत्येक ओळीत एक मुद्दा.',
+    emptyFields: (count: number) => `${count} भाग रिकामे आहेत. जतन करण्यापूर्वी ते भरा.`,
+    invalidFields: (count: number) => `शस्त्रक्रियेपूर्वीच्या ${count} संख्या योग्य नाहीत. जतन करण्यापूर्वी त्या दुरुस्त करा.`,
+    save: 'मसुदा जतन करा',
+    saved: 'मसुदा जतन झाला.',
+    unsavedChanges: 'जतन न केलेले बदल',
+    submit: 'पुनरावलोकनासाठी पाठवा',
+    approve: 'मंजूर करा आणि प्रकाशित करा',
+    reject: 'नाकारा',
+    approvedNotice: 'मंजूर. नवीन सत्रे आता ही आवृत्ती वापरतात.',
+    rejectedNotice: 'नाकारले. लेखक यातून नवीन मसुदा सुरू करू शकतात.',
+    ownVersion: 'ही आवृत्ती तुम्ही लिहिली आहे, त्यामुळे दुसऱ्या परीक्षकांची मंजुरी आवश्यक आहे.',
+    awaitingReview: 'परीक्षकांची प्रतीक्षा आहे.',
+    changesSince: (label: string) => `${label} पासूनचे बदल`,
+    noChanges: 'कोणताही बदल नाही.',
+    unchangedLines: (count: number) => `${count} न बदललेल्या ओळी`,
+    diffKinds: { same: 'न बदललेले', added: 'जोडलेले', removed: 'काढलेले' },
+    history: 'इतिहास',
+    events: {
+      created: 'तयार केले',
+      edited: 'संपादित',
+      submitted: 'पुनरावलोकनासाठी पाठवले',
+      approved: 'मंजूर',
+      rejected: 'नाकारले',
+      superseded: 'बदलले गेले',
+    },
+  },
+  analytics: {
+    title: 'वापर विश्लेषण',
+    intro: 'या डिव्हाइसवरील सत्रांची अनामिक आकडेवारी. कोणतेही संभाषण किंवा वैयक्तिक माहिती ठेवली जात नाही.',
+    from: 'पासून',
+    to: 'पर्यंत',
+    last7: 'मागील 7 दिवस',
+    last30: 'मागील 30 दिवस',
+    allTime: 'सर्व काळ',
+    exportCsv: 'CSV निर्यात करा',
+    noSessions: 'या कालावधीत कोणतेही सत्र नाही.',
+    metrics: {
+      sessions: 'सत्रे',
+      averageDuration: 'सरासरी कालावधी',
+      firstResponse: 'पहिला प्रतिसाद (मध्यक)',
+      escalationRate: 'एस्केलेशन असलेली सत्रे',
+      interruptions: 'प्रति सत्र व्यत्यय',
+      completionRate: 'कनेक्शन न तुटता पूर्ण',
+      teachBack: 'समज तपासणीचे गुण',
+    },
+    seconds: (value: string) => `${value} सेकंद`,
+    byAgent: 'सहाय्यकानुसार',
+    agent: 'सहाय्यक',
+    compareTitle: 'कोणता सहाय्यक कोणत्या रुग्णांसाठी चांगला आहे',
+    compareBy: 'तुलनेचा आधार',
+    compareHint: 'प्रत्येक चौकटीत: सत्रे · पूर्ण · समज तपासणीचे सरासरी गुण.',
+    compareCell: (sessions: number, completed: string, teachBack: string) => `${sessions} · ${completed} · ${teachBack}`,
+    dimensions: {
+      procedure: 'प्रक्रिया',
+      ageGroup: 'वयोगट',
+      language: 'भाषा',
+      consultationMode: 'सत्राचा प्रकार',
+    },
+    notGiven: 'दिलेले नाही',
+    modes: { education: 'माहिती', checkin: 'रिकव्हरी चेक-इन' },
+    topicsTitle: 'रुग्ण कशाबद्दल विचारतात',
+    topicsHint: 'प्रत्येक विषयावरील सत्रे, आणि त्यापैकी किती सत्रांत सहाय्यकाकडे मंजूर माहिती नव्हती.',
+    contentGaps: (count: number) => `${count} मध्ये माहिती नाही`,
+    topics: {
+      fasting: 'उपवास',
+      medication: 'औषधे',
+      anesthesia: 'भूल',
+      risks: 'धोके',
+      wound_care: 'जखमेची काळजी',
+      pain: 'वेदना',
+      activity: 'हालचाल आणि रिकव्हरी',
+      symptoms: 'लक्षणे',
+      logistics: 'पोहोचणे आणि व्यवस्था',
+      other: 'इतर',
+    },
+    connectionErrors: 'कनेक्शन त्रुटी',
+    errorTypes: {
+      token: 'सत्र टोकन',
+      network: 'नेटवर्क',
+      quota: 'कोटा किंवा दर मर्यादा',
+      timeout: 'वेळ संपली',
+      closed: 'सेवेने बंद केले',
+      other: 'इतर',
+    },
+  },
+  audio: {
+    title: 'ऑडिओ सेटिंग्ज',
+    subtitle: 'मायक्रोफोन, स्पीकर आणि बोलण्याचा वेग',
+    intro: 'या डिव्हाइसवर वापरायचा मायक्रोफोन आणि स्पीकर किंवा हेडसेट निवडा. ही सेटिंग्ज याच डिव्हाइसवर जतन केली जातात.',
+    microphone: 'मायक्रोफोन',
+    speaker: 'स्पीकर किंवा हेडसेट',
+    systemDefault: 'सिस्टम डीफॉल्ट',
+    unnamedMicrophone: (n: number) => `मायक्रोफोन ${n}`,
+    unnamedSpeaker: (n: number) => `स्पीकर ${n}`,
+    testMicrophone: 'मायक्रोफोन तपासा',
+    stopTest: 'तपासणी थांबवा',
+    micLevel: 'मायक्रोफोन पातळी',
+    testHint: 'नेहमीप्रमाणे बोला. बोलताना पट्टी हलायला हवी.',
+    testFailed: 'हा मायक्रोफोन उघडता आला नाही. तो जोडलेला आहे आणि ब्राउझरला तो वापरण्याची परवानगी आहे का ते तपासा.',
+    playTestSound: 'चाचणी आवाज वाजवा',
+    outputUnsupported: 'हा ब्राउझर नेहमी सिस्टमच्या डीफॉल्ट स्पीकरवरूनच आवाज वाजवतो.',
+    echoCancellation: 'प्रतिध्वनी काढणे',
+    noiseSuppression: 'आवाज कमी करणे',
+    hints: {
+      echoCancellation: 'लाउडस्पीकर वापरताना हे चालू ठेवा. हेडसेटसोबत हे बंद करता येते.',
+      noiseSuppression: 'आजूबाजूचा गोंगाट कमी करते, उदा. गर्दीच्या प्रतीक्षा कक्षातील.',
+    },
+    speed: 'बोलण्याचा वेग',
+    volume: 'आवाजाची पातळी',
+    appliesNextCall: 'मायक्रोफोनमधील बदल पुढील सल्लामसलतीपासून लागू होतील. वेग आणि आवाजाची पातळी कॉलदरम्यानही बदलता येते.',
+  },
+  footer: {
+    copyright: (year: number) => `© ${year} AtosCare AI. HIPAA अनुरूप इंटरफेस.`,
+    disclaimer: (number: string) => `अस्वीकरण: हे एक AI शिक्षण साधन आहे, डॉक्टर नाही. आपत्कालीन परिस्थितीत ${number} वर कॉल करा.`,
+    exportAudit: 'ऑडिट लॉग डाउनलोड करा (स्वाक्षरीकृत JSONL)',
+    contentConsole: 'डॉक्टरांसाठी मजकूर कन्सोल',
+    analytics: 'वापर विश्लेषण',
+  },
+};
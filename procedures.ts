@@ -0,0 +1,260 @@
+import { Procedure } from './types';
+
+// Approved education content. Agents may only explain what is written here.
+export const PROCEDURES: Procedure[] = [
+  {
+    id: 'lap-chole',
+    name: 'Laparoscopic Cholecystectomy',
+    specialty: 'General Surgery',
+    translations: {
+      'hi-IN': { name: 'लैप्रोस्कोपिक पित्ताशय निकालना (कोलेसिस्टेक्टॉमी)', specialty: 'जनरल सर्जरी' },
+      'mr-IN': { name: 'लॅप्रोस्कोपिक पित्ताशय काढणे (कोलेसिस्टेक्टॉमी)', specialty: 'जनरल सर्जरी' },
+      'es-US': { name: 'Colecistectomía laparoscópica', specialty: 'Cirugía general' },
+    },
+    sections: {
+      description:
+        'Keyhole removal of the gallbladder. The surgeon makes three or four small cuts in the abdomen, inflates it with carbon dioxide gas and removes the gallbladder using a camera and fine instruments. It is done under general anesthesia.',
+      duration: 'Usually 1 to 2 hours. Most patients go home the same day or the next morning.',
+      risks: [
+        'Bleeding or infection at the cut sites',
+        'Bile leak from the area where the gallbladder was attached',
+        'Injury to the bile duct or bowel (uncommon)',
+        'Shoulder-tip pain from the gas, which settles within a few days',
+        'Conversion to open surgery if keyhole surgery is not safe',
+      ],
+      fasting: [
+        'No solid food for 6 hours before your arrival time',
+        'Clear fluids such as water are allowed until 2 hours before arrival',
+        'No chewing gum or sweets on the morning of surgery',
+      ],
+      medicationHolds: [
+        'Blood thinners are usually paused before surgery. Your surgical team will tell you exactly when',
+        'Diabetes medicines often need adjusting on the day of surgery. Follow the plan from your pre-op clinic',
+        'Continue other regular medicines unless your team tells you otherwise',
+      ],
+      woundCare: [
+        'Keep dressings clean and dry for 48 hours',
+        'You may shower after 48 hours. Pat the wounds dry and do not soak in a bath',
+        'Avoid heavy lifting for 2 weeks',
+      ],
+      redFlags: [
+        'Yellowing of the skin or eyes',
+        'Fever above 38°C (100.4°F) or shivering',
+        'Severe or worsening abdominal pain',
+        'Redness, swelling or discharge from a wound',
+        'Persistent vomiting',
+      ],
+    },
+    preOp: {
+      arrivalMinutesBefore: 90,
+      solidFoodHours: 6,
+      clearFluidsHours: 2,
+      bring: [
+        'Your admission letter and photo ID',
+        'A list of your regular medicines',
+        'Loose, comfortable clothes to go home in',
+        'An adult to drive you home and stay with you for 24 hours',
+      ],
+    },
+    recovery: {
+      painAmber: 5,
+      painRed: 8,
+      feverAmberC: 37.8,
+      feverRedC: 38,
+      unaidedWalkingDay: 2,
+      bedboundAmberDay: 1,
+      bedboundRedDay: 3,
+      bowelsOpenDay: 3,
+    },
+  },
+  {
+    id: 'tkr',
+    name: 'Total Knee Replacement',
+    specialty: 'Orthopaedics',
+    translations: {
+      'hi-IN': { name: 'घुटने का पूर्ण प्रत्यारोपण', specialty: 'हड्डी रोग (ऑर्थोपेडिक्स)' },
+      'mr-IN': { name: 'संपूर्ण गुडघा प्रत्यारोपण', specialty: 'अस्थिरोग (ऑर्थोपेडिक्स)' },
+      'es-US': { name: 'Prótesis total de rodilla', specialty: 'Traumatología y ortopedia' },
+    },
+    sections: {
+      description:
+        'The worn surfaces of the knee joint are replaced with metal and plastic parts. It is done under spinal or general anesthesia, and physiotherapy starts the same or the next day.',
+      duration: 'Usually 1.5 to 2 hours. The typical hospital stay is 1 to 3 days.',
+      risks: [
+        'Blood clots in the leg or lungs',
+        'Infection of the wound or the new joint',
+        'Stiffness or ongoing pain',
+        'Nerve or blood vessel injury (uncommon)',
+        'Loosening or wear of the implant over many years',
+      ],
+      fasting: [
+        'No solid food for 6 hours before your arrival time',
+        'Clear fluids are allowed until 2 hours before arrival',
+      ],
+      medicationHolds: [
+        'Blood thinners and some anti-inflammatory medicines are usually paused before surgery. Your team will confirm the dates',
+        'Bring all your medicines, in their original packets, to the hospital',
+        'Do not stop any medicine without your surgical team telling you to',
+      ],
+      woundCare: [
+        'Keep the dressing on and dry until your review appointment',
+        'Use your walking aid as the physiotherapist showed you',
+        'Do your knee exercises several times a day',
+        'Use the blood clot prevention measures you were given, such as stockings or injections',
+      ],
+      redFlags: [
+        'Calf pain, swelling or warmth in either leg',
+        'Sudden shortness of breath or chest pain',
+        'Fever above 38°C (100.4°F)',
+        'Increasing redness, heat or discharge from the wound',
+        'Sudden inability to bear weight',
+      ],
+    },
+    preOp: {
+      arrivalMinutesBefore: 120,
+      solidFoodHours: 6,
+      clearFluidsHours: 2,
+      bring: [
+        'Your admission letter and photo ID',
+        'All your medicines in their original packets',
+        'Your walking aid, if you already use one',
+        'Flat, non-slip shoes and loose clothing for a hospital stay of a few days',
+      ],
+    },
+    recovery: {
+      painAmber: 6,
+      painRed: 8,
+      feverAmberC: 37.8,
+      feverRedC: 38,
+      unaidedWalkingDay: 42,
+      bedboundAmberDay: 2,
+      bedboundRedDay: 4,
+      bowelsOpenDay: 4,
+    },
+  },
+  {
+    id: 'inguinal-hernia',
+    name: 'Inguinal Hernia Repair',
+    specialty: 'General Surgery',
+    translations: {
+      'hi-IN': { name: 'इंग्वाइनल हर्निया की मरम्मत', specialty: 'जनरल सर्जरी' },
+      'mr-IN': { name: 'इंग्वाइनल हर्नियाची दुरुस्ती', specialty: 'जनरल सर्जरी' },
+      'es-US': { name: 'Reparación de hernia inguinal', specialty: 'Cirugía general' },
+    },
+    sections: {
+      description:
+        'A bulge in the groin is pushed back into place and the weak area is strengthened with a mesh. It can be done as open surgery or as keyhole surgery.',
+      duration: 'Usually 45 minutes to 1.5 hours. Most patients go home the same day.',
+      risks: [
+        'Bruising or swelling in the groin or scrotum',
+        'Wound infection',
+        'Long-term groin pain (uncommon)',
+        'The hernia coming back',
+        'Difficulty passing urine straight after surgery',
+      ],
+      fasting: [
+        'No solid food for 6 hours before your arrival time',
+        'Clear fluids are allowed until 2 hours before arrival',
+      ],
+      medicationHolds: [
+        'Blood thinners are usually paused before surgery. Your team will tell you when',
+        'Continue other regular medicines unless told otherwise',
+      ],
+      woundCare: [
+        'Keep the wound dry for 48 hours',
+        'Support the wound with a hand or pillow when you cough',
+        'Avoid heavy lifting and strenuous exercise for 4 to 6 weeks',
+      ],
+      redFlags: [
+        'Fever above 38°C (100.4°F)',
+        'Rapidly increasing swelling in the groin',
+        'Unable to pass urine',
+        'Severe pain that is not controlled by your pain relief',
+        'Wound redness or discharge',
+      ],
+    },
+    preOp: {
+      arrivalMinutesBefore: 90,
+      solidFoodHours: 6,
+      clearFluidsHours: 2,
+      bring: [
+        'Your admission letter and photo ID',
+        'A list of your regular medicines',
+        'Supportive, loose-fitting underwear',
+        'An adult to drive you home and stay with you for 24 hours',
+      ],
+    },
+    recovery: {
+      painAmber: 5,
+      painRed: 8,
+      feverAmberC: 37.8,
+      feverRedC: 38,
+      unaidedWalkingDay: 2,
+      bedboundAmberDay: 1,
+      bedboundRedDay: 3,
+      bowelsOpenDay: 3,
+    },
+  },
+  {
+    id: 'cataract',
+    name: 'Cataract Surgery',
+    specialty: 'Ophthalmology',
+    translations: {
+      'hi-IN': { name: 'मोतियाबिंद की सर्जरी', specialty: 'नेत्र रोग' },
+      'mr-IN': { name: 'मोतीबिंदू शस्त्रक्रिया', specialty: 'नेत्ररोग' },
+      'es-US': { name: 'Cirugía de cataratas', specialty: 'Oftalmología' },
+    },
+    sections: {
+      description:
+        'The cloudy lens inside the eye is removed through a tiny cut and replaced with a clear artificial lens. It is usually done under local anesthesia with eye drops while you are awake.',
+      duration: 'Usually 20 to 45 minutes. You go home the same day.',
+      risks: [
+        'Temporary blurred vision, grittiness or watering',
+        'Raised pressure in the eye',
+        'Infection inside the eye (rare but serious)',
+        'Clouding behind the new lens months or years later, which can be treated with a laser',
+      ],
+      fasting: [
+        'Most patients having local anesthesia may eat a light breakfast. Follow the exact instructions in your admission letter',
+        'If you are having sedation or general anesthesia, no solid food for 6 hours before arrival',
+      ],
+      medicationHolds: [
+        'Usually continue your regular medicines, including blood thinners, unless your eye team says otherwise',
+        'Bring your current eye drops with you',
+      ],
+      woundCare: [
+        'Wear the eye shield at night for the first week',
+        'Use your prescribed eye drops exactly as instructed',
+        'Do not rub the eye or get soap or water in it',
+        'Avoid swimming and eye make-up for 2 weeks',
+      ],
+      redFlags: [
+        'Sudden loss of or worsening vision',
+        'Increasing eye pain',
+        'Increasing redness of the eye',
+        'Flashing lights or a curtain across your vision',
+      ],
+    },
+    preOp: {
+      arrivalMinutesBefore: 60,
+      solidFoodHours: null,
+      clearFluidsHours: null,
+      bring: [
+        'Your admission letter and photo ID',
+        'Your current eye drops',
+        'Your glasses',
+        'An adult to take you home, as you must not drive',
+      ],
+    },
+    recovery: {
+      painAmber: 3,
+      painRed: 6,
+      feverAmberC: 37.8,
+      feverRedC: 38,
+      unaidedWalkingDay: 0,
+      bedboundAmberDay: 1,
+      bedboundRedDay: 2,
+      bowelsOpenDay: 3,
+    },
+  },
+];
@@ -0,0 +1,185 @@
+/**
+ * Routes for the clinician content console under /api/content. Reading the
+ * approved version is public, since every patient session needs it; every
+ * other route needs a signed-in clinician.
+ *
+ * Accounts come from CONTENT_USERS as comma-separated name:password:roles
+ * entries, where roles is author, reviewer or author+reviewer.
+ */
+import { createHash, randomBytes, timingSafeEqual } from 'node:crypto';
+import { readJsonBody, sendJson } from './http.js';
+
+const ROLES = ['author', 'reviewer'];
+// Console sign-ins last one working shift
+const SESSION_LIFETIME_MS = 8 * 60 * 60 * 1000;
+
+function parseUsers(spec) {
+  const users = new Map();
+  for (const entry of (spec || '').split(',').map(s => s.trim()).filter(Boolean)) {
+    const [name, password, roleList = ''] = entry.split(':');
+    const roles = roleList.split('+').filter(role => ROLES.includes(role));
+    if (!name || !password || roles.length === 0) {
+      console.warn(`Ignoring CONTENT_USERS entry for "${name || '?'}": expected name:password:author|reviewer`);
+      continue;
+    }
+    users.set(name, { name, roles, passwordDigest: createHash('sha256').update(password).digest() });
+  }
+  return users;
+}
+
+// What a patient session needs: the text plus enough to stamp and trace it
+const approvedPayload = (version) => ({
+  number: version.number,
+  contentHash: version.contentHash,
+  approvedBy: version.reviewedBy,
+  approvedAt: version.reviewedAt,
+  content: version.content,
+});
+
+export function createContentApi(store, usersSpec) {
+  const users = parseUsers(usersSpec);
+  const sessions = new Map();
+
+  const signIn = (name, password) => {
+    const user = users.get(name);
+    const digest = createHash('sha256').update(String(password ?? '')).digest();
+    // Compare against something even for unknown names so timing does not reveal them
+    const matches = timingSafeEqual(digest, user?.passwordDigest ?? randomBytes(32)) && Boolean(user);
+    if (!matches) return null;
+    const token = randomBytes(32).toString('hex');
+    sessions.set(token, { name: user.name, roles: user.roles, expiresAt: Date.now() + SESSION_LIFETIME_MS });
+    return { token, name: user.name, roles: user.roles };
+  };
+
+  const sessionFor = (req) => {
+    const token = /^Bearer (\S+)$/.exec(req.headers.authorization ?? '')?.[1];
+    const session = token && sessions.get(token);
+    if (!session) return null;
+    if (session.expiresAt < Date.now()) {
+      sessions.delete(token);
+      return null;
+    }
+    return session;
+  };
+
+  const requireRole = (session, role) => {
+    if (!session.roles.includes(role)) {
+      throw Object.assign(new Error(`Only a content ${role} can do this`), { status: 403 });
+    }
+  };
+
+  const route = async (req, res, url) => {
+    const parts = url.pathname.replace(/^\/api\/content\/?/, '').split('/').filter(Boolean);
+
+    if (req.method === 'GET' && parts[0] === 'approved' && parts.length === 1) {
+      const version = store.approved();
+      if (!version) {
+        sendJson(res, 404, { error: 'No content version has been approved yet' });
+        return;
+      }
+      sendJson(res, 200, approvedPayload(version));
+      return;
+    }
+
+    if (req.method === 'POST' && parts[0] === 'login' && parts.length === 1) {
+      if (users.size === 0) {
+        sendJson(res, 503, { error: 'No clinician accounts are configured. Set CONTENT_USERS on the server.' });
+        return;
+      }
+      const body = await readJsonBody(req);
+      const session = signIn(body?.name, body?.password);
+      if (!session) {
+        sendJson(res, 401, { error: 'Wrong name or password' });
+        return;
+      }
+      console.log(`Content console sign-in: ${session.name}`);
+      sendJson(res, 200, session);
+      return;
+    }
+
+    const session = sessionFor(req);
+    if (!session) {
+      sendJson(res, 401, { error: 'Sign in to the content console first' });
+      return;
+    }
+
+    if (parts[0] === 'logout' && req.method === 'POST' && parts.length === 1) {
+      sessions.delete(/^Bearer (\S+)$/.exec(req.headers.authorization)[1]);
+      sendJson(res, 200, { ok: true });
+      return;
+    }
+
+    if (parts[0] !== 'versions') {
+      sendJson(res, 404, { error: 'Not found' });
+      return;
+    }
+
+    if (parts.length === 1) {
+      if (req.method === 'GET') {
+        sendJson(res, 200, { versions: store.list() });
+        return;
+      }
+      if (req.method === 'POST') {
+        requireRole(session, 'author');
+        const body = await readJsonBody(req);
+        const basedOn = Number.isInteger(body?.basedOn) ? body.basedOn : null;
+        sendJson(res, 201, store.createDraft(body?.content, basedOn, session.name));
+        return;
+      }
+    }
+
+    const number = Number(parts[1]);
+    if (!Number.isInteger(number) || parts.length > 3) {
+      sendJson(res, 404, { error: 'Not found' });
+      return;
+    }
+
+    if (parts.length === 2 && req.method === 'PUT') {
+      requireRole(session, 'author');
+      const body = await readJsonBody(req);
+      sendJson(res, 200, store.updateDraft(number, body?.content, session.name));
+      return;
+    }
+
+    if (parts.length === 3 && req.method === 'POST') {
+      const body = await readJsonBody(req);
+      const note = typeof body?.note === 'string' ? body.note.trim() : '';
+      switch (parts[2]) {
+        case 'submit':
+          requireRole(session, 'author');
+          sendJson(res, 200, store.submit(number, session.name));
+          return;
+        case 'approve':
+          requireRole(session, 'reviewer');
+          sendJson(res, 200, store.approve(number, session.name, note));
+          console.log(`Content version ${number} approved by ${session.name}`);
+          return;
+        case 'reject':
+          requireRole(session, 'reviewer');
+          sendJson(res, 200, store.reject(number, session.name, note));
+          return;
+      }
+    }
+
+    sendJson(res, 404, { error: 'Not found' });
+  };
+
+  return {
+    /** Handles the request if it is for the content API; returns false otherwise. */
+    handle: async (req, res) => {
+      const url = new URL(req.url, 'http://localhost');
+      if (!/^\/api\/content(\/|$)/.test(url.pathname)) return false;
+      try {
+        await route(req, res, url);
+      } catch (err) {
+        if (err.status) {
+          sendJson(res, err.status, { error: err.message });
+        } else {
+          console.error('Content API request failed', err);
+          sendJson(res, 500, { error: 'Could not complete the content request' });
+        }
+      }
+      return true;
+    },
+  };
+}
@@ -0,0 +1,210 @@
+/**
+ * File-backed history of clinical content versions. Every version moves
+ * draft -> in_review -> approved (or rejected), and approving one supersedes
+ * the version that was live before it. Versions are never deleted, so any
+ * session stamped with a version number and hash can be traced back to the
+ * exact text, who wrote it and who signed it off.
+ */
+import fs from 'node:fs';
+import path from 'node:path';
+import { createHash } from 'node:crypto';
+
+const SECTION_TEXT_FIELDS = ['description', 'duration'];
+const SECTION_LIST_FIELDS = ['risks', 'fasting', 'medicationHolds', 'woundCare', 'redFlags'];
+// null means the procedure has no fixed fasting cut-off
+const PRE_OP_HOUR_FIELDS = ['solidFoodHours', 'clearFluidsHours'];
+
+const fail = (status, message) => Object.assign(new Error(message), { status });
+
+// Keys are sorted so the browser and the server hash the same bundle identically
+function canonicalJson(value) {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value).sort().map(key => `${JSON.stringify(key)}:${canonicalJson(value[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+export const contentHash = (content) => createHash('sha256').update(canonicalJson(content)).digest('hex');
+
+const isText = (value) => typeof value === 'string' && value.trim() !== '';
+const isTextMap = (value) => value && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Checks the bundle's shape and returns a copy holding only the known fields,
+ * so stray properties never end up in a signed-off version.
+ */
+function normalizeContent(raw) {
+  if (!isTextMap(raw)) throw fail(400, 'Content must be an object');
+  if (!isText(raw.baseInstruction)) throw fail(400, 'baseInstruction must be non-empty text');
+  if (!isTextMap(raw.agentPrompts)) throw fail(400, 'agentPrompts must map agent ids to prompts');
+  if (!isTextMap(raw.procedures)) throw fail(400, 'procedures must map procedure ids to sections');
+  if (!isTextMap(raw.preOp)) throw fail(400, 'preOp must map procedure ids to pre-op plans');
+
+  const agentPrompts = {};
+  for (const [id, prompt] of Object.entries(raw.agentPrompts)) {
+    if (!isText(prompt)) throw fail(400, `agentPrompts.${id} must be non-empty text`);
+    agentPrompts[id] = prompt;
+  }
+
+  const procedures = {};
+  for (const [id, sections] of Object.entries(raw.procedures)) {
+    if (!isTextMap(sections)) throw fail(400, `procedures.${id} must be an object`);
+    const copy = {};
+    for (const field of SECTION_TEXT_FIELDS) {
+      if (!isText(sections[field])) throw fail(400, `procedures.${id}.${field} must be non-empty text`);
+      copy[field] = sections[field];
+    }
+    for (const field of SECTION_LIST_FIELDS) {
+      const list = sections[field];
+      if (!Array.isArray(list) || list.length === 0 || !list.every(isText)) {
+        throw fail(400, `procedures.${id}.${field} must be a non-empty list of text`);
+      }
+      copy[field] = [...list];
+    }
+    procedures[id] = copy;
+  }
+
+  const preOp = {};
+  for (const [id, plan] of Object.entries(raw.preOp)) {
+    if (!isTextMap(plan)) throw fail(400, `preOp.${id} must be an object`);
+    if (!Number.isInteger(plan.arrivalMinutesBefore) || plan.arrivalMinutesBefore <= 0) {
+      throw fail(400, `preOp.${id}.arrivalMinutesBefore must be a whole number of minutes above zero`);
+    }
+    const copy = { arrivalMinutesBefore: plan.arrivalMinutesBefore };
+    for (const field of PRE_OP_HOUR_FIELDS) {
+      const hours = plan[field];
+      if (hours !== null && !(Number.isFinite(hours) && hours >= 0)) {
+        throw fail(400, `preOp.${id}.${field} must be a number of hours, or null for no cut-off`);
+      }
+      copy[field] = hours;
+    }
+    if (!Array.isArray(plan.bring) || plan.bring.length === 0 || !plan.bring.every(isText)) {
+      throw fail(400, `preOp.${id}.bring must be a non-empty list of text`);
+    }
+    copy.bring = [...plan.bring];
+    preOp[id] = copy;
+  }
+
+  return { baseInstruction: raw.baseInstruction, agentPrompts, procedures, preOp };
+}
+
+export function createContentStore(filePath) {
+  let versions = [];
+  try {
+    versions = JSON.parse(fs.readFileSync(filePath, 'utf8')).versions ?? [];
+  } catch (err) {
+    if (err.code !== 'ENOENT') throw err;
+  }
+
+  // Write to a temp file and rename so a crash never leaves a half-written history
+  const persist = () => {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    const temp = `${filePath}.tmp`;
+    fs.writeFileSync(temp, JSON.stringify({ versions }, null, 2));
+    fs.renameSync(temp, filePath);
+  };
+
+  const find = (number) => {
+    const version = versions.find(v => v.number === number);
+    if (!version) throw fail(404, `Version ${number} does not exist`);
+    return version;
+  };
+
+  const requireStatus = (version, status) => {
+    if (version.status !== status) throw fail(409, `Version ${version.number} is ${version.status.replace('_', ' ')}`);
+  };
+
+  const log = (version, action, by, note) => {
+    const at = new Date().toISOString();
+    version.events.push(note ? { action, by, at, note } : { action, by, at });
+    version.updatedAt = at;
+  };
+
+  return {
+    list: () => versions,
+
+    approved: () => versions.find(v => v.status === 'approved') ?? null,
+
+    createDraft: (rawContent, basedOn, author) => {
+      if (basedOn !== null) find(basedOn);
+      const content = normalizeContent(rawContent);
+      const now = new Date().toISOString();
+      const version = {
+        number: versions.reduce((max, v) => Math.max(max, v.number), 0) + 1,
+        status: 'draft',
+        content,
+        contentHash: contentHash(content),
+        basedOn,
+        author,
+        createdAt: now,
+        updatedAt: now,
+        reviewedBy: null,
+        reviewedAt: null,
+        reviewNote: null,
+        events: [],
+      };
+      log(version, 'created', author);
+      versions.push(version);
+      persist();
+      return version;
+    },
+
+    // Only the author edits a draft; anyone else starts their own from it
+    updateDraft: (number, rawContent, author) => {
+      const version = find(number);
+      requireStatus(version, 'draft');
+      if (version.author !== author) throw fail(403, 'Only the author of a draft can edit it');
+      version.content = normalizeContent(rawContent);
+      version.contentHash = contentHash(version.content);
+      log(version, 'edited', author);
+      persist();
+      return version;
+    },
+
+    submit: (number, author) => {
+      const version = find(number);
+      requireStatus(version, 'draft');
+      if (version.author !== author) throw fail(403, 'Only the author of a draft can submit it');
+      version.status = 'in_review';
+      log(version, 'submitted', author);
+      persist();
+      return version;
+    },
+
+    approve: (number, reviewer, note) => {
+      const version = find(number);
+      requireStatus(version, 'in_review');
+      if (version.author === reviewer) throw fail(403, 'A version must be approved by someone other than its author');
+
+      const previous = versions.find(v => v.status === 'approved');
+      if (previous) {
+        previous.status = 'superseded';
+        log(previous, 'superseded', reviewer, `Replaced by version ${version.number}`);
+      }
+
+      version.status = 'approved';
+      version.reviewedBy = reviewer;
+      version.reviewedAt = new Date().toISOString();
+      version.reviewNote = note || null;
+      log(version, 'approved', reviewer, note);
+      persist();
+      return version;
+    },
+
+    reject: (number, reviewer, note) => {
+      const version = find(number);
+      requireStatus(version, 'in_review');
+      if (version.author === reviewer) throw fail(403, 'A version must be reviewed by someone other than its author');
+      if (!note) throw fail(400, 'Say what needs to change when rejecting a version');
+
+      version.status = 'rejected';
+      version.reviewedBy = reviewer;
+      version.reviewedAt = new Date().toISOString();
+      version.reviewNote = note;
+      log(version, 'rejected', reviewer, note);
+      persist();
+      return version;
+    },
+  };
+}
@@ -0,0 +1,98 @@
+/**
+ * Issues short-lived Gemini Live tokens so the API key never reaches the browser.
+ *
+ *   node server/token-server.js          Uses GEMINI_API_KEY to mint real ephemeral tokens
+ *   node server/token-server.js --stub   Mints fake tokens locally, no key or network needed
+ *
+ * Also serves the clinician content console API; see content-api.js.
+ */
+import http from 'node:http';
+import { randomBytes } from 'node:crypto';
+import { GoogleGenAI, Modality } from '@google/genai';
+import { createContentApi } from './content-api.js';
+import { createContentStore } from './content-store.js';
+import { sendJson } from './http.js';
+
+try {
+  process.loadEnvFile('.env.local');
+} catch {
+  // No .env.local; rely on the real environment
+}
+
+const PORT = Number(process.env.TOKEN_SERVER_PORT || 8787);
+// Only the Vite dev proxy (or a reverse proxy on the same host) should reach us
+const HOST = process.env.TOKEN_SERVER_HOST || '127.0.0.1';
+// Keep in sync with LIVE_MODEL in constants.ts
+const MODEL = process.env.LIVE_MODEL || 'gemini-2.5-flash-native-audio-preview-09-2025';
+// A token must be used to open a session within this window
+const NEW_SESSION_WINDOW_MS = 60 * 1000;
+// Sessions opened with the token are closed after this
+const SESSION_LIFETIME_MS = 30 * 60 * 1000;
+
+// Version history for the content console; keep it on backed-up storage in production
+const CONTENT_STORE_PATH = process.env.CONTENT_STORE_PATH || 'server/data/content-versions.json';
+
+const useStub = process.argv.includes('--stub') || process.env.TOKEN_SERVER_STUB === '1';
+const apiKey = process.env.GEMINI_API_KEY;
+
+if (!useStub && !apiKey) {
+  console.error('GEMINI_API_KEY is not set. Add it to .env.local or run with --stub for local development.');
+  process.exit(1);
+}
+
+const ai = useStub ? null : new GoogleGenAI({ apiKey, httpOptions: { apiVersion: 'v1alpha' } });
+const contentApi = createContentApi(createContentStore(CONTENT_STORE_PATH), process.env.CONTENT_USERS);
+
+async function issueToken() {
+  const now = Date.now();
+  const expireTime = new Date(now + SESSION_LIFETIME_MS).toISOString();
+  const newSessionExpireTime = new Date(now + NEW_SESSION_WINDOW_MS).toISOString();
+
+  if (useStub) {
+    return { token: `stub-${randomBytes(12).toString('hex')}`, expireTime, newSessionExpireTime, model: MODEL, stub: true };
+  }
+
+  const token = await ai.authTokens.create({
+    config: {
+      uses: 1,
+      expireTime,
+      newSessionExpireTime,
+      // Pin the model and audio modality; persona, voice and tools stay per-session
+      liveConnectConstraints: {
+        model: MODEL,
+        config: { responseModalities: [Modality.AUDIO] },
+      },
+      lockAdditionalFields: [],
+      httpOptions: { apiVersion: 'v1alpha' },
+    },
+  });
+
+  return { token: token.name, expireTime, newSessionExpireTime, model: MODEL, stub: false };
+}
+
+const server = http.createServer(async (req, res) => {
+  if (await contentApi.handle(req, res)) return;
+
+  if (req.url !== '/api/live-token') {
+    sendJson(res, 404, { error: 'Not found' });
+    return;
+  }
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    sendJson(res, 405, { error: 'Method not allowed' });
+    return;
+  }
+
+  try {
+    const token = await issueToken();
+    console.log(`Issued ${token.stub ? 'stub ' : ''}token, expires ${token.expireTime}`);
+    sendJson(res, 200, token);
+  } catch (err) {
+    console.error('Failed to issue token', err);
+    sendJson(res, 502, { error: 'Could not issue a session token' });
+  }
+});
+
+server.listen(PORT, HOST, () => {
+  console.log(`Live token server listening on http://${HOST}:${PORT}${useStub ? ' (stub mode)' : ''}`);
+});
@@ -0,0 +1,152 @@
+import { AuditDetails, AuditEvent, AuditEventType } from '../types';
+import { encode } from '../utils/audioUtils';
+import { redactPhi } from '../utils/phiRedaction';
+
+const DB_NAME = 'atoscare-audit';
+const DB_VERSION = 1;
+const KEY_STORE = 'keys';
+const EVENT_STORE = 'events';
+
+const SIGNING_ALGORITHM = { name: 'ECDSA', namedCurve: 'P-256' } as const;
+const SIGNATURE_PARAMS = { name: 'ECDSA', hash: 'SHA-256' } as const;
+
+interface AuditKeys {
+  encryption: CryptoKey; // AES-GCM, non-extractable
+  signing: CryptoKeyPair; // ECDSA P-256, private half non-extractable
+}
+
+interface StoredEvent {
+  seq?: number; // Assigned by IndexedDB
+  iv: Uint8Array;
+  data: ArrayBuffer;
+}
+
+export interface AuditLog {
+  record: (type: AuditEventType, sessionId: string | null, details?: AuditDetails) => void;
+  exportSignedJsonl: () => Promise<string>;
+}
+
+// --- IndexedDB plumbing ---
+
+const request = <T>(req: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+function openDatabase(): Promise<IDBDatabase> {
+  const req = indexedDB.open(DB_NAME, DB_VERSION);
+  req.onupgradeneeded = () => {
+    req.result.createObjectStore(KEY_STORE);
+    req.result.createObjectStore(EVENT_STORE, { keyPath: 'seq', autoIncrement: true });
+  };
+  return request(req);
+}
+
+/**
+ * Loads the log's keys, creating them on first use. CryptoKeys are stored
+ * as-is: IndexedDB can hold them without the raw key material being exposed.
+ */
+async function loadKeys(db: IDBDatabase): Promise<AuditKeys> {
+  const existing = await request(db.transaction(KEY_STORE).objectStore(KEY_STORE).get('keys')) as AuditKeys | undefined;
+  if (existing) return existing;
+
+  const keys: AuditKeys = {
+    encryption: await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']),
+    signing: await crypto.subtle.generateKey(SIGNING_ALGORITHM, false, ['sign', 'verify']),
+  };
+  await request(db.transaction(KEY_STORE, 'readwrite').objectStore(KEY_STORE).put(keys, 'keys'));
+  return keys;
+}
+
+// Details that can carry what the patient or the assistant said. Ids, names of
+// assistants and other fields set by the app are stored as they are.
+const FREE_TEXT_FIELDS = ['text', 'patientQuote', 'excerpt', 'reason'];
+
+const redactDetails = (details: AuditDetails): AuditDetails =>
+  Object.fromEntries(Object.entries(details).map(([key, value]) => [
+    key,
+    typeof value === 'string' && FREE_TEXT_FIELDS.includes(key) ? redactPhi(value) : value,
+  ]));
+
+async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Audit trail kept in the browser. Events are redacted, then encrypted with
+ * AES-GCM before they reach IndexedDB. Exports are JSONL where every line
+ * carries an ECDSA signature, and each event line chains the hash of the one
+ * before it so removed or reordered lines are detectable.
+ */
+export function createAuditLog(): AuditLog {
+  let ready: Promise<{ db: IDBDatabase; keys: AuditKeys }> | null = null;
+  // Writes are queued so events keep the order they were recorded in
+  let queue: Promise<void> = Promise.resolve();
+
+  const open = () => {
+    if (!ready) {
+      ready = openDatabase().then(async db => ({ db, keys: await loadKeys(db) }));
+      ready.catch(() => { ready = null; });
+    }
+    return ready;
+  };
+
+  const readAll = async (): Promise<AuditEvent[]> => {
+    const { db, keys } = await open();
+    const stored = await request(db.transaction(EVENT_STORE).objectStore(EVENT_STORE).getAll()) as StoredEvent[];
+    const decoder = new TextDecoder();
+    return Promise.all(stored.map(async ({ iv, data }) => {
+      const plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv }, keys.encryption, data);
+      return JSON.parse(decoder.decode(plain)) as AuditEvent;
+    }));
+  };
+
+  return {
+    record: (type, sessionId, details = {}) => {
+      const event: AuditEvent = {
+        id: crypto.randomUUID(),
+        type,
+        timestamp: new Date().toISOString(),
+        sessionId,
+        details: redactDetails(details),
+      };
+
+      queue = queue.then(async () => {
+        const { db, keys } = await open();
+        const iv = crypto.getRandomValues(new Uint8Array(12));
+        const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, keys.encryption, new TextEncoder().encode(JSON.stringify(event)));
+        const stored: StoredEvent = { iv, data };
+        await request(db.transaction(EVENT_STORE, 'readwrite').objectStore(EVENT_STORE).add(stored));
+      }).catch((e) => {
+        console.warn(`Could not write audit event "${type}"`, e);
+      });
+    },
+
+    exportSignedJsonl: async () => {
+      await queue;
+      const { keys } = await open();
+      const events = await readAll();
+      const encoder = new TextEncoder();
+
+      const sign = async (payload: object) => {
+        const body = JSON.stringify(payload);
+        const signature = await crypto.subtle.sign(SIGNATURE_PARAMS, keys.signing.privateKey, encoder.encode(body));
+        return JSON.stringify({ ...payload, signature: encode(new Uint8Array(signature)) });
+      };
+
+      // Each line is signed over its JSON without the signature field
+      const publicKey = await crypto.subtle.exportKey('jwk', keys.signing.publicKey);
+      const lines = [await sign({ kind: 'header', exportedAt: new Date().toISOString(), eventCount: events.length, algorithm: 'ES256', publicKey })];
+
+      let prevHash = await sha256Hex(lines[0]);
+      for (const [index, event] of events.entries()) {
+        const line = await sign({ kind: 'event', seq: index + 1, prevHash, event });
+        lines.push(line);
+        prevHash = await sha256Hex(line);
+      }
+      return lines.join('\n') + '\n';
+    },
+  };
+}
@@ -0,0 +1,160 @@
+import { ClinicalContent, ContentEvent, ContentRole, ContentVersion } from '../types';
+import { withBuiltInPreOp } from '../utils/clinicalContent';
+
+// Kept for the tab's lifetime so a reload does not sign the clinician out
+const SESSION_STORAGE_KEY = 'atoscare.content-session';
+
+export interface ContentUser {
+  name: string;
+  roles: ContentRole[];
+}
+
+export interface ApprovedContent {
+  number: number;
+  contentHash: string;
+  approvedBy: string | null;
+  approvedAt: Date | null;
+  content: ClinicalContent;
+}
+
+export interface ContentClient {
+  /** The live approved version, or null when none has been approved yet. */
+  fetchApproved: () => Promise<ApprovedContent | null>;
+  currentUser: () => ContentUser | null;
+  login: (name: string, password: string) => Promise<ContentUser>;
+  logout: () => Promise<void>;
+  listVersions: () => Promise<ContentVersion[]>;
+  createDraft: (content: ClinicalContent, basedOn: number | null) => Promise<ContentVersion>;
+  saveDraft: (number: number, content: ClinicalContent) => Promise<ContentVersion>;
+  submit: (number: number) => Promise<ContentVersion>;
+  approve: (number: number, note: string) => Promise<ContentVersion>;
+  reject: (number: number, note: string) => Promise<ContentVersion>;
+}
+
+interface StoredSession extends ContentUser {
+  token: string;
+}
+
+// What the server sends: dates as ISO strings, and no pre-op plans in versions approved before they were reviewed
+type SerializedContent = Omit<ClinicalContent, 'preOp'> & Partial<Pick<ClinicalContent, 'preOp'>>;
+
+type SerializedContentEvent = Omit<ContentEvent, 'at'> & { at: string };
+
+type SerializedContentVersion = Omit<ContentVersion, 'content' | 'createdAt' | 'updatedAt' | 'reviewedAt' | 'events'> & {
+  content: SerializedContent;
+  createdAt: string;
+  updatedAt: string;
+  reviewedAt: string | null;
+  events: SerializedContentEvent[];
+};
+
+type SerializedApprovedContent = Omit<ApprovedContent, 'content' | 'approvedAt'> & {
+  content: SerializedContent;
+  approvedAt: string | null;
+};
+
+const toDate = (value: string | null): Date | null => (value ? new Date(value) : null);
+
+// The rest of the app works with Dates
+function parseVersion(raw: SerializedContentVersion): ContentVersion {
+  return {
+    ...raw,
+    content: withBuiltInPreOp(raw.content),
+    createdAt: new Date(raw.createdAt),
+    updatedAt: new Date(raw.updatedAt),
+    reviewedAt: toDate(raw.reviewedAt),
+    events: raw.events.map(event => ({ ...event, at: new Date(event.at) })),
+  };
+}
+
+function loadSession(): StoredSession | null {
+  try {
+    const raw = sessionStorage.getItem(SESSION_STORAGE_KEY);
+    return raw ? JSON.parse(raw) as StoredSession : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Talks to the content API on the token server (see server/content-api.js).
+ */
+export function createContentClient(baseUrl: string = process.env.CONTENT_API_URL || '/api/content'): ContentClient {
+  let session = loadSession();
+
+  const request = async <T>(path: string, init: RequestInit = {}): Promise<T> => {
+    let response: Response;
+    try {
+      response = await fetch(`${baseUrl}${path}`, {
+        ...init,
+        headers: {
+          'Content-Type': 'application/json',
+          ...(session ? { Authorization: `Bearer ${session.token}` } : {}),
+        },
+      });
+    } catch (err) {
+      throw new Error("Could not reach the content server. Is it running?");
+    }
+
+    const body: unknown = await response.json().catch(() => null);
+    if (response.status === 401 && session) {
+      // Expired or revoked; make the console ask for a fresh sign-in
+      session = null;
+      sessionStorage.removeItem(SESSION_STORAGE_KEY);
+    }
+    if (!response.ok) {
+      throw new Error((body as { error?: string } | null)?.error || `Content server returned ${response.status}`);
+    }
+    return body as T;
+  };
+
+  const post = <T>(path: string, body?: unknown) =>
+    request<T>(path, { method: 'POST', body: body === undefined ? undefined : JSON.stringify(body) });
+
+  return {
+    fetchApproved: async () => {
+      let response: Response;
+      try {
+        response = await fetch(`${baseUrl}/approved`);
+      } catch (err) {
+        throw new Error("Could not reach the content server. Is it running?");
+      }
+      if (response.status === 404) return null;
+      if (!response.ok) throw new Error(`Content server returned ${response.status}`);
+
+      const body = await response.json() as SerializedApprovedContent;
+      return { ...body, content: withBuiltInPreOp(body.content), approvedAt: toDate(body.approvedAt) };
+    },
+
+    currentUser: () => (session ? { name: session.name, roles: session.roles } : null),
+
+    login: async (name, password) => {
+      const signedIn = await post<StoredSession>('/login', { name, password });
+      session = signedIn;
+      sessionStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(signedIn));
+      return { name: signedIn.name, roles: signedIn.roles };
+    },
+
+    logout: async () => {
+      await post('/logout').catch(() => undefined);
+      session = null;
+      sessionStorage.removeItem(SESSION_STORAGE_KEY);
+    },
+
+    listVersions: async () => {
+      const body = await request<{ versions: SerializedContentVersion[] }>('/versions');
+      return body.versions.map(parseVersion);
+    },
+
+    createDraft: async (content, basedOn) => parseVersion(await post<SerializedContentVersion>('/versions', { content, basedOn })),
+
+    saveDraft: async (number, content) =>
+      parseVersion(await request<SerializedContentVersion>(`/versions/${number}`, { method: 'PUT', body: JSON.stringify({ content }) })),
+
+    submit: async (number) => parseVersion(await post<SerializedContentVersion>(`/versions/${number}/submit`)),
+
+    approve: async (number, note) => parseVersion(await post<SerializedContentVersion>(`/versions/${number}/approve`, { note })),
+
+    reject: async (number, note) => parseVersion(await post<SerializedContentVersion>(`/versions/${number}/reject`, { note })),
+  };
+}
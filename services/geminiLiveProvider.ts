@@ -0,0 +1,79 @@
+import { GoogleGenAI, LiveServerMessage, Modality } from '@google/genai';
+import { LiveVoiceMessage, LiveVoiceProvider } from '../types';
+import { LIVE_MODEL } from '../constants';
+import { pcmToBlob } from '../utils/audioUtils';
+import { fetchLiveToken } from '../utils/liveToken';
+
+/**
+ * Maps a Gemini server message onto the provider-neutral shape.
+ */
+function toVoiceMessage(message: LiveServerMessage): LiveVoiceMessage {
+  const content = message.serverContent;
+  return {
+    audio: content?.modelTurn?.parts?.[0]?.inlineData?.data,
+    inputTranscript: content?.inputTranscription?.text,
+    outputTranscript: content?.outputTranscription?.text,
+    turnComplete: content?.turnComplete,
+    setupComplete: message.setupComplete ? true : undefined,
+    resumptionHandle: message.sessionResumptionUpdate?.resumable
+      ? message.sessionResumptionUpdate.newHandle
+      : undefined,
+    toolCalls: message.toolCall?.functionCalls?.map(call => ({
+      id: call.id,
+      name: call.name ?? '',
+      args: call.args ?? {},
+    })),
+  };
+}
+
+export function createGeminiLiveProvider(): LiveVoiceProvider {
+  return {
+    id: 'gemini',
+    connect: async (options, callbacks) => {
+      // Short-lived token from our server; the API key never reaches the browser
+      const { token } = await fetchLiveToken();
+      const ai = new GoogleGenAI({ apiKey: token, httpOptions: { apiVersion: 'v1alpha' } });
+
+      const session = await ai.live.connect({
+        model: LIVE_MODEL,
+        config: {
+          responseModalities: [Modality.AUDIO],
+          speechConfig: {
+            voiceConfig: { prebuiltVoiceConfig: { voiceName: options.voiceName } },
+            languageCode: options.languageCode,
+          },
+          systemInstruction: options.systemInstruction,
+          // Caption both sides of the conversation
+          inputAudioTranscription: {},
+          outputAudioTranscription: {},
+          tools: [{ functionDeclarations: options.tools }],
+          // Ask for resumption handles; pass the last one back to pick up where we left off
+          sessionResumption: { handle: options.resumptionHandle },
+        },
+        callbacks: {
+          onopen: callbacks.onOpen,
+          onmessage: (message: LiveServerMessage) => {
+            callbacks.onMessage(toVoiceMessage(message));
+            if (message.serverContent?.interrupted) {
+              callbacks.onInterrupted();
+            }
+          },
+          onclose: (e: CloseEvent) => callbacks.onClose(e.reason),
+          onerror: (e: ErrorEvent) => callbacks.onError(new Error(e.message || "Connection error")),
+        },
+      });
+
+      return {
+        sendAudio: (pcm) => session.sendRealtimeInput({ media: pcmToBlob(pcm) }),
+        // Lets the server close the turn without waiting for trailing silence
+        endAudioStream: () => session.sendRealtimeInput({ audioStreamEnd: true }),
+        sendText: (text) => session.sendClientContent({
+          turns: [{ role: 'user', parts: [{ text }] }],
+          turnComplete: true,
+        }),
+        sendToolResponse: (responses) => session.sendToolResponse({ functionResponses: responses }),
+        close: () => session.close(),
+      };
+    },
+  };
+}
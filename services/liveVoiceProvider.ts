@@ -0,0 +1,20 @@
+import { LiveVoiceProvider } from '../types';
+import mockScript from '../fixtures/mock-consultation.json';
+import { createGeminiLiveProvider } from './geminiLiveProvider';
+import { createMockLiveProvider } from './mockLiveProvider';
+
+/**
+ * Picks the live voice backend. Set LIVE_PROVIDER=mock in .env.local to run
+ * the scripted offline provider instead of Gemini.
+ */
+export function createLiveVoiceProvider(id: string = process.env.LIVE_PROVIDER || 'gemini'): LiveVoiceProvider {
+  switch (id) {
+    case 'mock':
+      return createMockLiveProvider(mockScript);
+    case 'gemini':
+      return createGeminiLiveProvider();
+    default:
+      console.warn(`Unknown LIVE_PROVIDER "${id}", falling back to Gemini`);
+      return createGeminiLiveProvider();
+  }
+}
@@ -0,0 +1,227 @@
+import { LiveToolCall, LiveToolResponse, LiveVoiceCallbacks, LiveVoiceProvider } from '../types';
+import { INPUT_SAMPLE_RATE, OUTPUT_SAMPLE_RATE, decode, encode } from '../utils/audioUtils';
+import { HANDOFF_TRIGGER } from '../utils/handoff';
+
+interface MockModelTurn {
+  model: string;
+  pcmBase64?: string; // Canned 16-bit PCM at OUTPUT_SAMPLE_RATE; synthesized when absent
+  dropAfter?: boolean; // Simulate a dropped connection once this turn finishes
+}
+
+interface MockTurn extends MockModelTurn {
+  user: string;
+  toolCalls?: Omit<LiveToolCall, 'id'>[];
+}
+
+export interface MockScript {
+  name: string;
+  greeting: MockModelTurn;
+  turns: MockTurn[];
+  fallback: MockModelTurn;
+}
+
+const HANDLE_PREFIX = 'mock-resume-';
+
+// Mic energy (Int16 RMS) that counts as the patient speaking
+const SPEECH_RMS = 650;
+// How long the patient must pause before the scripted reply starts
+const END_OF_SPEECH_MS = 800;
+const MIN_SPEECH_MS = 300;
+// Sustained speech during playback that counts as a barge-in
+const BARGE_IN_MS = 200;
+const CHUNK_MS = 200;
+const TOOL_RESPONSE_TIMEOUT_MS = 5000;
+
+/**
+ * Produces a voice-like hum (a wandering pitch with a syllable envelope) so the
+ * playback queue and visualizer have something realistic to work with.
+ */
+function synthesizeSpeech(text: string): Int16Array {
+  const words = text.split(/\s+/).filter(Boolean).length;
+  const seconds = Math.max(1, words * 0.32);
+  const samples = Math.floor(seconds * OUTPUT_SAMPLE_RATE);
+  const pcm = new Int16Array(samples);
+  let phase = 0;
+
+  for (let i = 0; i < samples; i++) {
+    const t = i / OUTPUT_SAMPLE_RATE;
+    const pitch = 160 + 30 * Math.sin(2 * Math.PI * 0.7 * t);
+    phase += (2 * Math.PI * pitch) / OUTPUT_SAMPLE_RATE;
+    const syllable = Math.pow(Math.sin(Math.PI * 3.5 * t), 2);
+    const sample = syllable * 0.2 * (Math.sin(phase) + 0.5 * Math.sin(2 * phase) + 0.25 * Math.sin(3 * phase));
+    pcm[i] = sample * 0x7FFF;
+  }
+  return pcm;
+}
+
+// Fixture audio is 16-bit PCM; a trailing odd byte is dropped
+const pcmFromBase64 = (base64: string): Int16Array => {
+  const bytes = decode(base64);
+  return new Int16Array(bytes.buffer, 0, Math.floor(bytes.length / 2));
+};
+
+/**
+ * Offline provider that replays a fixture script. Each time the patient
+ * finishes speaking, the next scripted turn is played back with transcripts,
+ * audio and any tool calls; speaking over playback triggers an interruption.
+ */
+export function createMockLiveProvider(script: MockScript): LiveVoiceProvider {
+  return {
+    id: 'mock',
+    connect: async (options, callbacks: LiveVoiceCallbacks) => {
+      // Resumption handles just record how far through the script we got
+      const resumedAt = options.resumptionHandle?.startsWith(HANDLE_PREFIX)
+        ? Number(options.resumptionHandle.slice(HANDLE_PREFIX.length))
+        : NaN;
+      const isResumed = Number.isInteger(resumedAt);
+
+      let closed = false;
+      let turnIndex = isResumed ? resumedAt : 0;
+      let timers: ReturnType<typeof setTimeout>[] = [];
+      let playbackEndsAt = 0;
+      let speechMs = 0;
+      let silenceMs = 0;
+      let awaitingReply = false;
+      const pendingTools = new Map<string, () => void>();
+
+      const schedule = (fn: () => void, delay: number) => {
+        timers.push(setTimeout(() => { if (!closed) fn(); }, delay));
+      };
+
+      const cancelScheduled = () => {
+        timers.forEach(clearTimeout);
+        timers = [];
+        playbackEndsAt = 0;
+      };
+
+      const playModelTurn = (turn: MockModelTurn) => {
+        const pcm = turn.pcmBase64 ? pcmFromBase64(turn.pcmBase64) : synthesizeSpeech(turn.model);
+        const samplesPerChunk = (OUTPUT_SAMPLE_RATE * CHUNK_MS) / 1000;
+        const chunkCount = Math.max(1, Math.ceil(pcm.length / samplesPerChunk));
+        const words = turn.model.split(' ');
+        const wordsPerChunk = Math.ceil(words.length / chunkCount);
+
+        playbackEndsAt = Date.now() + (pcm.length / OUTPUT_SAMPLE_RATE) * 1000;
+
+        for (let i = 0; i < chunkCount; i++) {
+          const chunk = pcm.slice(i * samplesPerChunk, (i + 1) * samplesPerChunk);
+          const text = words.slice(i * wordsPerChunk, (i + 1) * wordsPerChunk).join(' ');
+          // Deliver a little faster than real time, like the real service
+          schedule(() => {
+            callbacks.onMessage({
+              audio: encode(new Uint8Array(chunk.buffer)),
+              outputTranscript: text ? (i === 0 ? text : ` ${text}`) : undefined,
+            });
+          }, i * CHUNK_MS * 0.5);
+        }
+        schedule(() => callbacks.onMessage({
+          turnComplete: true,
+          resumptionHandle: `${HANDLE_PREFIX}${turnIndex}`,
+        }), chunkCount * CHUNK_MS * 0.5);
+
+        if (turn.dropAfter) {
+          schedule(() => {
+            closed = true;
+            cancelScheduled();
+            callbacks.onClose('Mock connection dropped');
+          }, playbackEndsAt - Date.now());
+        }
+      };
+
+      const runToolCalls = (calls: Omit<LiveToolCall, 'id'>[]): Promise<void> => {
+        const withIds = calls.map((call, i) => ({ ...call, id: `mock-call-${Date.now()}-${i}` }));
+        const responses = withIds.map(call => new Promise<void>((resolve) => {
+          pendingTools.set(call.id, resolve);
+          schedule(resolve, TOOL_RESPONSE_TIMEOUT_MS);
+        }));
+        callbacks.onMessage({ toolCalls: withIds });
+        return Promise.all(responses).then(() => undefined);
+      };
+
+      // Typed turns skip the scripted input transcript; the client already shows the text
+      const reply = async (typed: boolean) => {
+        const turn = script.turns[turnIndex];
+        if (!turn) {
+          playModelTurn(script.fallback);
+          return;
+        }
+        turnIndex++;
+
+        if (!typed) callbacks.onMessage({ inputTranscript: turn.user });
+        if (turn.toolCalls?.length) {
+          await runToolCalls(turn.toolCalls);
+          if (closed) return;
+        }
+        playModelTurn(turn);
+      };
+
+      // Replies once the patient has said enough and the agent is not still talking
+      const endOfSpeech = () => {
+        speechMs = 0;
+        if (awaitingReply && Date.now() >= playbackEndsAt) {
+          awaitingReply = false;
+          reply(false);
+        }
+      };
+
+      schedule(() => {
+        callbacks.onOpen();
+        callbacks.onMessage({ setupComplete: true });
+        if (!isResumed) schedule(() => playModelTurn(script.greeting), 300);
+      }, 400);
+
+      return {
+        sendAudio: (pcm) => {
+          if (closed) return;
+
+          let sum = 0;
+          for (let i = 0; i < pcm.length; i++) sum += pcm[i] * pcm[i];
+          const rms = Math.sqrt(sum / pcm.length);
+          const frameMs = (pcm.length / INPUT_SAMPLE_RATE) * 1000;
+
+          if (rms > SPEECH_RMS) {
+            speechMs += frameMs;
+            silenceMs = 0;
+            if (Date.now() < playbackEndsAt && speechMs >= BARGE_IN_MS) {
+              cancelScheduled();
+              callbacks.onInterrupted();
+              callbacks.onMessage({ turnComplete: true });
+            }
+            if (speechMs >= MIN_SPEECH_MS) awaitingReply = true;
+          } else {
+            silenceMs += frameMs;
+            if (silenceMs >= END_OF_SPEECH_MS) endOfSpeech();
+          }
+        },
+        endAudioStream: () => {
+          if (closed) return;
+          silenceMs = END_OF_SPEECH_MS;
+          endOfSpeech();
+        },
+        sendText: (text) => {
+          // A fresh mock session already opens with its greeting
+          if (closed || text === HANDOFF_TRIGGER) return;
+          if (Date.now() < playbackEndsAt) {
+            cancelScheduled();
+            callbacks.onInterrupted();
+          }
+          reply(true);
+        },
+        sendToolResponse: (responses: LiveToolResponse[]) => {
+          responses.forEach((response) => {
+            if (!response.id) return;
+            pendingTools.get(response.id)?.();
+            pendingTools.delete(response.id);
+          });
+        },
+        close: () => {
+          if (closed) return;
+          closed = true;
+          cancelScheduled();
+          pendingTools.clear();
+          callbacks.onClose('Mock session closed');
+        },
+      };
+    },
+  };
+}
@@ -1,19 +1,429 @@
+import { FunctionDeclaration } from '@google/genai';
+
+export type CapabilityIcon = 'activity' | 'file-text' | 'heart-pulse' | 'stethoscope' | 'smile' | 'baby';
+
+export interface AgentCapability {
+  label: string;
+  icon: CapabilityIcon;
+}
+
+export interface LanguageOption {
+  code: string; // BCP-47 code passed to the speech config
+  label: string; // English name, used in prompts
+  nativeName: string; // Shown in the language selector
+}
+
+export interface AgentVoice {
+  language: string; // BCP-47 code matching a LanguageOption
+  voiceName: string; // Gemini voice name
+}
+
+// Patient-facing persona text in one language; capabilities follow the order of Agent.capabilities
+export interface AgentTranslation {
+  role: string;
+  description: string;
+  bestFor: string;
+  capabilities: string[];
+}
+
 export interface Agent {
   id: string;
   name: string;
   role: string;
   description: string;
-  voiceName: string; // Gemini voice name
+  voices: AgentVoice[]; // Languages this persona can speak; the first is the default
   avatarUrl: string;
-  style: 'serious' | 'cheerful';
+  themeColor: string; // Hex color used for accents and the visualizer
+  bestFor: string;
+  capabilities: AgentCapability[];
+  translations: Record<string, AgentTranslation>; // Keyed by language code; English text is the fallback
   systemInstructionAddon: string;
 }
 
+export interface ProcedureSections {
+  description: string;
+  duration: string;
+  risks: string[];
+  fasting: string[];
+  medicationHolds: string[];
+  woundCare: string[];
+  redFlags: string[];
+}
+
+// Timings used to build a patient's pre-op checklist. Fasting cutoffs count back from arrival.
+export interface PreOpPlan {
+  arrivalMinutesBefore: number; // How long before the surgery start the patient must arrive
+  solidFoodHours: number | null; // null when eating is normally allowed
+  clearFluidsHours: number | null;
+  bring: string[];
+}
+
+// Limits used to score daily recovery check-ins for a procedure
+export interface RecoveryThresholds {
+  painAmber: number; // Pain score (0-10) at or above which the answer is flagged amber
+  painRed: number;
+  feverAmberC: number;
+  feverRedC: number;
+  unaidedWalkingDay: number; // Post-op day after which still needing a walking aid is flagged
+  bedboundAmberDay: number; // Post-op day from which being confined to bed or chair is flagged amber
+  bedboundRedDay: number; // ...and red
+  bowelsOpenDay: number; // Post-op day after which bowels not having opened is flagged
+}
+
+export interface Procedure {
+  id: string;
+  name: string;
+  specialty: string;
+  translations: Record<string, { name: string; specialty: string }>; // Picker labels keyed by language code
+  sections: ProcedureSections;
+  preOp: PreOpPlan;
+  recovery: RecoveryThresholds;
+}
+
+// The clinician-editable content: shared clinical rules, persona prompts, procedure education
+// and the pre-op plans behind the checklist countdown and the catalog guardrails
+export interface ClinicalContent {
+  baseInstruction: string;
+  agentPrompts: Record<string, string>; // Keyed by agent id
+  procedures: Record<string, ProcedureSections>; // Keyed by procedure id
+  preOp: Record<string, PreOpPlan>; // Keyed by procedure id
+}
+
+export type ContentStatus = 'draft' | 'in_review' | 'approved' | 'rejected' | 'superseded';
+
+export type ContentRole = 'author' | 'reviewer';
+
+export interface ContentEvent {
+  action: 'created' | 'edited' | 'submitted' | 'approved' | 'rejected' | 'superseded';
+  by: string;
+  at: Date;
+  note?: string;
+}
+
+export interface ContentVersion {
+  number: number;
+  status: ContentStatus;
+  content: ClinicalContent;
+  contentHash: string; // sha256 of the canonical JSON of `content`
+  basedOn: number | null; // The version this draft started from; null for the built-in content
+  author: string;
+  createdAt: Date;
+  updatedAt: Date;
+  reviewedBy: string | null;
+  reviewedAt: Date | null;
+  reviewNote: string | null;
+  events: ContentEvent[];
+}
+
+// Which content a session ran on. A null version means the built-in content shipped with the app.
+export interface ContentStamp {
+  version: number | null;
+  hash: string;
+  approvedBy: string | null;
+  approvedAt: Date | null;
+}
+
+export type ChecklistCategory = 'medication' | 'bring' | 'logistics' | 'other';
+
+export interface ChecklistItem {
+  id: string;
+  category: ChecklistCategory;
+  label: string;
+  dueAt?: Date;
+  done: boolean;
+  source: 'procedure' | 'agent' | 'patient';
+}
+
+export interface PreOpChecklist {
+  procedureId: string;
+  surgeryAt: Date;
+  arrivalAt: Date;
+  solidFoodCutoffAt: Date | null;
+  clearFluidsCutoffAt: Date | null;
+  items: ChecklistItem[];
+}
+
 export interface Message {
   id: string;
   role: 'user' | 'model';
   text: string;
   timestamp: Date;
+  isPartial?: boolean; // True while transcription chunks are still arriving
+  guardrailFlagged?: boolean; // Set when the guardrail monitor caught this turn
+  agentName?: string; // Set on agent turns spoken before a mid-call transfer
+}
+
+export type EscalationSeverity = 'moderate' | 'severe' | 'critical';
+
+export type SymptomCategory =
+  | 'pain'
+  | 'bleeding'
+  | 'breathing'
+  | 'fever_infection'
+  | 'chest_cardiac'
+  | 'emotional_distress'
+  | 'other';
+
+export interface EscalationEvent {
+  id: string;
+  callId?: string; // Live API function call id
+  agentId: string;
+  severity: EscalationSeverity;
+  symptomCategory: SymptomCategory;
+  patientQuote: string;
+  timestamp: Date;
+  acknowledgedAt?: Date;
+}
+
+export type AgeGroup = 'under_18' | '18_39' | '40_64' | '65_79' | '80_plus';
+
+// Filled in by the patient and kept on this device only
+export interface PatientProfile {
+  procedureId: string;
+  surgeryDate: Date | null; // Null until the patient knows it
+  ageGroup: AgeGroup | null;
+  hasCaregiver: boolean | null; // An adult at home to help during recovery
+  preferredLanguage: string; // Language code, e.g. "hi-IN"
+  updatedAt: Date;
+}
+
+export type GuardrailCategory = 'dosage' | 'diagnosis' | 'medication_stop' | 'catalog_contradiction';
+
+export interface GuardrailRule {
+  id: string;
+  category: GuardrailCategory;
+  description: string;
+  pattern: RegExp;
+  interrupt: boolean; // Cut off the agent's audio as soon as the rule fires
+}
+
+export interface GuardrailViolation {
+  id: string;
+  ruleId: string;
+  category: GuardrailCategory;
+  excerpt: string; // The matched words from the agent's reply
+  interrupt: boolean;
+  timestamp: Date;
 }
 
-export type ConnectionState = 'disconnected' | 'connecting' | 'connected' | 'error';
+export type TeachBackTopic = 'procedure' | 'risks' | 'fasting' | 'medication' | 'wound_care' | 'red_flags' | 'logistics';
+
+export type TeachBackGrade = 'correct' | 'partial' | 'incorrect';
+
+export interface TeachBackItem {
+  id: string;
+  topic: TeachBackTopic;
+  question: string;
+  patientAnswer: string;
+  grade: TeachBackGrade;
+  reinforcement?: string; // What the patient missed, for anything not fully correct
+}
+
+export interface TeachBackResult {
+  startedAt: Date;
+  completedAt?: Date;
+  items: TeachBackItem[];
+}
+
+export interface SummaryItem {
+  text: string;
+  discussed: boolean; // The agent covered this item during the session
+}
+
+export interface SessionSummary {
+  id: string;
+  agentId: string;
+  agentName: string;
+  procedureId: string;
+  procedureName: string;
+  specialty: string;
+  languageCode: string;
+  consultationMode: ConsultationMode;
+  startedAt: Date;
+  endedAt: Date;
+  preOpInstructions: SummaryItem[]; // Fasting rules and medication holds
+  redFlags: SummaryItem[];
+  escalations: EscalationEvent[];
+  teachBack?: TeachBackResult;
+  transcript: Message[];
+  content: ContentStamp;
+}
+
+export type CheckInQuestion = 'pain' | 'wound' | 'fever' | 'mobility' | 'bowel';
+
+export type CheckInFlag = 'green' | 'amber' | 'red';
+
+export type WoundAppearance = 'clean_dry' | 'mild_redness' | 'spreading_redness' | 'discharge' | 'wound_opening';
+
+export type MobilityLevel = 'walking_unaided' | 'walking_with_aid' | 'bed_or_chair';
+
+export type BowelFunction = 'opened' | 'not_opened' | 'diarrhoea';
+
+export interface CheckInAnswers {
+  painScore?: number; // 0 (none) to 10 (worst imaginable)
+  wound?: WoundAppearance;
+  temperatureC?: number | null; // null when the patient has no reading
+  feverish?: boolean; // Feeling hot, cold or shivery
+  mobility?: MobilityLevel;
+  bowel?: BowelFunction;
+}
+
+export interface CheckInRecord {
+  id: string;
+  postOpDay: number;
+  recordedAt: Date;
+  answers: CheckInAnswers;
+  flags: Partial<Record<CheckInQuestion, CheckInFlag>>;
+  quotes: Partial<Record<CheckInQuestion, string>>; // The patient's own words, for the nurses
+  completedAt?: Date;
+}
+
+export interface RecoveryLog {
+  procedureId: string;
+  surgeryDate: Date;
+  records: CheckInRecord[]; // One per post-op day, oldest first
+}
+
+export type ConsultationMode = 'education' | 'checkin';
+
+export type AuditEventType =
+  | 'session_start'
+  | 'session_end'
+  | 'connection_error'
+  | 'reconnected'
+  | 'interruption'
+  | 'escalation'
+  | 'handoff'
+  | 'mic_permission'
+  | 'transcript'
+  | 'guardrail'
+  | 'recording_discarded'
+  | 'data_forgotten';
+
+export type AuditDetails = Record<string, string | number | boolean | null>;
+
+export interface AuditEvent {
+  id: string;
+  type: AuditEventType;
+  timestamp: string; // ISO 8601
+  sessionId: string | null;
+  details: AuditDetails; // Free-text values (transcript text, quotes, excerpts, reasons) are PHI-redacted before storage
+}
+
+// Broad subjects patients ask about, classified from transcripts for usage analytics
+export type TopicCategory =
+  | 'fasting'
+  | 'medication'
+  | 'anesthesia'
+  | 'risks'
+  | 'wound_care'
+  | 'pain'
+  | 'activity'
+  | 'symptoms'
+  | 'logistics'
+  | 'other';
+
+export type ConnectionErrorType = 'token' | 'network' | 'quota' | 'timeout' | 'closed' | 'other';
+
+/**
+ * Anonymized record of one session for the usage dashboard. It holds counts,
+ * timings and categories only: no transcript text and no identifiers.
+ */
+export interface SessionMetrics {
+  id: string; // Random, and not linked to the audit log's session id
+  startedAt: Date; // Rounded down to the hour
+  durationSeconds: number;
+  agentId: string;
+  procedureId: string;
+  language: string;
+  consultationMode: ConsultationMode;
+  inputMode: InputMode;
+  ageGroup: AgeGroup | null; // From the intake profile, when the patient gave one
+  outcome: 'completed' | 'connection_lost' | 'failed_to_connect';
+  patientTurns: number;
+  firstResponseMs: number | null; // From the end of the patient's first turn to the agent's first reply
+  medianResponseMs: number | null;
+  interruptions: number;
+  escalations: number;
+  handoffs: number; // Mid-call transfers to another assistant; agentId is the one the session started with
+  connectionErrors: ConnectionErrorType[];
+  topics: TopicCategory[];
+  contentGaps: TopicCategory[]; // Topics the agent said its approved content does not cover
+  teachBackScore: number | null;
+  contentVersion: number | null;
+}
+
+export type InputMode = 'voice' | 'text';
+
+// How the microphone decides what to send: always, while a button is held, or when speech is detected
+export type MicMode = 'open' | 'push_to_talk' | 'hands_free';
+
+// Per-device audio preferences, kept in local storage
+export interface AudioSettings {
+  inputDeviceId: string | null; // null follows the system default
+  outputDeviceId: string | null;
+  echoCancellation: boolean;
+  noiseSuppression: boolean;
+  playbackRate: number; // Agent speech speed, 1 is normal
+  volume: number; // Agent speech gain, 1 is unchanged
+}
+
+export type SpeakingState = 'user' | 'agent' | 'idle';
+
+export type ConnectionState = 'disconnected' | 'connecting' | 'connected' | 'reconnecting' | 'error';
+
+// --- Live voice providers ---
+
+export interface LiveToolCall {
+  id?: string;
+  name: string;
+  args: Record<string, unknown>;
+}
+
+export interface LiveToolResponse {
+  id?: string;
+  name: string;
+  response: Record<string, unknown>;
+}
+
+/**
+ * Provider-neutral slice of a server message. Any combination of fields may be set.
+ */
+export interface LiveVoiceMessage {
+  audio?: string; // Base64 16-bit PCM at OUTPUT_SAMPLE_RATE
+  inputTranscript?: string;
+  outputTranscript?: string;
+  toolCalls?: LiveToolCall[];
+  turnComplete?: boolean;
+  resumptionHandle?: string; // Latest handle for resuming this session after a drop
+  setupComplete?: boolean; // The server accepted the session's setup (or resumption)
+}
+
+export interface LiveSessionOptions {
+  voiceName: string;
+  languageCode: string;
+  systemInstruction: string;
+  tools: FunctionDeclaration[];
+  resumptionHandle?: string;
+}
+
+export interface LiveVoiceCallbacks {
+  onOpen: () => void;
+  onMessage: (message: LiveVoiceMessage) => void;
+  onInterrupted: () => void;
+  onClose: (reason?: string) => void;
+  onError: (error: Error) => void;
+}
+
+export interface LiveVoiceSession {
+  sendAudio: (pcm: Int16Array) => void; // 16-bit PCM at INPUT_SAMPLE_RATE
+  endAudioStream: () => void; // The patient stopped talking and no more audio follows for now
+  sendText: (text: string) => void; // A complete typed user turn
+  sendToolResponse: (responses: LiveToolResponse[]) => void;
+  close: () => void;
+}
+
+export interface LiveVoiceProvider {
+  id: string;
+  connect: (options: LiveSessionOptions, callbacks: LiveVoiceCallbacks) => Promise<LiveVoiceSession>;
+}
@@ -0,0 +1,200 @@
+import { Agent, AgentCapability, AgentTranslation, AgentVoice, CapabilityIcon } from '../types';
+
+const CAPABILITY_ICONS: CapabilityIcon[] = ['activity', 'file-text', 'heart-pulse', 'stethoscope', 'smile', 'baby'];
+
+const HEX_COLOR = /^#[0-9a-fA-F]{6}$/;
+const LANGUAGE_CODE = /^[a-z]{2,3}(-[A-Z]{2})?$/;
+
+export interface AgentRegistry {
+  agents: Agent[];
+  errors: string[];
+}
+
+type RawEntry = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is RawEntry =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Validates a single persona entry. Returns the agent, or the list of
+ * problems found, each prefixed with the entry's location in the file.
+ */
+function parseAgent(raw: unknown, index: number): Agent | string[] {
+  const where = `agents[${index}]`;
+  if (!isRecord(raw)) return [`${where}: expected an object`];
+
+  const errors: string[] = [];
+  const label = typeof raw.id === 'string' ? `${where} ("${raw.id}")` : where;
+
+  const requireString = (key: string): string => {
+    const value = raw[key];
+    if (typeof value !== 'string' || value.trim() === '') {
+      errors.push(`${label}.${key}: expected a non-empty string`);
+      return '';
+    }
+    return value.trim();
+  };
+
+  const id = requireString('id');
+  const name = requireString('name');
+  const role = requireString('role');
+  const description = requireString('description');
+  const avatarUrl = requireString('avatarUrl');
+  const bestFor = requireString('bestFor');
+
+  const voices: AgentVoice[] = [];
+  if (!Array.isArray(raw.voices) || raw.voices.length === 0) {
+    errors.push(`${label}.voices: expected a non-empty array of { language, voiceName }`);
+  } else {
+    raw.voices.forEach((voice, i) => {
+      if (!isRecord(voice) || typeof voice.language !== 'string' || !LANGUAGE_CODE.test(voice.language)) {
+        errors.push(`${label}.voices[${i}].language: expected a language code like "en-US"`);
+        return;
+      }
+      if (typeof voice.voiceName !== 'string' || voice.voiceName.trim() === '') {
+        errors.push(`${label}.voices[${i}].voiceName: expected a non-empty string`);
+        return;
+      }
+      if (voices.some(v => v.language === voice.language)) {
+        errors.push(`${label}.voices[${i}].language: "${voice.language}" is listed twice`);
+        return;
+      }
+      voices.push({ language: voice.language, voiceName: voice.voiceName.trim() });
+    });
+  }
+
+  const themeColor = requireString('themeColor');
+  if (themeColor && !HEX_COLOR.test(themeColor)) {
+    errors.push(`${label}.themeColor: "${themeColor}" is not a hex color like "#3b82f6"`);
+  }
+
+  // Prompts may be written as one string or as an array of lines
+  let systemInstructionAddon = '';
+  const addon = raw.systemInstructionAddon;
+  if (typeof addon === 'string' && addon.trim() !== '') {
+    systemInstructionAddon = addon.trim();
+  } else if (Array.isArray(addon) && addon.length > 0 && addon.every(line => typeof line === 'string')) {
+    systemInstructionAddon = addon.join('\n');
+  } else {
+    errors.push(`${label}.systemInstructionAddon: expected a non-empty string or array of strings`);
+  }
+
+  const capabilities: AgentCapability[] = [];
+  if (!Array.isArray(raw.capabilities)) {
+    errors.push(`${label}.capabilities: expected an array`);
+  } else {
+    raw.capabilities.forEach((capability, i) => {
+      if (!isRecord(capability) || typeof capability.label !== 'string' || capability.label.trim() === '') {
+        errors.push(`${label}.capabilities[${i}].label: expected a non-empty string`);
+        return;
+      }
+      if (!CAPABILITY_ICONS.includes(capability.icon as CapabilityIcon)) {
+        errors.push(`${label}.capabilities[${i}].icon: must be one of ${CAPABILITY_ICONS.join(', ')}`);
+        return;
+      }
+      capabilities.push({ label: capability.label.trim(), icon: capability.icon as CapabilityIcon });
+    });
+  }
+
+  // Optional per-language UI text; the English fields above are shown where a language has none
+  const translations: Record<string, AgentTranslation> = {};
+  if (raw.translations !== undefined && !isRecord(raw.translations)) {
+    errors.push(`${label}.translations: expected an object keyed by language code`);
+  } else if (raw.translations !== undefined) {
+    for (const [language, text] of Object.entries(raw.translations)) {
+      const where = `${label}.translations["${language}"]`;
+      if (!LANGUAGE_CODE.test(language)) {
+        errors.push(`${where}: expected a language code like "hi-IN"`);
+        continue;
+      }
+      if (!isRecord(text) || !['role', 'description', 'bestFor'].every(key => typeof text[key] === 'string' && (text[key] as string).trim() !== '')) {
+        errors.push(`${where}: expected non-empty role, description and bestFor strings`);
+        continue;
+      }
+      const labels = text.capabilities;
+      if (!Array.isArray(labels) || labels.length !== capabilities.length || !labels.every(l => typeof l === 'string' && l.trim() !== '')) {
+        errors.push(`${where}.capabilities: expected one label per capability, in the same order`);
+        continue;
+      }
+      translations[language] = {
+        role: (text.role as string).trim(),
+        description: (text.description as string).trim(),
+        bestFor: (text.bestFor as string).trim(),
+        capabilities: labels.map(l => (l as string).trim()),
+      };
+    }
+  }
+
+  if (errors.length > 0) return errors;
+
+  return {
+    id,
+    name,
+    role,
+    description,
+    voices,
+    avatarUrl,
+    themeColor,
+    bestFor,
+    capabilities,
+    translations,
+    systemInstructionAddon,
+  };
+}
+
+/**
+ * The agent with its patient-facing text in the given language, where the
+ * config has it. The system prompt and name stay as they are.
+ */
+export function localizeAgent(agent: Agent, language: string): Agent {
+  const text = agent.translations[language];
+  if (!text) return agent;
+  return {
+    ...agent,
+    role: text.role,
+    description: text.description,
+    bestFor: text.bestFor,
+    capabilities: agent.capabilities.map((capability, i) => ({ ...capability, label: text.capabilities[i] })),
+  };
+}
+
+/**
+ * Returns the voice an agent uses for a language, if it supports that language.
+ */
+export function findAgentVoice(agent: Agent, language: string): AgentVoice | undefined {
+  return agent.voices.find(v => v.language === language);
+}
+
+/**
+ * Validates the persona config file. Invalid entries are left out and
+ * reported so that one bad persona does not take the others down with it.
+ */
+export function loadAgentRegistry(config: unknown): AgentRegistry {
+  if (!Array.isArray(config)) {
+    return { agents: [], errors: ['agents: expected the config file to contain an array of personas'] };
+  }
+
+  const agents: Agent[] = [];
+  const errors: string[] = [];
+  const seenIds = new Set<string>();
+
+  config.forEach((raw, index) => {
+    const result = parseAgent(raw, index);
+    if (Array.isArray(result)) {
+      errors.push(...result);
+      return;
+    }
+    if (seenIds.has(result.id)) {
+      errors.push(`agents[${index}].id: duplicate id "${result.id}"`);
+      return;
+    }
+    seenIds.add(result.id);
+    agents.push(result);
+  });
+
+  if (errors.length > 0) {
+    console.error("Agent config problems:\n" + errors.join('\n'));
+  }
+
+  return { agents, errors };
+}
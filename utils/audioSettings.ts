@@ -0,0 +1,85 @@
+import { AudioSettings } from '../types';
+
+const STORAGE_KEY = 'atoscare.audio-settings';
+
+// Buffer playback speed also shifts pitch, so the range stays narrow
+export const PLAYBACK_RATES = [0.8, 0.9, 1, 1.1, 1.2];
+export const MAX_VOLUME = 2;
+
+export const DEFAULT_AUDIO_SETTINGS: AudioSettings = {
+  inputDeviceId: null,
+  outputDeviceId: null,
+  echoCancellation: true,
+  noiseSuppression: true,
+  playbackRate: 1,
+  volume: 1,
+};
+
+export function loadAudioSettings(): AudioSettings {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return DEFAULT_AUDIO_SETTINGS;
+    const saved = JSON.parse(raw) as Partial<AudioSettings>;
+    return {
+      inputDeviceId: typeof saved.inputDeviceId === 'string' ? saved.inputDeviceId : null,
+      outputDeviceId: typeof saved.outputDeviceId === 'string' ? saved.outputDeviceId : null,
+      echoCancellation: saved.echoCancellation ?? DEFAULT_AUDIO_SETTINGS.echoCancellation,
+      noiseSuppression: saved.noiseSuppression ?? DEFAULT_AUDIO_SETTINGS.noiseSuppression,
+      playbackRate: PLAYBACK_RATES.includes(saved.playbackRate as number) ? saved.playbackRate as number : 1,
+      volume: typeof saved.volume === 'number' ? Math.min(MAX_VOLUME, Math.max(0, saved.volume)) : 1,
+    };
+  } catch (e) {
+    console.warn("Ignoring unreadable audio settings", e);
+    return DEFAULT_AUDIO_SETTINGS;
+  }
+}
+
+export function saveAudioSettings(settings: AudioSettings): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+}
+
+/**
+ * getUserMedia constraints for the chosen microphone. The device is only
+ * preferred, so an unplugged headset falls back to the default mic.
+ */
+export function microphoneConstraints(
+  settings: Pick<AudioSettings, 'inputDeviceId' | 'echoCancellation' | 'noiseSuppression'>,
+): MediaStreamConstraints {
+  return {
+    audio: {
+      deviceId: settings.inputDeviceId ? { ideal: settings.inputDeviceId } : undefined,
+      echoCancellation: settings.echoCancellation,
+      noiseSuppression: settings.noiseSuppression,
+    },
+  };
+}
+
+// AudioContext.setSinkId is missing from the DOM typings and from non-Chromium browsers
+type RoutableAudioContext = AudioContext & { setSinkId?: (sinkId: string) => Promise<void> };
+
+export function canSelectOutputDevice(): boolean {
+  return typeof window.AudioContext === 'function'
+    && typeof (window.AudioContext.prototype as RoutableAudioContext).setSinkId === 'function';
+}
+
+/**
+ * Sends a context's playback to the given speaker or headset; null restores
+ * the system default. Does nothing where the browser cannot route output.
+ */
+export async function routeAudioOutput(ctx: AudioContext, deviceId: string | null): Promise<void> {
+  const routable = ctx as RoutableAudioContext;
+  if (!routable.setSinkId) return;
+  await routable.setSinkId(deviceId ?? '');
+}
+
+/**
+ * Microphones and speakers the browser exposes. Labels stay empty until the
+ * page has been granted microphone access at least once.
+ */
+export async function listAudioDevices(): Promise<{ inputs: MediaDeviceInfo[]; outputs: MediaDeviceInfo[] }> {
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return {
+    inputs: devices.filter(d => d.kind === 'audioinput'),
+    outputs: devices.filter(d => d.kind === 'audiooutput'),
+  };
+}
@@ -1,5 +1,10 @@
 import { Blob } from '@google/genai';
 
+// Rate the Live API expects for microphone input
+export const INPUT_SAMPLE_RATE = 16000;
+// Rate of the PCM the Live API returns
+export const OUTPUT_SAMPLE_RATE = 24000;
+
 /**
  * Encodes audio bytes to base64 string.
  */
@@ -48,9 +53,9 @@ export async function decodeAudioData(
 }
 
 /**
- * Creates a PCM Blob compatible with Gemini Live API from Float32 input.
+ * Converts Float32 samples in [-1, 1] to 16-bit signed PCM.
  */
-export function createBlob(data: Float32Array): Blob {
+export function float32ToInt16(data: Float32Array): Int16Array {
   const l = data.length;
   const int16 = new Int16Array(l);
   for (let i = 0; i < l; i++) {
@@ -58,8 +63,52 @@ export function createBlob(data: Float32Array): Blob {
     const s = Math.max(-1, Math.min(1, data[i]));
     int16[i] = s < 0 ? s * 0x8000 : s * 0x7FFF;
   }
+  return int16;
+}
+
+/**
+ * Wraps 16-bit PCM in a Blob compatible with the Gemini Live API.
+ */
+export function pcmToBlob(int16: Int16Array, sampleRate: number = INPUT_SAMPLE_RATE): Blob {
   return {
-    data: encode(new Uint8Array(int16.buffer)),
-    mimeType: 'audio/pcm;rate=16000',
+    data: encode(new Uint8Array(int16.buffer, int16.byteOffset, int16.byteLength)),
+    mimeType: `audio/pcm;rate=${sampleRate}`,
   };
 }
+
+/**
+ * Creates a PCM Blob compatible with Gemini Live API from Float32 input.
+ * The samples must already be at `sampleRate`.
+ */
+export function createBlob(data: Float32Array, sampleRate: number = INPUT_SAMPLE_RATE): Blob {
+  return pcmToBlob(float32ToInt16(data), sampleRate);
+}
+
+/**
+ * Wraps interleaved 16-bit PCM in a WAV (RIFF) file.
+ */
+export function encodeWav(interleaved: Int16Array, sampleRate: number, numChannels: number): ArrayBuffer {
+  const dataBytes = interleaved.length * 2;
+  const buffer = new ArrayBuffer(44 + dataBytes);
+  const view = new DataView(buffer);
+  const writeTag = (offset: number, tag: string) => {
+    for (let i = 0; i < tag.length; i++) view.setUint8(offset + i, tag.charCodeAt(i));
+  };
+
+  writeTag(0, 'RIFF');
+  view.setUint32(4, 36 + dataBytes, true);
+  writeTag(8, 'WAVE');
+  writeTag(12, 'fmt ');
+  view.setUint32(16, 16, true); // PCM format chunk size
+  view.setUint16(20, 1, true); // Linear PCM
+  view.setUint16(22, numChannels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * numChannels * 2, true); // Byte rate
+  view.setUint16(32, numChannels * 2, true); // Block align
+  view.setUint16(34, 16, true); // Bits per sample
+  writeTag(36, 'data');
+  view.setUint32(40, dataBytes, true);
+
+  new Int16Array(buffer, 44).set(interleaved);
+  return buffer;
+}
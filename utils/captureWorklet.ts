@@ -0,0 +1,95 @@
+import { INPUT_SAMPLE_RATE } from './audioUtils';
+
+export const CAPTURE_PROCESSOR_NAME = 'pcm-capture-processor';
+
+// 20 ms of 16 kHz audio per message
+export const CAPTURE_FRAME_SIZE = 320;
+
+/**
+ * Runs on the audio rendering thread. Resamples the mono mic signal from the
+ * context's real sample rate to the target rate with linear interpolation and
+ * posts fixed-size Int16 frames back to the main thread.
+ */
+const PROCESSOR_SOURCE = `
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const opts = options.processorOptions || {};
+    this.ratio = sampleRate / opts.targetSampleRate;
+    this.frameSize = opts.frameSize;
+    this.frame = new Int16Array(this.frameSize);
+    this.frameIndex = 0;
+    this.position = 0; // Fractional read index into the current block
+    this.previous = 0; // Last sample of the previous block (index -1)
+  }
+
+  push(sample) {
+    const s = Math.max(-1, Math.min(1, sample));
+    this.frame[this.frameIndex++] = s < 0 ? s * 0x8000 : s * 0x7FFF;
+    if (this.frameIndex === this.frameSize) {
+      this.port.postMessage(this.frame.buffer, [this.frame.buffer]);
+      this.frame = new Int16Array(this.frameSize);
+      this.frameIndex = 0;
+    }
+  }
+
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (!channel || channel.length === 0) return true;
+
+    const n = channel.length;
+    while (this.position < n - 1) {
+      const i = Math.floor(this.position);
+      const frac = this.position - i;
+      const a = i < 0 ? this.previous : channel[i];
+      const b = channel[i + 1];
+      this.push(a + (b - a) * frac);
+      this.position += this.ratio;
+    }
+    this.position -= n;
+    this.previous = channel[n - 1];
+    return true;
+  }
+}
+
+registerProcessor('${CAPTURE_PROCESSOR_NAME}', PcmCaptureProcessor);
+`;
+
+const loadedContexts = new WeakMap<BaseAudioContext, Promise<void>>();
+
+/**
+ * Registers the capture processor on a context once. Subsequent calls reuse
+ * the same promise so reconnecting does not re-register the processor.
+ */
+export function ensureCaptureWorklet(ctx: BaseAudioContext): Promise<void> {
+  let loaded = loadedContexts.get(ctx);
+  if (!loaded) {
+    const url = URL.createObjectURL(new Blob([PROCESSOR_SOURCE], { type: 'application/javascript' }));
+    loaded = ctx.audioWorklet
+      .addModule(url)
+      .catch((err) => {
+        loadedContexts.delete(ctx);
+        throw err;
+      })
+      .finally(() => URL.revokeObjectURL(url));
+    loadedContexts.set(ctx, loaded);
+  }
+  return loaded;
+}
+
+/**
+ * Creates the capture node. It has no outputs, so nothing is routed to the
+ * speakers, but it is still pulled by the rendering thread.
+ */
+export function createCaptureNode(ctx: BaseAudioContext): AudioWorkletNode {
+  return new AudioWorkletNode(ctx, CAPTURE_PROCESSOR_NAME, {
+    numberOfInputs: 1,
+    numberOfOutputs: 0,
+    channelCount: 1,
+    channelCountMode: 'explicit',
+    processorOptions: {
+      targetSampleRate: INPUT_SAMPLE_RATE,
+      frameSize: CAPTURE_FRAME_SIZE,
+    },
+  });
+}
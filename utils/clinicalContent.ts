@@ -0,0 +1,221 @@
+import { Agent, ClinicalContent, ContentStamp, PreOpPlan, Procedure, ProcedureSections } from '../types';
+import { AGENTS, BASE_SYSTEM_INSTRUCTION } from '../constants';
+import { PROCEDURES } from '../procedures';
+
+export const SECTION_KEYS: (keyof ProcedureSections)[] = [
+  'description', 'duration', 'risks', 'fasting', 'medicationHolds', 'woundCare', 'redFlags',
+];
+
+export const PRE_OP_KEYS: (keyof PreOpPlan)[] = ['arrivalMinutesBefore', 'solidFoodHours', 'clearFluidsHours', 'bring'];
+
+// Left empty when the procedure has no fixed cut-off
+const OPTIONAL_PRE_OP_KEYS: (keyof PreOpPlan)[] = ['solidFoodHours', 'clearFluidsHours'];
+
+/**
+ * Pulls the clinician-editable text out of a set of agents and procedures.
+ */
+export function extractContent(agents: Agent[], procedures: Procedure[], baseInstruction: string): ClinicalContent {
+  return {
+    baseInstruction,
+    agentPrompts: Object.fromEntries(agents.map(agent => [agent.id, agent.systemInstructionAddon])),
+    procedures: Object.fromEntries(procedures.map(procedure => [procedure.id, procedure.sections])),
+    preOp: Object.fromEntries(procedures.map(procedure => [procedure.id, procedure.preOp])),
+  };
+}
+
+/**
+ * Versions approved before pre-op plans were reviewed have none; they are
+ * read as carrying the built-in plans, which is what those sessions used.
+ */
+export function withBuiltInPreOp(content: Omit<ClinicalContent, 'preOp'> & Partial<Pick<ClinicalContent, 'preOp'>>): ClinicalContent {
+  return { ...content, preOp: content.preOp ?? BUILT_IN_CONTENT.preOp };
+}
+
+// What ships in constants.ts and procedures.ts, used until a version is approved
+export const BUILT_IN_CONTENT = extractContent(AGENTS, PROCEDURES, BASE_SYSTEM_INSTRUCTION);
+
+// The content a session runs on, with where it came from
+export interface ActiveContent {
+  agents: Agent[];
+  procedures: Procedure[];
+  baseInstruction: string;
+  version: number | null;
+  approvedBy: string | null;
+  approvedAt: Date | null;
+}
+
+export const BUILT_IN_ACTIVE_CONTENT: ActiveContent = {
+  agents: AGENTS,
+  procedures: PROCEDURES,
+  baseInstruction: BASE_SYSTEM_INSTRUCTION,
+  version: null,
+  approvedBy: null,
+  approvedAt: null,
+};
+
+/**
+ * Lays an approved version over the built-in agents and procedures. Anything
+ * the version does not cover (say, a persona added since it was approved)
+ * keeps its built-in text, and the session stamp hashes what was actually used.
+ */
+export function applyContent(content: ClinicalContent, version: number, approvedBy: string | null, approvedAt: Date | null): ActiveContent {
+  return {
+    agents: AGENTS.map(agent => {
+      const prompt = content.agentPrompts[agent.id];
+      return prompt ? { ...agent, systemInstructionAddon: prompt } : agent;
+    }),
+    procedures: PROCEDURES.map(procedure => ({
+      ...procedure,
+      sections: content.procedures[procedure.id] ?? procedure.sections,
+      preOp: content.preOp[procedure.id] ?? procedure.preOp,
+    })),
+    baseInstruction: content.baseInstruction,
+    version,
+    approvedBy,
+    approvedAt,
+  };
+}
+
+// Keys are sorted so the browser and the content server hash the same bundle identically
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    return `{${Object.keys(record).sort().map(key => `${JSON.stringify(key)}:${canonicalJson(record[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+export async function contentHash(content: ClinicalContent): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(canonicalJson(content)));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Records which content a session is about to run on.
+ */
+export async function stampContent(active: ActiveContent): Promise<ContentStamp> {
+  return {
+    version: active.version,
+    hash: await contentHash(extractContent(active.agents, active.procedures, active.baseInstruction)),
+    approvedBy: active.approvedBy,
+    approvedAt: active.approvedAt,
+  };
+}
+
+/**
+ * Short form for summaries and logs, e.g. "v3 · 1a2b3c4d5e6f".
+ */
+export function formatContentStamp(stamp: ContentStamp, builtInLabel: string): string {
+  return `${stamp.version === null ? builtInLabel : `v${stamp.version}`} · ${stamp.hash.slice(0, 12)}`;
+}
+
+// --- Editing ---
+
+// One editable piece of text. List sections are edited one item per line.
+export interface ContentField {
+  key: string;
+  kind: 'base' | 'agent' | 'procedure' | 'preOp';
+  id?: string; // Agent or procedure id
+  section?: keyof ProcedureSections;
+  preOpKey?: keyof PreOpPlan;
+  optional?: boolean; // May be left empty
+  get: (content: ClinicalContent) => string;
+  set: (content: ClinicalContent, text: string) => ClinicalContent;
+}
+
+const toLines = (text: string): string[] => text.split('\n').map(line => line.trim()).filter(Boolean);
+
+// Numbers are typed as text; anything that is not one is kept as NaN so validation can catch it
+const toNumber = (text: string): number | null => (text.trim() === '' ? null : Number(text.trim()));
+
+/**
+ * Lists every editable field in a bundle, in console order.
+ */
+export function contentFields(content: ClinicalContent): ContentField[] {
+  const fields: ContentField[] = [{
+    key: 'base',
+    kind: 'base',
+    get: c => c.baseInstruction,
+    set: (c, text) => ({ ...c, baseInstruction: text }),
+  }];
+
+  for (const id of Object.keys(content.agentPrompts)) {
+    fields.push({
+      key: `agent:${id}`,
+      kind: 'agent',
+      id,
+      get: c => c.agentPrompts[id] ?? '',
+      set: (c, text) => ({ ...c, agentPrompts: { ...c.agentPrompts, [id]: text } }),
+    });
+  }
+
+  for (const id of Object.keys(content.procedures)) {
+    for (const section of SECTION_KEYS) {
+      fields.push({
+        key: `procedure:${id}:${section}`,
+        kind: 'procedure',
+        id,
+        section,
+        get: (c) => {
+          const value = c.procedures[id]?.[section];
+          return Array.isArray(value) ? value.join('\n') : value ?? '';
+        },
+        set: (c, text) => ({
+          ...c,
+          procedures: {
+            ...c.procedures,
+            [id]: { ...c.procedures[id], [section]: typeof c.procedures[id][section] === 'string' ? text : toLines(text) },
+          },
+        }),
+      });
+    }
+  }
+
+  for (const id of Object.keys(content.preOp)) {
+    for (const preOpKey of PRE_OP_KEYS) {
+      fields.push({
+        key: `preOp:${id}:${preOpKey}`,
+        kind: 'preOp',
+        id,
+        preOpKey,
+        optional: OPTIONAL_PRE_OP_KEYS.includes(preOpKey),
+        get: (c) => {
+          const value = c.preOp[id]?.[preOpKey];
+          return Array.isArray(value) ? value.join('\n') : value === null || value === undefined ? '' : String(value);
+        },
+        set: (c, text) => ({
+          ...c,
+          preOp: {
+            ...c.preOp,
+            [id]: { ...c.preOp[id], [preOpKey]: preOpKey === 'bring' ? toLines(text) : toNumber(text) },
+          },
+        }),
+      });
+    }
+  }
+  return fields;
+}
+
+/**
+ * Keys of required fields left empty. The content server rejects a bundle with any.
+ */
+export function emptyContentFields(content: ClinicalContent): string[] {
+  return contentFields(content).filter(field => !field.optional && field.get(content).trim() === '').map(field => field.key);
+}
+
+/**
+ * Keys of pre-op numbers that are not usable: arrival must be a whole number
+ * of minutes above zero, and fasting hours zero or more.
+ */
+export function invalidContentFields(content: ClinicalContent): string[] {
+  return Object.entries(content.preOp).flatMap(([id, plan]) => {
+    const invalid: string[] = [];
+    if (!Number.isInteger(plan.arrivalMinutesBefore) || plan.arrivalMinutesBefore <= 0) invalid.push(`preOp:${id}:arrivalMinutesBefore`);
+    for (const key of OPTIONAL_PRE_OP_KEYS) {
+      const hours = plan[key] as number | null;
+      if (hours !== null && !(Number.isFinite(hours) && hours >= 0)) invalid.push(`preOp:${id}:${key}`);
+    }
+    return invalid;
+  });
+}
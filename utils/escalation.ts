@@ -0,0 +1,69 @@
+import { FunctionDeclaration, Type } from '@google/genai';
+import { EscalationEvent, EscalationSeverity, LiveToolCall, SymptomCategory } from '../types';
+
+export const ESCALATION_FUNCTION_NAME = 'escalate_to_nursing';
+
+const SEVERITIES: EscalationSeverity[] = ['moderate', 'severe', 'critical'];
+
+const SYMPTOM_CATEGORIES: SymptomCategory[] = [
+  'pain',
+  'bleeding',
+  'breathing',
+  'fever_infection',
+  'chest_cardiac',
+  'emotional_distress',
+  'other',
+];
+
+/**
+ * Tool the model must call whenever a patient reports an urgent symptom.
+ */
+export const escalationDeclaration: FunctionDeclaration = {
+  name: ESCALATION_FUNCTION_NAME,
+  description:
+    'Escalate the conversation to the hospital nursing team. Call this immediately when the patient reports severe pain, uncontrolled bleeding, difficulty breathing, chest pain, high fever, intense fear or any other emergency.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      severity: {
+        type: Type.STRING,
+        enum: SEVERITIES,
+        description: 'How urgent the situation is. Use "critical" for anything potentially life-threatening.',
+      },
+      symptom_category: {
+        type: Type.STRING,
+        enum: SYMPTOM_CATEGORIES,
+        description: 'The category that best describes the reported symptom.',
+      },
+      patient_quote: {
+        type: Type.STRING,
+        description: "The patient's own words describing the problem, quoted as closely as possible.",
+      },
+    },
+    required: ['severity', 'symptom_category', 'patient_quote'],
+  },
+};
+
+/**
+ * Builds an escalation event from a model function call, falling back to
+ * the most cautious values when arguments are missing or malformed.
+ */
+export function parseEscalationCall(call: LiveToolCall, agentId: string): EscalationEvent {
+  const { args } = call;
+  const severity = SEVERITIES.includes(args.severity as EscalationSeverity)
+    ? (args.severity as EscalationSeverity)
+    : 'critical';
+  const symptomCategory = SYMPTOM_CATEGORIES.includes(args.symptom_category as SymptomCategory)
+    ? (args.symptom_category as SymptomCategory)
+    : 'other';
+
+  return {
+    id: `esc-${crypto.randomUUID()}`,
+    callId: call.id,
+    agentId,
+    severity,
+    symptomCategory,
+    patientQuote: typeof args.patient_quote === 'string' ? args.patient_quote.trim() : '',
+    timestamp: new Date(),
+  };
+}
@@ -0,0 +1,182 @@
+import { GuardrailCategory, GuardrailRule, GuardrailViolation, Message, Procedure } from '../types';
+
+const CATEGORIES: GuardrailCategory[] = ['dosage', 'diagnosis', 'medication_stop', 'catalog_contradiction'];
+
+const NUMBER_WORDS = ['zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten', 'eleven', 'twelve'];
+const SPOKEN_NUMBER = `(?:\\d{1,2}|${NUMBER_WORDS.join('|')})`;
+
+// Rule patterns, including the generated catalog rules, are written against English replies
+const GUARDRAIL_LANGUAGE = 'en';
+
+/**
+ * Whether the guardrails can check replies in the given session language.
+ * In other languages the patterns never match, so the checks are skipped.
+ */
+export function guardrailsCoverLanguage(languageCode: string): boolean {
+  return languageCode.split('-')[0] === GUARDRAIL_LANGUAGE;
+}
+
+export interface GuardrailRuleSet {
+  rules: GuardrailRule[];
+  errors: string[];
+}
+
+type RawEntry = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is RawEntry =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Validates a single rule entry. Returns the rule, or the list of problems
+ * found, each prefixed with the entry's location in the file.
+ */
+function parseRule(raw: unknown, index: number): GuardrailRule | string[] {
+  const where = `guardrails[${index}]`;
+  if (!isRecord(raw)) return [`${where}: expected an object`];
+
+  const errors: string[] = [];
+  const label = typeof raw.id === 'string' ? `${where} ("${raw.id}")` : where;
+
+  const requireString = (key: string): string => {
+    const value = raw[key];
+    if (typeof value !== 'string' || value.trim() === '') {
+      errors.push(`${label}.${key}: expected a non-empty string`);
+      return '';
+    }
+    return value.trim();
+  };
+
+  const id = requireString('id');
+  const description = requireString('description');
+  const source = requireString('pattern');
+
+  const category = raw.category as GuardrailCategory;
+  if (!CATEGORIES.includes(category)) {
+    errors.push(`${label}.category: must be one of ${CATEGORIES.join(', ')}`);
+  }
+
+  let pattern = /$^/;
+  if (source) {
+    try {
+      pattern = new RegExp(source, 'i');
+    } catch (e) {
+      errors.push(`${label}.pattern: ${e instanceof Error ? e.message : 'invalid regular expression'}`);
+    }
+  }
+
+  if (raw.interrupt !== undefined && typeof raw.interrupt !== 'boolean') {
+    errors.push(`${label}.interrupt: expected true or false`);
+  }
+
+  if (errors.length > 0) return errors;
+  return { id, category, description, pattern, interrupt: raw.interrupt === true };
+}
+
+/**
+ * Validates the guardrail config file. Patterns are matched case-insensitively
+ * and only cover English replies (see guardrailsCoverLanguage). Invalid
+ * entries are left out and reported, and the rest stay active.
+ */
+export function loadGuardrailRules(config: unknown): GuardrailRuleSet {
+  if (!Array.isArray(config)) {
+    return { rules: [], errors: ['guardrails: expected the config file to contain an array of rules'] };
+  }
+
+  const rules: GuardrailRule[] = [];
+  const errors: string[] = [];
+  const seenIds = new Set<string>();
+
+  config.forEach((raw, index) => {
+    const result = parseRule(raw, index);
+    if (Array.isArray(result)) {
+      errors.push(...result);
+      return;
+    }
+    if (seenIds.has(result.id)) {
+      errors.push(`guardrails[${index}].id: duplicate id "${result.id}"`);
+      return;
+    }
+    seenIds.add(result.id);
+    rules.push(result);
+  });
+
+  if (errors.length > 0) {
+    console.error("Guardrail config problems:\n" + errors.join('\n'));
+  }
+
+  return { rules, errors };
+}
+
+// Matches any hour count other than the approved one, written as digits or words
+const otherHours = (hours: number) =>
+  `(?!(?:${hours}|${NUMBER_WORDS[hours] ?? hours})\\s)${SPOKEN_NUMBER}\\s+hours?\\b`;
+
+/**
+ * Rules generated from the procedure's approved fasting plan, so the agent
+ * cannot quote fasting times the catalog does not contain. A rule that the
+ * approved fasting text itself would trip is dropped.
+ */
+export function catalogGuardrailRules(procedure: Procedure): GuardrailRule[] {
+  const approved = procedure.sections.fasting;
+  return fastingRules(procedure).filter(rule => !approved.some(line => rule.pattern.test(line)));
+}
+
+function fastingRules(procedure: Procedure): GuardrailRule[] {
+  const { solidFoodHours, clearFluidsHours } = procedure.preOp;
+  const rule = (id: string, description: string, pattern: string): GuardrailRule => ({
+    id: `catalog-${id}`,
+    category: 'catalog_contradiction',
+    description,
+    pattern: new RegExp(pattern, 'i'),
+    interrupt: true,
+  });
+
+  if (solidFoodHours === null) {
+    return [
+      rule('fasting-required', 'Says fasting is needed for a procedure without fasting', "\\b(?:you (?:must|need to|should|will need to|'ll need to) fast|no (?:solid )?food for)\\b"),
+    ];
+  }
+
+  const rules = [
+    rule('no-fasting', 'Says fasting is not needed', "\\b(?:no need to fast|(?:don't|do not|won't|will not) need to fast|you can eat (?:normally|as usual|whatever you like))\\b"),
+    rule('solid-food-hours', `Quotes a solid food cut-off other than ${solidFoodHours} hours`, `\\b(?:no (?:solid )?food|stop eating|nothing to eat)\\b[^.?!]{0,30}?\\b${otherHours(solidFoodHours)}`),
+  ];
+  if (clearFluidsHours !== null) {
+    rules.push(rule('clear-fluid-hours', `Quotes a clear fluid cut-off other than ${clearFluidsHours} hours`, `\\b(?:clear fluids|water|drinks?)\\b[^.?!]{0,40}?\\b(?:until|up to)\\s+${otherHours(clearFluidsHours)}`));
+  }
+  return rules;
+}
+
+/**
+ * Checks the agent's reply so far against the rules. Rules listed in
+ * `alreadyFired` are skipped so one reply raises each violation once.
+ */
+export function findGuardrailViolations(
+  text: string,
+  rules: GuardrailRule[],
+  alreadyFired: ReadonlySet<string> = new Set(),
+): GuardrailViolation[] {
+  const timestamp = new Date();
+  return rules.flatMap((rule) => {
+    if (alreadyFired.has(rule.id)) return [];
+    const match = rule.pattern.exec(text);
+    if (!match) return [];
+    return [{
+      id: `guardrail-${timestamp.getTime()}-${rule.id}`,
+      ruleId: rule.id,
+      category: rule.category,
+      excerpt: match[0],
+      interrupt: rule.interrupt,
+      timestamp,
+    }];
+  });
+}
+
+/**
+ * Marks the agent's latest turn so the transcript shows the disclaimer beside it.
+ */
+export function flagLatestModelTurn(history: Message[]): Message[] {
+  const index = history.map(m => m.role).lastIndexOf('model');
+  if (index === -1 || history[index].guardrailFlagged) return history;
+  return history.map((m, i) => (i === index ? { ...m, guardrailFlagged: true } : m));
+}
@@ -0,0 +1,21 @@
+import { Agent, Message } from '../types';
+import { findAgentVoice } from './agentRegistry';
+
+// Sent as a user turn once the receiving assistant's session is open; the system instruction explains it
+export const HANDOFF_TRIGGER = '[HANDOFF] I have just been transferred to you.';
+
+/**
+ * Assistants the patient can be transferred to mid-call: everyone else who
+ * speaks the call's language, since the voice cannot change language.
+ */
+export function transferTargets(agents: Agent[], current: Agent, languageCode: string): Agent[] {
+  return agents.filter(agent => agent.id !== current.id && findAgentVoice(agent, languageCode));
+}
+
+/**
+ * Credits agent turns that have no speaker yet to the given assistant, so
+ * transcripts still show who said what after the call changes hands.
+ */
+export function attributeAgentTurns(history: Message[], agentName: string): Message[] {
+  return history.map(m => (m.role === 'model' && !m.agentName ? { ...m, agentName } : m));
+}
@@ -0,0 +1,30 @@
+export interface LiveToken {
+  token: string;
+  expireTime: string;
+  newSessionExpireTime: string;
+  model: string;
+  stub: boolean;
+}
+
+/**
+ * Fetches a single-use ephemeral token for opening a Live API session.
+ * The long-lived API key stays on the token server.
+ */
+export async function fetchLiveToken(): Promise<LiveToken> {
+  let response: Response;
+  try {
+    response = await fetch(process.env.LIVE_TOKEN_URL || '/api/live-token', { method: 'POST' });
+  } catch (err) {
+    throw new Error("Could not reach the session token server. Is it running?");
+  }
+
+  if (!response.ok) {
+    throw new Error(`Session token server returned ${response.status}`);
+  }
+
+  const body = await response.json();
+  if (typeof body?.token !== 'string' || !body.token) {
+    throw new Error("Session token server returned an invalid token");
+  }
+  return body as LiveToken;
+}
@@ -0,0 +1,72 @@
+import { AgeGroup, PatientProfile } from '../types';
+import { LANGUAGES } from '../locales';
+import { PROCEDURES } from '../procedures';
+import { clearAllChecklists } from './preOpChecklist';
+import { clearAllRecoveryLogs } from './recoveryCheckIn';
+
+const STORAGE_KEY = 'atoscare.profile';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const AGE_GROUPS: AgeGroup[] = ['under_18', '18_39', '40_64', '65_79', '80_plus'];
+
+/**
+ * Calendar days from the surgery date to today: negative before the
+ * operation, 0 on the day itself.
+ */
+export function daysSinceSurgery(surgeryDate: Date, now: Date = new Date()): number {
+  const start = new Date(surgeryDate.getFullYear(), surgeryDate.getMonth(), surgeryDate.getDate());
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  return Math.round((today.getTime() - start.getTime()) / DAY_MS);
+}
+
+// --- Persistence ---
+
+// A profile as JSON.stringify leaves it, with dates as ISO strings
+type SerializedPatientProfile = Omit<PatientProfile, 'surgeryDate' | 'updatedAt'> & {
+  surgeryDate: string | null;
+  updatedAt: string;
+};
+
+/**
+ * The saved profile, or null if there is none or it names a language or
+ * procedure this build does not offer.
+ */
+export function loadPatientProfile(): PatientProfile | null {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return null;
+    const parsed = JSON.parse(raw) as SerializedPatientProfile;
+    if (!LANGUAGES.some(l => l.code === parsed.preferredLanguage) || !PROCEDURES.some(p => p.id === parsed.procedureId)) {
+      console.warn("Ignoring patient profile with an unknown language or procedure");
+      return null;
+    }
+    return {
+      procedureId: parsed.procedureId,
+      surgeryDate: parsed.surgeryDate ? new Date(parsed.surgeryDate) : null,
+      ageGroup: AGE_GROUPS.includes(parsed.ageGroup) ? parsed.ageGroup : null,
+      hasCaregiver: typeof parsed.hasCaregiver === 'boolean' ? parsed.hasCaregiver : null,
+      preferredLanguage: parsed.preferredLanguage,
+      updatedAt: new Date(parsed.updatedAt),
+    };
+  } catch (e) {
+    console.warn("Ignoring unreadable patient profile", e);
+    return null;
+  }
+}
+
+export function savePatientProfile(profile: PatientProfile): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(profile));
+}
+
+/**
+ * "Forget my data": removes the profile and everything the patient entered
+ * on this device. Display preferences such as the language are kept, and so
+ * is the audit log, which is redacted and kept for compliance. The usage
+ * metrics hold nothing that identifies the patient, so they stay too.
+ */
+export function forgetPatientData(): void {
+  localStorage.removeItem(STORAGE_KEY);
+  clearAllChecklists();
+  clearAllRecoveryLogs();
+}
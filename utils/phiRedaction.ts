@@ -0,0 +1,50 @@
+// Patterns for identifiers patients commonly say aloud. Order matters:
+// specific formats run before the broad number and date patterns.
+const PHI_PATTERNS: { label: string; pattern: RegExp }[] = [
+  { label: 'EMAIL', pattern: /[\w.+-]+@[\w-]+\.[\w.-]+/g },
+  { label: 'SSN', pattern: /\b\d{3}-\d{2}-\d{4}\b/g },
+  // "MRN 1234567", "medical record number is AB-12345", "hospital number: 998877".
+  // The number must contain a digit, so "my patient number is fine" is left alone.
+  {
+    label: 'MRN',
+    pattern: /\b(?:MRN|medical record(?: number)?|hospital (?:number|no\.?)|patient (?:id|number))\s*(?:is|:|#)?\s*(?=[A-Z-]*\d)[A-Z0-9-]{4,}\b/gi,
+  },
+  { label: 'PHONE', pattern: /(?:\+\d{1,3}[\s.-]?)?(?:\(\d{2,4}\)[\s.-]?|\b\d{2,4}[\s.-])\d{3,4}[\s.-]?\d{3,4}\b/g },
+  // 12/03/1961, 1961-03-12, 12.3.61
+  { label: 'DATE', pattern: /\b(?:\d{1,2}[/.-]\d{1,2}[/.-]\d{2,4}|\d{4}-\d{2}-\d{2})\b/g },
+  // 12 March 1961, March 12th, 1961
+  {
+    label: 'DATE',
+    pattern: /\b(?:\d{1,2}(?:st|nd|rd|th)?\s+(?:of\s+)?(?:jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec)[a-z]*,?\s+\d{4}|(?:jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec)[a-z]*\s+\d{1,2}(?:st|nd|rd|th)?,?\s+\d{4})\b/gi,
+  },
+  // Self-introductions: "my name is Jane Doe", "I'm called Ravi", "hi, this is Jane"
+  {
+    label: 'NAME',
+    pattern: /\b(?:[Mm]y name is|[Mm]y name's|I am called|I'm called|[Cc]all me)\s+((?:[A-Z][a-z'-]+)(?:\s+[A-Z][a-z'-]+){0,2})/g,
+  },
+  // "This is" alone also introduces procedures ("This is Hernia Repair"), so only a greeting or "speaking" marks a name
+  {
+    label: 'NAME',
+    pattern: /\b(?:(?:[Hh]i|[Hh]ello|[Hh]ey),?\s+this is\s+((?:[A-Z][a-z'-]+)(?:\s+[A-Z][a-z'-]+)?)|[Tt]his is\s+((?:[A-Z][a-z'-]+)(?:\s+[A-Z][a-z'-]+)?)\s+speaking)\b/g,
+  },
+  { label: 'NAME', pattern: /\b(?:Mr|Mrs|Ms|Miss|Dr)\.?\s+[A-Z][a-z'-]+(?:\s+[A-Z][a-z'-]+)?/g },
+];
+
+/**
+ * Replaces names, dates, phone numbers, record numbers and similar
+ * identifiers with placeholders such as "[PHONE]". Pattern-based, so it
+ * catches the common spoken formats but is not exhaustive.
+ */
+export function redactPhi(text: string): string {
+  return PHI_PATTERNS.reduce((result, { label, pattern }) => {
+    if (label === 'NAME') {
+      // Keep the lead-in so the sentence still reads naturally
+      return result.replace(pattern, (match, ...args: unknown[]) => {
+        // The trailing arguments are the offset and the whole input; before them come the capture groups
+        const name = args.slice(0, -2).find(group => typeof group === 'string');
+        return typeof name === 'string' ? match.replace(name, '[NAME]') : '[NAME]';
+      });
+    }
+    return result.replace(pattern, `[${label}]`);
+  }, text);
+}
@@ -0,0 +1,249 @@
+import { FunctionDeclaration, Type } from '@google/genai';
+import { ChecklistCategory, ChecklistItem, LiveToolCall, PreOpChecklist, Procedure } from '../types';
+
+export const UPDATE_CHECKLIST_FUNCTION_NAME = 'update_checklist_item';
+export const ADD_CHECKLIST_FUNCTION_NAME = 'add_checklist_item';
+
+const STORAGE_KEY = 'atoscare.preop-checklists';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+const AGENT_CATEGORIES: ChecklistCategory[] = ['medication', 'bring', 'logistics', 'other'];
+
+/**
+ * Builds a fresh checklist for a procedure from its approved pre-op plan.
+ */
+export function buildChecklist(procedure: Procedure, surgeryAt: Date): PreOpChecklist {
+  const { preOp, sections } = procedure;
+  const arrivalAt = new Date(surgeryAt.getTime() - preOp.arrivalMinutesBefore * 60 * 1000);
+  const cutoff = (hours: number | null) => (hours === null ? null : new Date(arrivalAt.getTime() - hours * HOUR_MS));
+
+  const items: ChecklistItem[] = [
+    ...sections.medicationHolds.map((label, i) => ({
+      id: `med-${i + 1}`,
+      category: 'medication' as const,
+      label,
+      done: false,
+      source: 'procedure' as const,
+    })),
+    ...preOp.bring.map((label, i) => ({
+      id: `bring-${i + 1}`,
+      category: 'bring' as const,
+      label,
+      done: false,
+      source: 'procedure' as const,
+    })),
+  ];
+
+  return {
+    procedureId: procedure.id,
+    surgeryAt,
+    arrivalAt,
+    solidFoodCutoffAt: cutoff(preOp.solidFoodHours),
+    clearFluidsCutoffAt: cutoff(preOp.clearFluidsHours),
+    items,
+  };
+}
+
+/**
+ * Moves the surgery time while keeping the patient's items and ticks.
+ */
+export function rescheduleChecklist(checklist: PreOpChecklist, procedure: Procedure, surgeryAt: Date): PreOpChecklist {
+  const rebuilt = buildChecklist(procedure, surgeryAt);
+  const shift = surgeryAt.getTime() - checklist.surgeryAt.getTime();
+  return {
+    ...rebuilt,
+    items: checklist.items.map(item => (item.dueAt ? { ...item, dueAt: new Date(item.dueAt.getTime() + shift) } : item)),
+  };
+}
+
+export function setChecklistItemDone(checklist: PreOpChecklist, id: string, done: boolean): PreOpChecklist {
+  return {
+    ...checklist,
+    items: checklist.items.map(item => (item.id === id ? { ...item, done } : item)),
+  };
+}
+
+export function addChecklistItem(
+  checklist: PreOpChecklist,
+  item: Omit<ChecklistItem, 'id' | 'done'>,
+): PreOpChecklist {
+  const id = `${item.source}-${Date.now()}-${checklist.items.length}`;
+  return { ...checklist, items: [...checklist.items, { ...item, id, done: false }] };
+}
+
+export function removeChecklistItem(checklist: PreOpChecklist, id: string): PreOpChecklist {
+  return { ...checklist, items: checklist.items.filter(item => item.id !== id) };
+}
+
+// --- Persistence ---
+
+type StoredChecklists = Record<string, PreOpChecklist>;
+
+// A checklist as JSON.stringify leaves it, with dates as ISO strings
+type SerializedChecklist = Omit<PreOpChecklist, 'surgeryAt' | 'arrivalAt' | 'solidFoodCutoffAt' | 'clearFluidsCutoffAt' | 'items'> & {
+  surgeryAt: string;
+  arrivalAt: string;
+  solidFoodCutoffAt: string | null;
+  clearFluidsCutoffAt: string | null;
+  items: Array<Omit<ChecklistItem, 'dueAt'> & { dueAt?: string }>;
+};
+
+const toDate = (value: unknown): Date | null => (typeof value === 'string' ? new Date(value) : null);
+
+function readStore(): StoredChecklists {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return {};
+    const parsed = JSON.parse(raw) as Record<string, SerializedChecklist>;
+    const store: StoredChecklists = {};
+    for (const [procedureId, c] of Object.entries(parsed)) {
+      store[procedureId] = {
+        procedureId,
+        surgeryAt: new Date(c.surgeryAt),
+        arrivalAt: new Date(c.arrivalAt),
+        solidFoodCutoffAt: toDate(c.solidFoodCutoffAt),
+        clearFluidsCutoffAt: toDate(c.clearFluidsCutoffAt),
+        items: c.items.map(item => ({ ...item, dueAt: toDate(item.dueAt) ?? undefined })),
+      };
+    }
+    return store;
+  } catch (e) {
+    console.warn("Ignoring unreadable pre-op checklists", e);
+    return {};
+  }
+}
+
+/**
+ * Returns the saved checklist for a procedure, if the patient has started one.
+ */
+export function loadChecklist(procedureId: string): PreOpChecklist | null {
+  return readStore()[procedureId] ?? null;
+}
+
+export function saveChecklist(checklist: PreOpChecklist): void {
+  const store = readStore();
+  store[checklist.procedureId] = checklist;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(store));
+}
+
+export function clearChecklist(procedureId: string): void {
+  const store = readStore();
+  delete store[procedureId];
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(store));
+}
+
+/**
+ * Removes the checklists for every procedure.
+ */
+export function clearAllChecklists(): void {
+  localStorage.removeItem(STORAGE_KEY);
+}
+
+// --- Agent tools ---
+
+/**
+ * Tools that let the agent tick off and add checklist items during the call.
+ */
+export const checklistDeclarations: FunctionDeclaration[] = [
+  {
+    name: UPDATE_CHECKLIST_FUNCTION_NAME,
+    description:
+      "Tick off (or untick) an item on the patient's pre-op checklist. Call this when the patient confirms they have done it.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        item_id: {
+          type: Type.STRING,
+          description: 'The id of the checklist item, as listed in the PRE-OP CHECKLIST section.',
+        },
+        done: {
+          type: Type.BOOLEAN,
+          description: 'True when the item is complete, false to mark it as not done.',
+        },
+      },
+      required: ['item_id', 'done'],
+    },
+  },
+  {
+    name: ADD_CHECKLIST_FUNCTION_NAME,
+    description:
+      "Add a task to the patient's pre-op checklist. Only add tasks the patient says their surgical team gave them, or that come from the approved content.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        label: {
+          type: Type.STRING,
+          description: 'Short task description in the language of the conversation, e.g. "Stop aspirin".',
+        },
+        category: {
+          type: Type.STRING,
+          enum: AGENT_CATEGORIES,
+          description: 'What kind of task this is.',
+        },
+        days_before_surgery: {
+          type: Type.NUMBER,
+          description: 'When the task is due, as whole days before the surgery date. Leave out if there is no deadline.',
+        },
+      },
+      required: ['label', 'category'],
+    },
+  },
+];
+
+export const isChecklistCall = (call: LiveToolCall) =>
+  call.name === UPDATE_CHECKLIST_FUNCTION_NAME || call.name === ADD_CHECKLIST_FUNCTION_NAME;
+
+interface ChecklistCallResult {
+  checklist: PreOpChecklist | null;
+  response: Record<string, unknown>;
+}
+
+/**
+ * Applies a checklist function call. Problems are reported back to the model
+ * as errors so it can correct itself; the checklist is then left unchanged.
+ */
+export function applyChecklistCall(checklist: PreOpChecklist | null, call: LiveToolCall): ChecklistCallResult {
+  if (!checklist) {
+    return {
+      checklist,
+      response: { error: 'The patient has not entered their surgery date yet, so there is no checklist. Ask them to enter it in the app.' },
+    };
+  }
+
+  const { args } = call;
+  if (call.name === UPDATE_CHECKLIST_FUNCTION_NAME) {
+    const item = checklist.items.find(i => i.id === args.item_id);
+    if (!item) {
+      return {
+        checklist,
+        response: { error: `No checklist item "${args.item_id}". Valid ids: ${checklist.items.map(i => i.id).join(', ')}` },
+      };
+    }
+    const done = args.done !== false;
+    return {
+      checklist: setChecklistItemDone(checklist, item.id, done),
+      response: { output: { itemId: item.id, label: item.label, done } },
+    };
+  }
+
+  const label = typeof args.label === 'string' ? args.label.trim() : '';
+  if (!label) {
+    return { checklist, response: { error: 'label must be a non-empty string' } };
+  }
+  const category = AGENT_CATEGORIES.includes(args.category as ChecklistCategory)
+    ? (args.category as ChecklistCategory)
+    : 'other';
+  const days = typeof args.days_before_surgery === 'number' && args.days_before_surgery >= 0
+    ? args.days_before_surgery
+    : null;
+  const dueAt = days === null ? undefined : new Date(checklist.surgeryAt.getTime() - Math.round(days) * DAY_MS);
+
+  const next = addChecklistItem(checklist, { category, label, dueAt, source: 'agent' });
+  const added = next.items[next.items.length - 1];
+  return {
+    checklist: next,
+    response: { output: { itemId: added.id, label, category, dueAt: dueAt?.toISOString() ?? null } },
+  };
+}
@@ -0,0 +1,359 @@
+import { FunctionDeclaration, Type } from '@google/genai';
+import {
+  BowelFunction,
+  CheckInAnswers,
+  CheckInFlag,
+  CheckInQuestion,
+  CheckInRecord,
+  EscalationEvent,
+  LiveToolCall,
+  MobilityLevel,
+  RecoveryLog,
+  RecoveryThresholds,
+  SymptomCategory,
+  WoundAppearance,
+} from '../types';
+import { UiStrings } from '../locales';
+
+export const RECORD_CHECKIN_FUNCTION_NAME = 'record_checkin_answer';
+export const COMPLETE_CHECKIN_FUNCTION_NAME = 'complete_checkin';
+
+// Asked in this order; nurses compare the same fields day to day
+export const CHECKIN_QUESTIONS: CheckInQuestion[] = ['pain', 'wound', 'fever', 'mobility', 'bowel'];
+
+const WOUND_APPEARANCES: WoundAppearance[] = ['clean_dry', 'mild_redness', 'spreading_redness', 'discharge', 'wound_opening'];
+const MOBILITY_LEVELS: MobilityLevel[] = ['walking_unaided', 'walking_with_aid', 'bed_or_chair'];
+const BOWEL_FUNCTIONS: BowelFunction[] = ['opened', 'not_opened', 'diarrhoea'];
+
+const FLAG_RANK: Record<CheckInFlag, number> = { green: 0, amber: 1, red: 2 };
+
+const ESCALATION_CATEGORY: Record<CheckInQuestion, SymptomCategory> = {
+  pain: 'pain',
+  wound: 'fever_infection',
+  fever: 'fever_infection',
+  mobility: 'other',
+  bowel: 'other',
+};
+
+const STORAGE_KEY = 'atoscare.recovery';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Days since surgery by calendar date, so the day of the operation is day 0.
+ */
+export function postOpDay(surgeryDate: Date, now: Date = new Date()): number {
+  const start = new Date(surgeryDate.getFullYear(), surgeryDate.getMonth(), surgeryDate.getDate());
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  return Math.max(0, Math.round((today.getTime() - start.getTime()) / DAY_MS));
+}
+
+export const worstFlag = (flags: (CheckInFlag | undefined)[]): CheckInFlag =>
+  flags.reduce<CheckInFlag>((worst, flag) => (flag && FLAG_RANK[flag] > FLAG_RANK[worst] ? flag : worst), 'green');
+
+/**
+ * Scores one answered question against the procedure's thresholds.
+ * Returns undefined while the question has not been answered.
+ */
+export function scoreAnswer(
+  question: CheckInQuestion,
+  answers: CheckInAnswers,
+  thresholds: RecoveryThresholds,
+  day: number,
+): CheckInFlag | undefined {
+  switch (question) {
+    case 'pain': {
+      const score = answers.painScore;
+      if (score === undefined) return undefined;
+      if (score >= thresholds.painRed) return 'red';
+      return score >= thresholds.painAmber ? 'amber' : 'green';
+    }
+    case 'wound': {
+      const wound = answers.wound;
+      if (!wound) return undefined;
+      if (wound === 'clean_dry') return 'green';
+      return wound === 'mild_redness' ? 'amber' : 'red';
+    }
+    case 'fever': {
+      const { temperatureC, feverish } = answers;
+      if (temperatureC === undefined && feverish === undefined) return undefined;
+      if (typeof temperatureC === 'number') {
+        if (temperatureC > thresholds.feverRedC) return 'red';
+        if (temperatureC >= thresholds.feverAmberC) return 'amber';
+      }
+      return feverish ? 'amber' : 'green';
+    }
+    case 'mobility': {
+      const mobility = answers.mobility;
+      if (!mobility) return undefined;
+      if (mobility === 'bed_or_chair') {
+        if (day >= thresholds.bedboundRedDay) return 'red';
+        return day >= thresholds.bedboundAmberDay ? 'amber' : 'green';
+      }
+      if (mobility === 'walking_with_aid') return day > thresholds.unaidedWalkingDay ? 'amber' : 'green';
+      return 'green';
+    }
+    case 'bowel': {
+      const bowel = answers.bowel;
+      if (!bowel) return undefined;
+      if (bowel === 'diarrhoea') return 'amber';
+      if (bowel === 'not_opened') {
+        if (day > thresholds.bowelsOpenDay + 2) return 'red';
+        return day > thresholds.bowelsOpenDay ? 'amber' : 'green';
+      }
+      return 'green';
+    }
+  }
+}
+
+/**
+ * Describes an answer for display, e.g. "6/10" or "38.4°C, feels feverish".
+ */
+export function formatCheckInAnswer(question: CheckInQuestion, answers: CheckInAnswers, strings: UiStrings): string {
+  const text = strings.recovery;
+  switch (question) {
+    case 'pain':
+      return answers.painScore === undefined ? '' : `${answers.painScore}/10`;
+    case 'wound':
+      return answers.wound ? text.wound[answers.wound] : '';
+    case 'fever': {
+      if (answers.temperatureC === undefined) return '';
+      const reading = typeof answers.temperatureC === 'number' ? `${answers.temperatureC.toFixed(1)}°C` : text.noReading;
+      return answers.feverish ? `${reading}, ${text.feverish}` : reading;
+    }
+    case 'mobility':
+      return answers.mobility ? text.mobility[answers.mobility] : '';
+    case 'bowel':
+      return answers.bowel ? text.bowel[answers.bowel] : '';
+  }
+}
+
+export function startCheckIn(log: RecoveryLog, now: Date = new Date()): CheckInRecord {
+  const day = postOpDay(log.surgeryDate, now);
+  const existing = log.records.find(r => r.postOpDay === day);
+  if (existing) return existing;
+  return { id: `checkin-${now.getTime()}`, postOpDay: day, recordedAt: now, answers: {}, flags: {}, quotes: {} };
+}
+
+/**
+ * Stores a record in the log, replacing any earlier record for the same day.
+ */
+export function upsertCheckIn(log: RecoveryLog, record: CheckInRecord): RecoveryLog {
+  const records = [...log.records.filter(r => r.postOpDay !== record.postOpDay), record]
+    .sort((a, b) => a.postOpDay - b.postOpDay);
+  return { ...log, records };
+}
+
+// --- Persistence ---
+
+// A log as JSON.stringify leaves it, with dates as ISO strings
+type SerializedRecoveryLog = Omit<RecoveryLog, 'surgeryDate' | 'records'> & {
+  surgeryDate: string;
+  records: Array<Omit<CheckInRecord, 'recordedAt' | 'completedAt'> & { recordedAt: string; completedAt?: string }>;
+};
+
+function readStore(): Record<string, RecoveryLog> {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return {};
+    const parsed = JSON.parse(raw) as Record<string, SerializedRecoveryLog>;
+    const store: Record<string, RecoveryLog> = {};
+    for (const [procedureId, log] of Object.entries(parsed)) {
+      store[procedureId] = {
+        procedureId,
+        surgeryDate: new Date(log.surgeryDate),
+        records: log.records.map(r => ({
+          ...r,
+          recordedAt: new Date(r.recordedAt),
+          completedAt: r.completedAt ? new Date(r.completedAt) : undefined,
+        })),
+      };
+    }
+    return store;
+  } catch (e) {
+    console.warn("Ignoring unreadable recovery log", e);
+    return {};
+  }
+}
+
+export function loadRecoveryLog(procedureId: string): RecoveryLog | null {
+  return readStore()[procedureId] ?? null;
+}
+
+export function saveRecoveryLog(log: RecoveryLog): void {
+  const store = readStore();
+  store[log.procedureId] = log;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(store));
+}
+
+/**
+ * Removes the recovery logs for every procedure.
+ */
+export function clearAllRecoveryLogs(): void {
+  localStorage.removeItem(STORAGE_KEY);
+}
+
+// --- Agent tools ---
+
+/**
+ * Tools the agent uses to capture each check-in answer as structured data.
+ */
+export const checkInDeclarations: FunctionDeclaration[] = [
+  {
+    name: RECORD_CHECKIN_FUNCTION_NAME,
+    description:
+      "Record the patient's answer to one daily check-in question. Call this once per question, as soon as the answer is clear. Fill in only the field for that question.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        question: {
+          type: Type.STRING,
+          enum: CHECKIN_QUESTIONS,
+          description: 'Which question is being answered.',
+        },
+        pain_score: {
+          type: Type.NUMBER,
+          description: 'For "pain": the pain score from 0 (no pain) to 10 (worst imaginable).',
+        },
+        wound: {
+          type: Type.STRING,
+          enum: WOUND_APPEARANCES,
+          description: 'For "wound": how the wound looks today.',
+        },
+        temperature_c: {
+          type: Type.NUMBER,
+          description: 'For "fever": the measured temperature in °C. Convert from °F if needed. Leave out if the patient has no reading.',
+        },
+        feverish: {
+          type: Type.BOOLEAN,
+          description: 'For "fever": true if the patient feels hot, cold or shivery.',
+        },
+        mobility: {
+          type: Type.STRING,
+          enum: MOBILITY_LEVELS,
+          description: 'For "mobility": how the patient is getting about.',
+        },
+        bowel: {
+          type: Type.STRING,
+          enum: BOWEL_FUNCTIONS,
+          description: 'For "bowel": whether the bowels have opened since surgery, or diarrhoea.',
+        },
+        patient_quote: {
+          type: Type.STRING,
+          description: "The patient's own words, quoted as closely as possible.",
+        },
+      },
+      required: ['question'],
+    },
+  },
+  {
+    name: COMPLETE_CHECKIN_FUNCTION_NAME,
+    description: "Mark today's check-in as finished once every question has been answered.",
+    parameters: { type: Type.OBJECT, properties: {} },
+  },
+];
+
+export const isCheckInCall = (call: LiveToolCall) =>
+  call.name === RECORD_CHECKIN_FUNCTION_NAME || call.name === COMPLETE_CHECKIN_FUNCTION_NAME;
+
+interface CheckInCallResult {
+  record: CheckInRecord;
+  response: Record<string, unknown>;
+  escalation?: EscalationEvent;
+}
+
+const pick = <T extends string>(value: unknown, allowed: T[]): T | undefined =>
+  allowed.includes(value as T) ? (value as T) : undefined;
+
+/**
+ * Applies a check-in function call to today's record. A red answer also
+ * produces an escalation for the nursing team; the response tells the agent
+ * so it can let the patient know.
+ */
+export function applyCheckInCall(
+  record: CheckInRecord,
+  call: LiveToolCall,
+  thresholds: RecoveryThresholds,
+  agentId: string,
+): CheckInCallResult {
+  if (call.name === COMPLETE_CHECKIN_FUNCTION_NAME) {
+    const missing = CHECKIN_QUESTIONS.filter(q => !record.flags[q]);
+    if (missing.length > 0) {
+      return { record, response: { error: `Still unanswered: ${missing.join(', ')}` } };
+    }
+    return {
+      record: { ...record, completedAt: new Date() },
+      response: { output: { status: 'Check-in saved', overall: worstFlag(Object.values(record.flags)) } },
+    };
+  }
+
+  const { args } = call;
+  const question = pick(args.question, CHECKIN_QUESTIONS);
+  if (!question) {
+    return { record, response: { error: `question must be one of ${CHECKIN_QUESTIONS.join(', ')}` } };
+  }
+
+  const answers: CheckInAnswers = { ...record.answers };
+  switch (question) {
+    case 'pain':
+      if (typeof args.pain_score !== 'number' || args.pain_score < 0 || args.pain_score > 10) {
+        return { record, response: { error: 'pain_score must be a number from 0 to 10' } };
+      }
+      answers.painScore = Math.round(args.pain_score);
+      break;
+    case 'wound':
+      answers.wound = pick(args.wound, WOUND_APPEARANCES);
+      if (!answers.wound) return { record, response: { error: `wound must be one of ${WOUND_APPEARANCES.join(', ')}` } };
+      break;
+    case 'fever':
+      answers.temperatureC = typeof args.temperature_c === 'number' ? args.temperature_c : null;
+      answers.feverish = args.feverish === true;
+      break;
+    case 'mobility':
+      answers.mobility = pick(args.mobility, MOBILITY_LEVELS);
+      if (!answers.mobility) return { record, response: { error: `mobility must be one of ${MOBILITY_LEVELS.join(', ')}` } };
+      break;
+    case 'bowel':
+      answers.bowel = pick(args.bowel, BOWEL_FUNCTIONS);
+      if (!answers.bowel) return { record, response: { error: `bowel must be one of ${BOWEL_FUNCTIONS.join(', ')}` } };
+      break;
+  }
+
+  const flag = scoreAnswer(question, answers, thresholds, record.postOpDay)!;
+  const quote = typeof args.patient_quote === 'string' ? args.patient_quote.trim() : '';
+  const next: CheckInRecord = {
+    ...record,
+    answers,
+    flags: { ...record.flags, [question]: flag },
+    quotes: quote ? { ...record.quotes, [question]: quote } : record.quotes,
+  };
+
+  const remaining = CHECKIN_QUESTIONS.filter(q => !next.flags[q]);
+  const escalation: EscalationEvent | undefined = flag === 'red'
+    ? {
+        id: `esc-${crypto.randomUUID()}`,
+        callId: call.id,
+        agentId,
+        severity: 'severe',
+        symptomCategory: ESCALATION_CATEGORY[question],
+        patientQuote: quote,
+        timestamp: new Date(),
+      }
+    : undefined;
+
+  return {
+    record: next,
+    escalation,
+    response: {
+      output: {
+        question,
+        flag,
+        nextQuestion: remaining[0] ?? null,
+        ...(escalation && {
+          escalationId: escalation.id,
+          status: 'Red-flag answer. The nursing team has been notified and emergency instructions are displayed. Tell the patient, then continue the check-in only if they are comfortable to.',
+        }),
+      },
+    },
+  };
+}
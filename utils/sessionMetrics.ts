@@ -0,0 +1,231 @@
+import {
+  AgeGroup,
+  ConnectionErrorType,
+  ConsultationMode,
+  InputMode,
+  Message,
+  SessionMetrics,
+  TeachBackResult,
+  TopicCategory,
+} from '../types';
+import { classifyTranscript } from './topicClassifier';
+import { teachBackScore } from './teachBack';
+
+const STORAGE_KEY = 'atoscare.analytics';
+// Oldest sessions are dropped past this so local storage stays small
+const MAX_STORED_SESSIONS = 2000;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const TOPIC_CATEGORIES: TopicCategory[] = [
+  'fasting', 'medication', 'anesthesia', 'risks', 'wound_care', 'pain', 'activity', 'symptoms', 'logistics', 'other',
+];
+
+export const CONNECTION_ERROR_TYPES: ConnectionErrorType[] = ['token', 'network', 'quota', 'timeout', 'closed', 'other'];
+
+// Close and error reasons come from the token server, the provider SDK and the browser
+const CONNECTION_ERROR_PATTERNS: [ConnectionErrorType, RegExp][] = [
+  ['token', /token/i],
+  ['quota', /quota|rate limit|resource.?exhausted|\b429\b/i],
+  ['timeout', /time(?:d)? ?out|deadline/i],
+  ['network', /network|fetch|reach|offline|websocket|socket/i],
+  ['closed', /clos|drop|ended|disconnect/i],
+];
+
+export function classifyConnectionError(reason: string): ConnectionErrorType {
+  return CONNECTION_ERROR_PATTERNS.find(([, pattern]) => pattern.test(reason))?.[0] ?? 'other';
+}
+
+const median = (values: number[]): number | null => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : Math.round((sorted[middle - 1] + sorted[middle]) / 2);
+};
+
+// What is known about a session when it starts
+export interface SessionMetricsContext {
+  agentId: string;
+  procedureId: string;
+  language: string;
+  consultationMode: ConsultationMode;
+  inputMode: InputMode;
+  ageGroup: AgeGroup | null;
+  contentVersion: number | null;
+}
+
+export interface SessionMetricsTracker {
+  /** The patient finished a typed turn, released the mic or was transcribed. */
+  patientTurn: () => void;
+  /** Any agent audio or transcript arrived. */
+  agentOutput: () => void;
+  interruption: () => void;
+  escalation: () => void;
+  handoff: () => void;
+  connectionError: (reason: string) => void;
+  finish: (outcome: SessionMetrics['outcome'], transcript: Message[], teachBack: TeachBackResult | null) => SessionMetrics;
+}
+
+/**
+ * Counts what happens during one session. Response time runs from the last
+ * sign of the patient's turn to the first output of the agent's reply, so
+ * audio the agent volunteers (a greeting, say) is not timed.
+ */
+export function createSessionMetricsTracker(context: SessionMetricsContext): SessionMetricsTracker {
+  const startedAt = Date.now();
+  const responseTimes: number[] = [];
+  const connectionErrors: ConnectionErrorType[] = [];
+  let awaitingReplySince: number | null = null;
+  let interruptions = 0;
+  let escalations = 0;
+  let handoffs = 0;
+
+  return {
+    patientTurn: () => {
+      awaitingReplySince = Date.now();
+    },
+    agentOutput: () => {
+      if (awaitingReplySince === null) return;
+      responseTimes.push(Date.now() - awaitingReplySince);
+      awaitingReplySince = null;
+    },
+    interruption: () => {
+      interruptions++;
+    },
+    escalation: () => {
+      escalations++;
+    },
+    handoff: () => {
+      handoffs++;
+    },
+    connectionError: (reason) => {
+      connectionErrors.push(classifyConnectionError(reason));
+    },
+    finish: (outcome, transcript, teachBack) => ({
+      id: crypto.randomUUID(),
+      startedAt: new Date(Math.floor(startedAt / HOUR_MS) * HOUR_MS),
+      durationSeconds: Math.round((Date.now() - startedAt) / 1000),
+      ...context,
+      outcome,
+      patientTurns: transcript.filter(m => m.role === 'user').length,
+      firstResponseMs: responseTimes[0] ?? null,
+      medianResponseMs: median(responseTimes),
+      interruptions,
+      escalations,
+      handoffs,
+      connectionErrors,
+      ...classifyTranscript(transcript),
+      teachBackScore: teachBack && teachBack.items.length > 0 ? teachBackScore(teachBack) : null,
+    }),
+  };
+}
+
+// --- Persistence ---
+
+// A record as JSON.stringify leaves it. Records saved before transfers were counted have no handoffs field.
+type SerializedSessionMetrics = Omit<SessionMetrics, 'startedAt' | 'handoffs'> & { startedAt: string; handoffs?: number };
+
+export function loadSessionMetrics(): SessionMetrics[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return [];
+    return (JSON.parse(raw) as SerializedSessionMetrics[]).map(record => ({
+      ...record,
+      handoffs: record.handoffs ?? 0,
+      startedAt: new Date(record.startedAt),
+    }));
+  } catch (e) {
+    console.warn("Ignoring unreadable session metrics", e);
+    return [];
+  }
+}
+
+export function saveSessionMetrics(record: SessionMetrics): void {
+  const records = [...loadSessionMetrics(), record].slice(-MAX_STORED_SESSIONS);
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(records));
+}
+
+// --- Reporting ---
+
+/**
+ * Keeps sessions that started within the given days, both ends inclusive.
+ */
+export function filterByDate(records: SessionMetrics[], from: Date | null, to: Date | null): SessionMetrics[] {
+  const end = to && new Date(to.getFullYear(), to.getMonth(), to.getDate() + 1);
+  return records.filter(r => (!from || r.startedAt >= from) && (!end || r.startedAt < end));
+}
+
+export interface MetricsSummary {
+  sessions: number;
+  averageDurationSeconds: number | null;
+  medianFirstResponseMs: number | null;
+  interruptionsPerSession: number | null;
+  escalationRate: number | null; // Share of sessions with at least one escalation
+  completionRate: number | null; // Share of sessions not ended by a lost connection
+  averageTeachBackScore: number | null;
+}
+
+const average = (values: number[]): number | null =>
+  values.length === 0 ? null : values.reduce((sum, v) => sum + v, 0) / values.length;
+
+const share = (records: SessionMetrics[], test: (r: SessionMetrics) => boolean): number | null =>
+  records.length === 0 ? null : records.filter(test).length / records.length;
+
+export function summarizeMetrics(records: SessionMetrics[]): MetricsSummary {
+  return {
+    sessions: records.length,
+    averageDurationSeconds: average(records.map(r => r.durationSeconds)),
+    medianFirstResponseMs: median(records.flatMap(r => (r.firstResponseMs === null ? [] : [r.firstResponseMs]))),
+    interruptionsPerSession: average(records.map(r => r.interruptions)),
+    escalationRate: share(records, r => r.escalations > 0),
+    completionRate: share(records, r => r.outcome === 'completed'),
+    averageTeachBackScore: average(records.flatMap(r => (r.teachBackScore === null ? [] : [r.teachBackScore]))),
+  };
+}
+
+/**
+ * Splits sessions by a key such as agent or procedure, keeping first-seen order.
+ */
+export function groupMetrics(records: SessionMetrics[], key: (record: SessionMetrics) => string): Map<string, SessionMetrics[]> {
+  const groups = new Map<string, SessionMetrics[]>();
+  records.forEach(record => groups.set(key(record), [...(groups.get(key(record)) ?? []), record]));
+  return groups;
+}
+
+/**
+ * How many sessions raised each topic, and how many hit a gap in the approved content on it.
+ */
+export function topicCounts(records: SessionMetrics[]): { topic: TopicCategory; sessions: number; gaps: number }[] {
+  return TOPIC_CATEGORIES.map(topic => ({
+    topic,
+    sessions: records.filter(r => r.topics.includes(topic)).length,
+    gaps: records.filter(r => r.contentGaps.includes(topic)).length,
+  }));
+}
+
+export function connectionErrorCounts(records: SessionMetrics[]): Record<ConnectionErrorType, number> {
+  const counts = Object.fromEntries(CONNECTION_ERROR_TYPES.map(type => [type, 0])) as Record<ConnectionErrorType, number>;
+  records.forEach(r => r.connectionErrors.forEach(type => counts[type]++));
+  return counts;
+}
+
+const CSV_COLUMNS: (keyof SessionMetrics)[] = [
+  'id', 'startedAt', 'durationSeconds', 'agentId', 'procedureId', 'language', 'consultationMode', 'inputMode',
+  'ageGroup', 'outcome', 'patientTurns', 'firstResponseMs', 'medianResponseMs', 'interruptions', 'escalations',
+  'handoffs', 'connectionErrors', 'topics', 'contentGaps', 'teachBackScore', 'contentVersion',
+];
+
+const csvCell = (value: SessionMetrics[keyof SessionMetrics]): string => {
+  const text = value === null ? ''
+    : value instanceof Date ? value.toISOString()
+    : Array.isArray(value) ? value.join(';')
+    : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * One row per session, with list columns joined by semicolons.
+ */
+export function metricsToCsv(records: SessionMetrics[]): string {
+  return [CSV_COLUMNS.join(','), ...records.map(r => CSV_COLUMNS.map(column => csvCell(r[column])).join(','))].join('\n') + '\n';
+}
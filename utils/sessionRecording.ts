@@ -0,0 +1,115 @@
+import { INPUT_SAMPLE_RATE, OUTPUT_SAMPLE_RATE, encodeWav } from './audioUtils';
+
+// The mix is written at the agent's rate so only the patient track is resampled
+const MIX_SAMPLE_RATE = OUTPUT_SAMPLE_RATE;
+// Recording stops adding audio past this point to keep the export a manageable size
+export const MAX_RECORDING_SECONDS = 60 * 60;
+
+interface Segment {
+  start: number; // Seconds from the start of the recording
+  pcm: Int16Array;
+}
+
+export interface SessionRecorder {
+  /** Frames the agent just received, ending now. */
+  addPatientAudio: (frames: Int16Array[]) => void;
+  /** An agent chunk that starts playing `delaySeconds` from now, sped up or slowed down by `playbackRate`. */
+  addAgentAudio: (pcm: Int16Array, delaySeconds: number, playbackRate?: number) => void;
+  /** Drops agent audio that was queued but cut off before it played. */
+  cutAgentAudio: () => void;
+  durationSeconds: () => number;
+  /** Mixes both tracks into a stereo WAV: patient left, agent right. */
+  toWav: () => ArrayBuffer;
+}
+
+const segmentEnd = (segment: Segment, rate: number) => segment.start + segment.pcm.length / rate;
+
+/**
+ * Linear-interpolation resample: each output sample steps `ratio` input
+ * samples, so a ratio above 1 shortens the audio.
+ */
+function resample(pcm: Int16Array, ratio: number): Int16Array {
+  const out = new Int16Array(Math.floor(pcm.length / ratio));
+  for (let i = 0; i < out.length; i++) {
+    const position = i * ratio;
+    const j = Math.floor(position);
+    const next = pcm[Math.min(j + 1, pcm.length - 1)];
+    out[i] = Math.round(pcm[j] + (next - pcm[j]) * (position - j));
+  }
+  return out;
+}
+
+/**
+ * Keeps the patient's and the agent's audio on one clock measured from when
+ * the recorder was created. Patient frames are stamped when they are sent,
+ * agent chunks when they are scheduled to play.
+ */
+export function createSessionRecorder(): SessionRecorder {
+  const startedAt = performance.now();
+  const elapsed = () => (performance.now() - startedAt) / 1000;
+
+  const patient: Segment[] = [];
+  let agent: Segment[] = [];
+  let patientEnd = 0;
+
+  const durationSeconds = () => Math.max(
+    patientEnd,
+    agent.length > 0 ? segmentEnd(agent[agent.length - 1], MIX_SAMPLE_RATE) : 0,
+  );
+
+  return {
+    addPatientAudio: (frames) => {
+      const samples = frames.reduce((total, frame) => total + frame.length, 0);
+      if (samples === 0) return;
+      // A burst (hands-free pre-roll) was spoken before now, not after it
+      let start = Math.max(patientEnd, elapsed() - samples / INPUT_SAMPLE_RATE);
+      if (start > MAX_RECORDING_SECONDS) return;
+      for (const pcm of frames) {
+        patient.push({ start, pcm });
+        start += pcm.length / INPUT_SAMPLE_RATE;
+      }
+      patientEnd = start;
+    },
+
+    // Stored as it was heard, so a faster or slower playback speed keeps the mix in step with the patient
+    addAgentAudio: (pcm, delaySeconds, playbackRate = 1) => {
+      const start = elapsed() + Math.max(0, delaySeconds);
+      if (start <= MAX_RECORDING_SECONDS) agent.push({ start, pcm: playbackRate === 1 ? pcm : resample(pcm, playbackRate) });
+    },
+
+    cutAgentAudio: () => {
+      const now = elapsed();
+      agent = agent
+        .filter(segment => segment.start < now)
+        .map(segment => (segmentEnd(segment, MIX_SAMPLE_RATE) <= now
+          ? segment
+          : { ...segment, pcm: segment.pcm.subarray(0, Math.floor((now - segment.start) * MIX_SAMPLE_RATE)) }));
+    },
+
+    durationSeconds,
+
+    toWav: () => {
+      const frames = Math.ceil(durationSeconds() * MIX_SAMPLE_RATE);
+      const mix = new Int16Array(frames * 2);
+
+      // Patient on the left, upsampled from 16 kHz with linear interpolation
+      for (const { start, pcm } of patient) {
+        const offset = Math.round(start * MIX_SAMPLE_RATE);
+        const upsampled = resample(pcm, INPUT_SAMPLE_RATE / MIX_SAMPLE_RATE);
+        for (let i = 0; i < upsampled.length && offset + i < frames; i++) {
+          mix[(offset + i) * 2] = upsampled[i];
+        }
+      }
+
+      // Agent on the right, already at the mix rate
+      for (const { start, pcm } of agent) {
+        const offset = Math.round(start * MIX_SAMPLE_RATE);
+        for (let i = 0; i < pcm.length && offset + i < frames; i++) {
+          mix[(offset + i) * 2 + 1] = pcm[i];
+        }
+      }
+
+      return encodeWav(mix, MIX_SAMPLE_RATE, 2);
+    },
+  };
+}
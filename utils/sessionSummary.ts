@@ -0,0 +1,85 @@
+import { Agent, ConsultationMode, ContentStamp, EscalationEvent, Message, Procedure, SessionSummary, SummaryItem, TeachBackResult } from '../types';
+import { finalizeTranscript } from './transcriptUtils';
+
+const STOP_WORDS = new Set([
+  'about', 'after', 'allowed', 'before', 'from', 'have', 'into', 'often', 'other', 'than', 'that',
+  'their', 'this', 'tell', 'unless', 'until', 'usually', 'when', 'which', 'will', 'with', 'your',
+]);
+
+const keywords = (text: string): string[] =>
+  (text.toLowerCase().match(/[a-z0-9°]+/g) ?? []).filter(w => w.length >= 4 && !STOP_WORDS.has(w));
+
+/**
+ * Treats an approved item as discussed when the agent said at least half of
+ * its key words. Only English transcripts can match, since the catalog is
+ * authored in English.
+ */
+function toSummaryItems(items: string[], spoken: string): SummaryItem[] {
+  return items.map(text => {
+    const words = keywords(text);
+    const hits = words.filter(w => spoken.includes(w)).length;
+    return { text, discussed: words.length > 0 && hits / words.length >= 0.5 };
+  });
+}
+
+interface SessionSummaryInput {
+  agent: Agent;
+  procedure: Procedure;
+  languageCode: string;
+  consultationMode: ConsultationMode;
+  messages: Message[];
+  escalations: EscalationEvent[];
+  teachBack?: TeachBackResult;
+  startedAt: Date;
+  endedAt: Date;
+  content: ContentStamp;
+}
+
+/**
+ * Builds the end-of-session record from the transcript. Escalations raised
+ * before this session started are left out.
+ */
+export function buildSessionSummary({
+  agent,
+  procedure,
+  languageCode,
+  consultationMode,
+  messages,
+  escalations,
+  teachBack,
+  startedAt,
+  endedAt,
+  content,
+}: SessionSummaryInput): SessionSummary {
+  const transcript = finalizeTranscript(messages);
+  const spoken = transcript
+    .filter(m => m.role === 'model')
+    .map(m => m.text.toLowerCase())
+    .join(' ');
+
+  return {
+    id: `summary-${endedAt.getTime()}`,
+    agentId: agent.id,
+    agentName: agent.name,
+    procedureId: procedure.id,
+    procedureName: procedure.name,
+    specialty: procedure.specialty,
+    languageCode,
+    consultationMode,
+    startedAt,
+    endedAt,
+    preOpInstructions: toSummaryItems([...procedure.sections.fasting, ...procedure.sections.medicationHolds], spoken),
+    redFlags: toSummaryItems(procedure.sections.redFlags, spoken),
+    escalations: escalations.filter(e => e.timestamp >= startedAt),
+    teachBack: teachBack && teachBack.items.length > 0 ? teachBack : undefined,
+    transcript,
+    content,
+  };
+}
+
+/**
+ * Session length in whole minutes, never less than one.
+ */
+export function summaryDurationMinutes(summary: SessionSummary): number {
+  return Math.max(1, Math.round((summary.endedAt.getTime() - summary.startedAt.getTime()) / 60000));
+}
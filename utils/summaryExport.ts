@@ -0,0 +1,322 @@
+import { ConsultationMode, EscalationEvent, EscalationSeverity, Message, SessionSummary, SummaryItem } from '../types';
+import { UiStrings } from '../locales';
+import { encode } from './audioUtils';
+import { formatContentStamp } from './clinicalContent';
+import { summaryDurationMinutes } from './sessionSummary';
+import { itemsNeedingReinforcement, teachBackScore } from './teachBack';
+
+// --- Patient handout ---
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const formatTime = (date: Date, languageCode: string): string =>
+  date.toLocaleTimeString(languageCode, { hour: '2-digit', minute: '2-digit' });
+
+const escalationLine = (escalation: EscalationEvent, summary: SessionSummary, strings: UiStrings): string => {
+  const { severity, symptoms } = strings.escalation;
+  const quote = escalation.patientQuote ? ` "${escalation.patientQuote}"` : '';
+  return `${formatTime(escalation.timestamp, summary.languageCode)} · ${severity[escalation.severity]} · ${symptoms[escalation.symptomCategory]}${quote}`;
+};
+
+// Score line plus anything the patient should go over again
+const teachBackLines = (summary: SessionSummary, strings: UiStrings): { score: string; reinforce: string[] } | null => {
+  if (!summary.teachBack) return null;
+  return {
+    score: strings.teachBack.score(teachBackScore(summary.teachBack)),
+    reinforce: itemsNeedingReinforcement(summary.teachBack).map(item => item.reinforcement || item.question),
+  };
+};
+
+const speakerName = (message: Message, summary: SessionSummary, strings: UiStrings): string =>
+  message.role === 'user' ? strings.transcript.you : message.agentName ?? summary.agentName;
+
+/**
+ * Renders the summary as a Markdown handout in the patient's language.
+ */
+export function summaryToMarkdown(summary: SessionSummary, strings: UiStrings): string {
+  const text = strings.summary;
+  const item = ({ text: line, discussed }: SummaryItem) => `- ${line}${discussed ? ` _(${text.discussed})_` : ''}`;
+  const teachBack = teachBackLines(summary, strings);
+
+  const lines = [
+    `# ${text.title}`,
+    '',
+    `**${text.procedure}:** ${summary.procedureName} (${summary.specialty})  `,
+    `**${text.assistant}:** ${summary.agentName}  `,
+    `**${text.date}:** ${summary.startedAt.toLocaleString(summary.languageCode)}  `,
+    `**${text.duration}:** ${text.minutes(summaryDurationMinutes(summary))}  `,
+    `**${text.contentVersion}:** ${formatContentStamp(summary.content, text.builtInContent)}`,
+    '',
+    `## ${text.preOpTitle}`,
+    '',
+    ...summary.preOpInstructions.map(item),
+    '',
+    `## ${text.redFlagsTitle}`,
+    '',
+    ...summary.redFlags.map(item),
+    '',
+    `## ${text.escalationsTitle}`,
+    '',
+    ...(summary.escalations.length > 0
+      ? summary.escalations.map(e => `- ${escalationLine(e, summary, strings)}`)
+      : [text.noEscalations]),
+    '',
+    `## ${strings.teachBack.title}`,
+    '',
+    ...(teachBack
+      ? [
+          `**${teachBack.score}**`,
+          ...(teachBack.reinforce.length > 0
+            ? ['', `${strings.teachBack.reinforce}:`, '', ...teachBack.reinforce.map(line => `- ${line}`)]
+            : ['', strings.teachBack.allClear]),
+        ]
+      : [strings.teachBack.notTaken]),
+    '',
+    `## ${text.transcriptTitle}`,
+    '',
+    ...summary.transcript.map(m =>
+      `**${speakerName(m, summary, strings)} (${formatTime(m.timestamp, summary.languageCode)}):** ${m.text}\n`),
+    `_${text.disclaimer}_`,
+    '',
+  ];
+  return lines.join('\n');
+}
+
+/**
+ * Renders the summary as a standalone, print-ready HTML page.
+ */
+export function summaryToHtml(summary: SessionSummary, strings: UiStrings): string {
+  const text = strings.summary;
+  const list = (items: SummaryItem[]) => items
+    .map(({ text: line, discussed }) =>
+      `<li>${escapeHtml(line)}${discussed ? ` <span class="tag">${escapeHtml(text.discussed)}</span>` : ''}</li>`)
+    .join('');
+  const escalations = summary.escalations.length > 0
+    ? `<ul>${summary.escalations.map(e => `<li>${escapeHtml(escalationLine(e, summary, strings))}</li>`).join('')}</ul>`
+    : `<p>${escapeHtml(text.noEscalations)}</p>`;
+  const teachBack = teachBackLines(summary, strings);
+  const teachBackHtml = !teachBack
+    ? `<p>${escapeHtml(strings.teachBack.notTaken)}</p>`
+    : `<p><strong>${escapeHtml(teachBack.score)}</strong></p>${teachBack.reinforce.length > 0
+      ? `<p>${escapeHtml(strings.teachBack.reinforce)}:</p><ul>${teachBack.reinforce.map(line => `<li>${escapeHtml(line)}</li>`).join('')}</ul>`
+      : `<p>${escapeHtml(strings.teachBack.allClear)}</p>`}`;
+  const transcript = summary.transcript
+    .map(m => `<p><strong>${escapeHtml(speakerName(m, summary, strings))}</strong> <span class="time">${formatTime(m.timestamp, summary.languageCode)}</span><br>${escapeHtml(m.text)}</p>`)
+    .join('');
+
+  return `<!DOCTYPE html>
+<html lang="${summary.languageCode}">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(text.title)} · ${escapeHtml(summary.procedureName)}</title>
+<style>
+  body { font-family: system-ui, sans-serif; color: #0f172a; max-width: 720px; margin: 2rem auto; padding: 0 1rem; line-height: 1.5; }
+  h1 { font-size: 1.5rem; margin-bottom: 0.5rem; }
+  h2 { font-size: 1.1rem; margin-top: 1.75rem; border-bottom: 1px solid #e2e8f0; padding-bottom: 0.25rem; }
+  dl { display: grid; grid-template-columns: max-content 1fr; gap: 0.25rem 1rem; }
+  dt { font-weight: 600; }
+  dd { margin: 0; }
+  .tag { font-size: 0.75rem; color: #1d4ed8; }
+  .time { font-size: 0.75rem; color: #64748b; }
+  .red-flags li { color: #b91c1c; }
+  footer { margin-top: 2rem; font-size: 0.8rem; color: #64748b; font-style: italic; }
+  @media print { body { margin: 0; } }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(text.title)}</h1>
+<dl>
+  <dt>${escapeHtml(text.procedure)}</dt><dd>${escapeHtml(summary.procedureName)} (${escapeHtml(summary.specialty)})</dd>
+  <dt>${escapeHtml(text.assistant)}</dt><dd>${escapeHtml(summary.agentName)}</dd>
+  <dt>${escapeHtml(text.date)}</dt><dd>${summary.startedAt.toLocaleString(summary.languageCode)}</dd>
+  <dt>${escapeHtml(text.duration)}</dt><dd>${escapeHtml(text.minutes(summaryDurationMinutes(summary)))}</dd>
+  <dt>${escapeHtml(text.contentVersion)}</dt><dd>${escapeHtml(formatContentStamp(summary.content, text.builtInContent))}</dd>
+</dl>
+<h2>${escapeHtml(text.preOpTitle)}</h2>
+<ul>${list(summary.preOpInstructions)}</ul>
+<h2>${escapeHtml(text.redFlagsTitle)}</h2>
+<ul class="red-flags">${list(summary.redFlags)}</ul>
+<h2>${escapeHtml(text.escalationsTitle)}</h2>
+${escalations}
+<h2>${escapeHtml(strings.teachBack.title)}</h2>
+${teachBackHtml}
+<h2>${escapeHtml(text.transcriptTitle)}</h2>
+${transcript}
+<footer>${escapeHtml(text.disclaimer)}</footer>
+</body>
+</html>
+`;
+}
+
+// --- Clinician record (FHIR R4) ---
+
+export interface FhirBundle {
+  resourceType: 'Bundle';
+  id: string;
+  type: 'collection';
+  timestamp: string;
+  entry: { fullUrl: string; resource: Record<string, unknown> }[];
+}
+
+// Maps escalation severity onto the FHIR request priority value set
+const FHIR_PRIORITY: Record<EscalationSeverity, string> = {
+  moderate: 'urgent',
+  severe: 'asap',
+  critical: 'stat',
+};
+
+// How the document and the consultation are described to the EHR, per kind of session
+const FHIR_SESSION_TYPE: Record<ConsultationMode, { description: string; category: string }> = {
+  education: { description: 'Pre-operative education consultation', category: 'Patient education' },
+  checkin: { description: 'Post-operative recovery check-in', category: 'Recovery check-in' },
+};
+
+const base64Utf8 = (text: string): string => encode(new TextEncoder().encode(text));
+
+/**
+ * Packages the session as a FHIR collection bundle: a DocumentReference
+ * carrying the handout, a Communication for the consultation itself, one
+ * Communication per escalation and an Observation for any teach-back check.
+ * The EHR integration attaches the patient subject on ingest, since the app
+ * does not know who the patient is.
+ */
+export function summaryToFhirBundle(summary: SessionSummary, strings: UiStrings): FhirBundle {
+  const documentId = crypto.randomUUID();
+  const consultationId = crypto.randomUUID();
+  const author = { display: `${summary.agentName} (AtosCare AI assistant)` };
+  const title = `${strings.summary.title} · ${summary.procedureName}`;
+  const sessionType = FHIR_SESSION_TYPE[summary.consultationMode];
+
+  const documentReference = {
+    resourceType: 'DocumentReference',
+    id: documentId,
+    identifier: [{ system: 'urn:atoscare:session-summary', value: summary.id }],
+    // Traces the handout back to the approved content the session ran on
+    meta: {
+      tag: [{
+        system: 'urn:atoscare:content-version',
+        code: summary.content.version === null ? 'built-in' : String(summary.content.version),
+        display: `sha256:${summary.content.hash}`,
+      }],
+    },
+    status: 'current',
+    docStatus: 'final',
+    type: {
+      coding: [{ system: 'http://loinc.org', code: '34133-9', display: 'Summary of episode note' }],
+    },
+    date: summary.endedAt.toISOString(),
+    author: [author],
+    description: `${sessionType.description}: ${summary.procedureName}`,
+    content: [
+      { attachment: { contentType: 'text/markdown', language: summary.languageCode, title, data: base64Utf8(summaryToMarkdown(summary, strings)) } },
+      { attachment: { contentType: 'text/html', language: summary.languageCode, title, data: base64Utf8(summaryToHtml(summary, strings)) } },
+    ],
+    context: {
+      period: { start: summary.startedAt.toISOString(), end: summary.endedAt.toISOString() },
+    },
+  };
+
+  const consultation = {
+    resourceType: 'Communication',
+    id: consultationId,
+    status: 'completed',
+    category: [{ text: sessionType.category }],
+    topic: { text: summary.procedureName },
+    sent: summary.endedAt.toISOString(),
+    sender: author,
+    note: [{
+      text: `Agent ${summary.agentId}, language ${summary.languageCode}, ${summaryDurationMinutes(summary)} min, content ${formatContentStamp(summary.content, 'built-in')}${summary.content.approvedBy ? ` approved by ${summary.content.approvedBy}` : ''}`,
+    }],
+    // FHIR does not allow empty arrays, so a session with no turns has no payload
+    payload: summary.transcript.length > 0
+      ? summary.transcript.map(m => ({
+        contentString: `[${m.timestamp.toISOString()}] ${m.role === 'user' ? 'Patient' : m.agentName ?? summary.agentName}: ${m.text}`,
+      }))
+      : undefined,
+  };
+
+  const escalations = summary.escalations.map(e => ({
+    resourceType: 'Communication',
+    id: crypto.randomUUID(),
+    identifier: [{ system: 'urn:atoscare:escalation', value: e.id }],
+    partOf: [{ reference: `urn:uuid:${consultationId}` }],
+    status: 'completed',
+    category: [{ text: 'Nursing escalation' }],
+    priority: FHIR_PRIORITY[e.severity],
+    reasonCode: [{ text: e.symptomCategory }],
+    sent: e.timestamp.toISOString(),
+    received: e.acknowledgedAt?.toISOString(),
+    sender: author,
+    payload: e.patientQuote ? [{ contentString: e.patientQuote }] : undefined,
+  }));
+
+  // Teach-back comprehension, with each graded question as a component
+  const teachBack = summary.teachBack && {
+    resourceType: 'Observation',
+    id: crypto.randomUUID(),
+    status: 'final',
+    code: { text: 'Patient education teach-back comprehension score' },
+    effectiveDateTime: (summary.teachBack.completedAt ?? summary.endedAt).toISOString(),
+    performer: [author],
+    valueQuantity: { value: teachBackScore(summary.teachBack), unit: '%', system: 'http://unitsofmeasure.org', code: '%' },
+    component: summary.teachBack.items.map(item => ({
+      code: { text: `${item.topic}: ${item.question}` },
+      valueString: item.grade,
+    })),
+    note: itemsNeedingReinforcement(summary.teachBack).map(item => ({
+      text: `Reinforce (${item.topic}): ${item.reinforcement || item.question}`,
+    })),
+    derivedFrom: [{ reference: `urn:uuid:${documentId}` }],
+  };
+
+  return {
+    resourceType: 'Bundle',
+    id: crypto.randomUUID(),
+    type: 'collection',
+    timestamp: summary.endedAt.toISOString(),
+    entry: [documentReference, consultation, ...escalations, ...(teachBack ? [teachBack] : [])].map(resource => ({
+      fullUrl: `urn:uuid:${resource.id}`,
+      resource,
+    })),
+  };
+}
+
+// --- Browser helpers ---
+
+/**
+ * Saves content as a file through a temporary download link.
+ */
+export function downloadFile(filename: string, content: BlobPart, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+/**
+ * Opens the browser print dialog for an HTML document, which also offers
+ * "Save as PDF". A hidden frame keeps the app itself out of the printout.
+ */
+export function printHtml(html: string): void {
+  const frame = document.createElement('iframe');
+  frame.style.position = 'fixed';
+  frame.style.width = '0';
+  frame.style.height = '0';
+  frame.style.border = '0';
+  frame.onload = () => {
+    frame.contentWindow?.print();
+    setTimeout(() => frame.remove(), 1000);
+  };
+  frame.srcdoc = html;
+  document.body.appendChild(frame);
+}
+
+/**
+ * Base file name for a summary's exports, e.g. "atoscare-summary-tkr-2025-01-31".
+ */
+export function summaryFileName(summary: SessionSummary): string {
+  return `atoscare-summary-${summary.procedureId}-${summary.endedAt.toISOString().slice(0, 10)}`;
+}
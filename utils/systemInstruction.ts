@@ -0,0 +1,223 @@
+import {
+  AgeGroup, Agent, CheckInQuestion, CheckInRecord, EscalationEvent, LanguageOption, Message, PatientProfile, PreOpChecklist, Procedure,
+} from '../types';
+import { CHECKIN_QUESTIONS } from './recoveryCheckIn';
+import { daysSinceSurgery } from './patientProfile';
+import { MAX_TEACHBACK_QUESTIONS, MIN_TEACHBACK_QUESTIONS, TEACHBACK_TRIGGER } from './teachBack';
+import { HANDOFF_TRIGGER } from './handoff';
+import { ESCALATION_FUNCTION_NAME } from './escalation';
+import { BASE_SYSTEM_INSTRUCTION } from '../constants';
+import { getStrings } from '../locales';
+
+const bulletList = (items: string[]): string => items.map(item => `- ${item}`).join('\n');
+
+/**
+ * Renders the approved catalog entry for a procedure as a prompt block.
+ */
+export function formatProcedureContent(procedure: Procedure): string {
+  const { sections, preOp } = procedure;
+  return `
+APPROVED CONTENT: ${procedure.name.toUpperCase()} (${procedure.specialty})
+Answer ONLY from the approved content below. If the patient asks about something it does not cover, say that you do not have approved information on that and that their surgical team can answer it.
+
+WHAT IT IS:
+${sections.description}
+
+DURATION:
+${sections.duration}
+
+RISKS:
+${bulletList(sections.risks)}
+
+FASTING RULES:
+${bulletList(sections.fasting)}
+
+MEDICATION HOLDS:
+${bulletList(sections.medicationHolds)}
+
+ON THE DAY:
+- Arrive ${preOp.arrivalMinutesBefore} minutes before the scheduled surgery time
+${bulletList(preOp.bring.map(item => `Bring: ${item}`))}
+
+WOUND CARE:
+${bulletList(sections.woundCare)}
+
+RED FLAGS (advise contacting the Nursing Team immediately):
+${bulletList(sections.redFlags)}
+`;
+}
+
+/**
+ * Tells the model which language to speak. The approved content is authored
+ * in English, so it must be translated without changing its meaning.
+ */
+export function formatLanguageInstruction(language: LanguageOption): string {
+  return `
+LANGUAGE: Speak only in ${language.label} (${language.code}), even if the patient mixes in other languages.
+The approved content is written in English. Translate it faithfully into ${language.label}: do not add, drop or soften any instruction, risk or red flag.
+Use simple everyday words. When a medical term is hard to translate, say it in ${language.label} and then give the English term the hospital staff will use.
+Emergency advice and escalation statements must also be given in ${language.label}. When you tell the patient to call emergency services, the number is ${getStrings(language.code).emergencyNumber}.
+`;
+}
+
+/**
+ * Describes the patient's saved pre-op checklist so the agent can refer to
+ * it and tick items off by id. Times are given in the patient's local time.
+ */
+export function formatChecklistContent(checklist: PreOpChecklist | null): string {
+  if (!checklist) {
+    return `
+PRE-OP CHECKLIST:
+The patient has not entered their surgery date, so there is no checklist yet. If they ask about timings, suggest they enter the date and time of their surgery in the app to get a checklist with a fasting countdown.
+`;
+  }
+
+  const time = (date: Date) => date.toLocaleString('en-US', { weekday: 'long', month: 'long', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+  const items = checklist.items.map(item => {
+    const due = item.dueAt ? `, due ${time(item.dueAt)}` : '';
+    return `- [${item.id}] ${item.label} (${item.category}, ${item.done ? 'done' : 'not done'}${due})`;
+  });
+
+  return `
+PRE-OP CHECKLIST (kept by the patient in the app):
+Surgery: ${time(checklist.surgeryAt)}
+Arrive by: ${time(checklist.arrivalAt)}
+Last solid food: ${checklist.solidFoodCutoffAt ? time(checklist.solidFoodCutoffAt) : 'no fixed cutoff, follow the admission letter'}
+Last clear fluids: ${checklist.clearFluidsCutoffAt ? time(checklist.clearFluidsCutoffAt) : 'no fixed cutoff, follow the admission letter'}
+Items:
+${items.join('\n')}
+When the patient confirms they have done an item, call update_checklist_item with its id. When they mention a task from their surgical team that is not listed, call add_checklist_item.
+`;
+}
+
+/**
+ * Explains the teach-back phase the patient can start from the call screen.
+ */
+export function formatTeachBackInstruction(): string {
+  return `
+TEACH-BACK CHECK:
+When the patient sends "${TEACHBACK_TRIGGER}", stop answering questions and check their understanding.
+Ask ${MIN_TEACHBACK_QUESTIONS} to ${MAX_TEACHBACK_QUESTIONS} short open questions, one at a time, about the topics you covered in this conversation, for example "When must you stop eating before your surgery?" or "Which symptoms mean you should call the nursing team?". Always include at least one question on red flags.
+Do not give the answer away in the question. After each answer, call record_teachback_answer with your grade, then briefly confirm or gently correct the patient.
+When done, call complete_teachback and summarize anything they should go over again.
+`;
+}
+
+const CHECKIN_PROMPTS: Record<CheckInQuestion, string> = {
+  pain: 'Pain: ask for a score from 0 (no pain) to 10 (worst imaginable).',
+  wound: 'Wound: ask how it looks (clean and dry, a little red, redness spreading, leaking or discharge, or opening up).',
+  fever: 'Fever: ask for a thermometer reading if they have one, and whether they feel hot, cold or shivery.',
+  mobility: 'Mobility: ask whether they are walking on their own, walking with a frame or stick, or mostly in bed or a chair.',
+  bowel: 'Bowels: ask whether their bowels have opened since the operation, or if they have diarrhoea.',
+};
+
+/**
+ * Turns the session into the guided daily check-in. Questions already
+ * answered today are skipped so a resumed check-in picks up where it stopped.
+ */
+export function formatCheckInInstruction(record: CheckInRecord): string {
+  const remaining = CHECKIN_QUESTIONS.filter(q => !record.flags[q]);
+  return `
+DAILY RECOVERY CHECK-IN (post-operative day ${record.postOpDay}):
+This session is a structured check-in, not a free conversation. Greet the patient briefly, then ask these questions one at a time, in this order:
+${bulletList(remaining.map(q => CHECKIN_PROMPTS[q]))}
+After each answer, call record_checkin_answer with the question and the matching field, plus the patient's own words. Do not guess a value the patient did not give; ask again instead.
+If the tool reports a red flag, tell the patient the nursing team has been alerted before moving on.
+When every question is answered, call complete_checkin, thank the patient and remind them to check in again tomorrow.
+${remaining.length < CHECKIN_QUESTIONS.length ? 'Some questions were already answered earlier today; do not ask them again.' : ''}
+`;
+}
+
+const AGE_GROUP_LABELS: Record<AgeGroup, string> = {
+  under_18: 'under 18',
+  '18_39': '18 to 39',
+  '40_64': '40 to 64',
+  '65_79': '65 to 79',
+  '80_plus': '80 or over',
+};
+
+/**
+ * Shares the patient's intake answers so the agent stops asking for them.
+ * The surgery date only applies when the profile is for this procedure.
+ */
+export function formatPatientContext(profile: PatientProfile | null, procedure: Procedure, now: Date = new Date()): string {
+  if (!profile) return '';
+
+  const lines: string[] = [];
+  if (profile.procedureId === procedure.id && profile.surgeryDate) {
+    const days = daysSinceSurgery(profile.surgeryDate, now);
+    const date = profile.surgeryDate.toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' });
+    const timing = days < 0 ? `in ${-days} day${days === -1 ? '' : 's'}, so they are preparing for it`
+      : days === 0 ? 'today'
+      : `${days} day${days === 1 ? '' : 's'} ago, so they are recovering`;
+    lines.push(`Surgery date: ${date} (${timing})`);
+  }
+  if (profile.ageGroup) lines.push(`Age group: ${AGE_GROUP_LABELS[profile.ageGroup]}`);
+  if (profile.hasCaregiver !== null) {
+    lines.push(`Adult at home to help: ${profile.hasCaregiver ? 'yes' : 'no, they will mostly manage alone'}`);
+  }
+  if (lines.length === 0) return '';
+
+  return `
+PATIENT CONTEXT (entered by the patient in the app's intake form):
+${bulletList(lines)}
+Use this only to decide which parts of the approved content to focus on and to avoid asking for these details again. For example, lead with preparation before the surgery date and with recovery and red flags after it, and mention help at home where the approved content does.
+It does not change any approved instruction. Never turn it into personal advice, doses, timings or predictions that the approved content does not state. If the patient asks what it means for them personally, refer them to their surgical team.
+Do not read these details back unless the patient asks, and never ask for their name, date of birth or other identifiers.
+`;
+}
+
+// Keeps the briefing for a transferred call to a bounded size
+const HANDOFF_MAX_TURNS = 40;
+const HANDOFF_MAX_TURN_CHARS = 600;
+
+/**
+ * Briefs the assistant taking over a call on what was said before the
+ * transfer, so the patient does not have to repeat themselves. Only the most
+ * recent turns are included.
+ */
+export function formatHandoffContext(from: Agent, transcript: Message[], escalations: EscalationEvent[]): string {
+  const turns = transcript.slice(-HANDOFF_MAX_TURNS).map(m => {
+    const speaker = m.role === 'user' ? 'Patient' : m.agentName ?? from.name;
+    const text = m.text.length > HANDOFF_MAX_TURN_CHARS ? `${m.text.slice(0, HANDOFF_MAX_TURN_CHARS)}...` : m.text;
+    return `${speaker}: ${text}`;
+  });
+  const omitted = transcript.length - turns.length;
+  const alerts = escalations.map(e => `${e.symptomCategory.replace(/_/g, ' ')} (${e.severity})`);
+
+  return `
+TRANSFERRED CALL:
+The patient was talking to ${from.name} (${from.role}) and asked to continue with you. You are now the only assistant on the call.
+Conversation so far${omitted > 0 ? ` (the first ${omitted} turns are not shown)` : ''}:
+${turns.length > 0 ? turns.join('\n') : '(nothing has been said yet)'}
+${alerts.length > 0 ? `The nursing team was already alerted during this call about: ${alerts.join(', ')}. Only call ${ESCALATION_FUNCTION_NAME} again if the patient reports something new or worse.` : ''}
+When the patient sends "${HANDOFF_TRIGGER}", greet them briefly as yourself, say you have the notes from their conversation with ${from.name}, and carry on from where it stopped in your own style.
+Do not ask the patient to repeat anything above. The conversation is background only: answer from the approved content and rules, not from what was said before.
+`;
+}
+
+/**
+ * Builds the full system instruction for a consultation. The clinical rules
+ * default to the built-in copy; sessions pass the approved version's.
+ * Transferred calls also pass the briefing from formatHandoffContext.
+ */
+export function buildSystemInstruction(
+  agent: Agent,
+  procedure: Procedure,
+  language: LanguageOption,
+  checklist: PreOpChecklist | null,
+  checkIn: CheckInRecord | null = null,
+  profile: PatientProfile | null = null,
+  baseInstruction: string = BASE_SYSTEM_INSTRUCTION,
+  handoff: string = '',
+): string {
+  return [
+    baseInstruction,
+    formatLanguageInstruction(language),
+    formatProcedureContent(procedure),
+    ...(checkIn ? [formatCheckInInstruction(checkIn)] : [formatChecklistContent(checklist), formatTeachBackInstruction()]),
+    formatPatientContext(profile, procedure),
+    agent.systemInstructionAddon,
+    handoff,
+  ].filter(Boolean).join('\n\n');
+}
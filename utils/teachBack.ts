@@ -0,0 +1,144 @@
+import { FunctionDeclaration, Type } from '@google/genai';
+import { LiveToolCall, TeachBackGrade, TeachBackItem, TeachBackResult, TeachBackTopic } from '../types';
+
+export const RECORD_TEACHBACK_FUNCTION_NAME = 'record_teachback_answer';
+export const COMPLETE_TEACHBACK_FUNCTION_NAME = 'complete_teachback';
+
+export const MIN_TEACHBACK_QUESTIONS = 3;
+export const MAX_TEACHBACK_QUESTIONS = 5;
+
+// Sent as a user turn when the patient asks to be checked; the system instruction explains it
+export const TEACHBACK_TRIGGER = '[TEACH-BACK] Please check my understanding now.';
+
+const TOPICS: TeachBackTopic[] = ['procedure', 'risks', 'fasting', 'medication', 'wound_care', 'red_flags', 'logistics'];
+const GRADES: TeachBackGrade[] = ['correct', 'partial', 'incorrect'];
+
+const GRADE_POINTS: Record<TeachBackGrade, number> = { correct: 1, partial: 0.5, incorrect: 0 };
+
+/**
+ * Percentage of available points, counting a partial answer as half.
+ */
+export function teachBackScore(result: TeachBackResult): number {
+  if (result.items.length === 0) return 0;
+  const points = result.items.reduce((sum, item) => sum + GRADE_POINTS[item.grade], 0);
+  return Math.round((points / result.items.length) * 100);
+}
+
+export const itemsNeedingReinforcement = (result: TeachBackResult): TeachBackItem[] =>
+  result.items.filter(item => item.grade !== 'correct');
+
+/**
+ * Tools the agent uses to grade each teach-back answer.
+ */
+export const teachBackDeclarations: FunctionDeclaration[] = [
+  {
+    name: RECORD_TEACHBACK_FUNCTION_NAME,
+    description:
+      "Grade the patient's answer to one teach-back question against the approved content. Call this after each answer, before giving feedback.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        topic: {
+          type: Type.STRING,
+          enum: TOPICS,
+          description: 'The topic the question checks.',
+        },
+        question: {
+          type: Type.STRING,
+          description: 'The question you asked, e.g. "When must you stop eating before surgery?"',
+        },
+        patient_answer: {
+          type: Type.STRING,
+          description: "The patient's answer in their own words.",
+        },
+        grade: {
+          type: Type.STRING,
+          enum: GRADES,
+          description: '"correct" if the answer matches the approved content, "partial" if something important is missing, "incorrect" otherwise.',
+        },
+        reinforcement: {
+          type: Type.STRING,
+          description: 'For partial or incorrect answers: the key point the patient missed, in one short sentence.',
+        },
+      },
+      required: ['topic', 'question', 'patient_answer', 'grade'],
+    },
+  },
+  {
+    name: COMPLETE_TEACHBACK_FUNCTION_NAME,
+    description: 'Finish the teach-back check once all questions are graded.',
+    parameters: { type: Type.OBJECT, properties: {} },
+  },
+];
+
+export const isTeachBackCall = (call: LiveToolCall) =>
+  call.name === RECORD_TEACHBACK_FUNCTION_NAME || call.name === COMPLETE_TEACHBACK_FUNCTION_NAME;
+
+interface TeachBackCallResult {
+  result: TeachBackResult;
+  response: Record<string, unknown>;
+}
+
+const text = (value: unknown): string => (typeof value === 'string' ? value.trim() : '');
+
+/**
+ * Applies a teach-back function call, keeping the check between
+ * MIN_TEACHBACK_QUESTIONS and MAX_TEACHBACK_QUESTIONS questions long.
+ */
+export function applyTeachBackCall(result: TeachBackResult, call: LiveToolCall): TeachBackCallResult {
+  if (call.name === COMPLETE_TEACHBACK_FUNCTION_NAME) {
+    if (result.items.length < MIN_TEACHBACK_QUESTIONS) {
+      return {
+        result,
+        response: { error: `Ask at least ${MIN_TEACHBACK_QUESTIONS} questions; ${result.items.length} graded so far.` },
+      };
+    }
+    const completed = { ...result, completedAt: new Date() };
+    return {
+      result: completed,
+      response: {
+        output: {
+          score: teachBackScore(completed),
+          reinforce: itemsNeedingReinforcement(completed).map(item => item.reinforcement || item.question),
+        },
+      },
+    };
+  }
+
+  if (result.items.length >= MAX_TEACHBACK_QUESTIONS) {
+    return { result, response: { error: `Already ${MAX_TEACHBACK_QUESTIONS} questions graded. Call complete_teachback.` } };
+  }
+
+  const { args } = call;
+  const topic = TOPICS.includes(args.topic as TeachBackTopic) ? (args.topic as TeachBackTopic) : null;
+  const grade = GRADES.includes(args.grade as TeachBackGrade) ? (args.grade as TeachBackGrade) : null;
+  const question = text(args.question);
+  if (!topic || !grade || !question) {
+    return {
+      result,
+      response: { error: `topic (${TOPICS.join(', ')}), grade (${GRADES.join(', ')}) and question are required` },
+    };
+  }
+
+  const reinforcement = text(args.reinforcement);
+  const item: TeachBackItem = {
+    id: `tb-${Date.now()}-${result.items.length}`,
+    topic,
+    question,
+    patientAnswer: text(args.patient_answer),
+    grade,
+    reinforcement: grade !== 'correct' && reinforcement ? reinforcement : undefined,
+  };
+  const next = { ...result, items: [...result.items, item] };
+
+  return {
+    result: next,
+    response: {
+      output: {
+        graded: next.items.length,
+        remaining: MAX_TEACHBACK_QUESTIONS - next.items.length,
+        canComplete: next.items.length >= MIN_TEACHBACK_QUESTIONS,
+      },
+    },
+  };
+}
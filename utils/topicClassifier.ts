@@ -0,0 +1,47 @@
+import { Message, TopicCategory } from '../types';
+
+// Checked in order; a turn can fall under several topics
+const TOPIC_PATTERNS: [TopicCategory, RegExp][] = [
+  ['fasting', /\b(?:fast(?:ing)?|eat(?:ing)?|food|drink(?:ing)?|water|fluids?|nil by mouth|breakfast|coffee|chew(?:ing)? gum)\b/i],
+  ['medication', /\b(?:medicines?|medications?|meds|tablets?|pills?|blood thinners?|aspirin|warfarin|insulin|metformin|dose|inhaler)\b/i],
+  ['anesthesia', /\b(?:an(?:a)?esthe(?:sia|tic|tist)|general an(?:a)?esthetic|put (?:me )?to sleep|sedation|spinal|epidural|nerve block)\b/i],
+  ['risks', /\b(?:risks?|complications?|dangerous|safe|side effects?|go(?:es)? wrong|chances?)\b/i],
+  ['wound_care', /\b(?:wounds?|dressings?|stitches|staples|scars?|incisions?|cuts?|shower|bath(?:e)?|bandage)\b/i],
+  ['pain', /\b(?:pain(?:ful)?|hurts?|hurting|sore|ache|aching|painkillers?|paracetamol|ibuprofen)\b/i],
+  ['activity', /\b(?:walk(?:ing)?|exercise|lift(?:ing)?|driv(?:e|ing)|work|sport|stairs|physio(?:therapy)?|sex|travel|fly(?:ing)?|recover(?:y|ing)?|back to normal)\b/i],
+  ['symptoms', /\b(?:fever|temperature|bleeding|swelling|swollen|red(?:ness)?|vomit(?:ing)?|sick|nause(?:a|ous)|dizzy|breath(?:less|ing)?|yellow|discharge|infect(?:ed|ion))\b/i],
+  ['logistics', /\b(?:arriv(?:e|al)|what time|when (?:do|should) i come|bring|pack|parking|admission|hospital bag|go home|discharged?|appointment|how long)\b/i],
+];
+
+// The agent's stock reply when the approved content has nothing on a question
+const CONTENT_GAP_PATTERN = /\b(?:do not|don't) have approved information\b/i;
+
+/**
+ * Topics a single patient turn touches. Matching is keyword based and only
+ * English turns can match, since the keywords are authored in English.
+ */
+export function classifyTopics(text: string): TopicCategory[] {
+  return TOPIC_PATTERNS.filter(([, pattern]) => pattern.test(text)).map(([topic]) => topic);
+}
+
+/**
+ * Topics across the patient's turns, plus the topics of the questions the
+ * agent could not answer from approved content. A turn that matches nothing
+ * counts as "other".
+ */
+export function classifyTranscript(transcript: Message[]): { topics: TopicCategory[]; contentGaps: TopicCategory[] } {
+  const topics = new Set<TopicCategory>();
+  const contentGaps = new Set<TopicCategory>();
+  let lastPatientTopics: TopicCategory[] = [];
+
+  for (const message of transcript) {
+    if (message.role === 'user') {
+      const found = classifyTopics(message.text);
+      lastPatientTopics = found.length > 0 ? found : ['other'];
+      lastPatientTopics.forEach(topic => topics.add(topic));
+    } else if (CONTENT_GAP_PATTERN.test(message.text)) {
+      (lastPatientTopics.length > 0 ? lastPatientTopics : ['other' as const]).forEach(topic => contentGaps.add(topic));
+    }
+  }
+  return { topics: [...topics], contentGaps: [...contentGaps] };
+}
@@ -0,0 +1,44 @@
+import { Message } from '../types';
+
+/**
+ * Appends a partial transcription chunk to the conversation history.
+ * Chunks are merged into the speaker's latest turn while it is still open,
+ * even if the other side's chunks arrived in between (as they do when the
+ * patient talks over the agent), until that turn is finalized.
+ */
+export function appendTranscriptChunk(
+  history: Message[],
+  role: Message['role'],
+  text: string,
+): Message[] {
+  if (!text) return history;
+
+  const index = history.map(m => m.role).lastIndexOf(role);
+  const open = history[index];
+  if (open?.isPartial) {
+    return history.map((m, i) => (i === index ? { ...m, text: m.text + text } : m));
+  }
+
+  return [
+    ...history,
+    {
+      id: `${role}-${Date.now()}-${history.length}`,
+      role,
+      text,
+      timestamp: new Date(),
+      isPartial: true,
+    },
+  ];
+}
+
+/**
+ * Marks every open turn as complete, trimming stray whitespace left over
+ * from chunked transcription. Empty turns are dropped.
+ */
+export function finalizeTranscript(history: Message[]): Message[] {
+  if (!history.some(m => m.isPartial)) return history;
+
+  return history
+    .map(m => (m.isPartial ? { ...m, text: m.text.trim(), isPartial: false } : m))
+    .filter(m => m.text.length > 0);
+}
@@ -0,0 +1,99 @@
+// All counts are in 20 ms capture frames
+const ONSET_FRAMES = 3; // Speech must last 60 ms before the gate opens
+const HANGOVER_FRAMES = 20; // Keep streaming 400 ms past the last voiced frame
+const PRE_ROLL_FRAMES = 10; // Sent on opening so the first syllable is not clipped
+// Speech pauses for breath well within 10 s; sound that never dips is the ward getting louder
+const MAX_VOICED_STREAK_FRAMES = 500;
+
+// Speech has to stand this far above the ward's background level
+const SPEECH_MARGIN_DB = 12;
+// Quiet frames never count as speech, however still the room is
+const MIN_SPEECH_DBFS = -50;
+const INITIAL_NOISE_DBFS = -60;
+
+export interface VoiceActivityResult {
+  open: boolean; // Whether the gate is passing audio after this frame
+  frames: Int16Array[]; // Frames to stream now, pre-roll included
+}
+
+export interface VoiceActivityDetector {
+  process: (pcm: Int16Array) => VoiceActivityResult;
+  reset: () => void;
+}
+
+const frameLevelDb = (pcm: Int16Array): number => {
+  let sum = 0;
+  for (let i = 0; i < pcm.length; i++) sum += pcm[i] * pcm[i];
+  const rms = Math.sqrt(sum / pcm.length) / 0x8000;
+  return 20 * Math.log10(Math.max(rms, 1e-6));
+};
+
+/**
+ * Energy-based gate for hands-free mode. It tracks the background noise
+ * level and only opens for sound well above it, so steady ward noise and
+ * distant chatter are not streamed to the agent.
+ */
+export function createVoiceActivityDetector(): VoiceActivityDetector {
+  let noiseDb = INITIAL_NOISE_DBFS;
+  let open = false;
+  let voicedRun = 0;
+  let quietRun = 0;
+  let preRoll: Int16Array[] = [];
+  // Frames in a row judged voiced, and the quietest of them
+  let voicedStreak = 0;
+  let streakFloorDb = 0;
+
+  return {
+    process: (pcm) => {
+      const level = frameLevelDb(pcm);
+      const voiced = level > Math.max(noiseDb + SPEECH_MARGIN_DB, MIN_SPEECH_DBFS);
+
+      if (!voiced) {
+        // Follow the noise floor down quickly and up slowly
+        noiseDb += (level - noiseDb) * (level < noiseDb ? 0.2 : 0.02);
+        voicedStreak = 0;
+      } else {
+        streakFloorDb = voicedStreak === 0 ? level : Math.min(streakFloorDb, level);
+        voicedStreak++;
+        // The floor only learns from unvoiced frames, so a lasting rise in
+        // noise would hold the gate open for good: re-estimate it and close
+        if (voicedStreak >= MAX_VOICED_STREAK_FRAMES) {
+          noiseDb = streakFloorDb;
+          voicedStreak = 0;
+          voicedRun = 0;
+          preRoll = [];
+          open = false;
+          return { open, frames: [] };
+        }
+      }
+
+      if (open) {
+        quietRun = voiced ? 0 : quietRun + 1;
+        if (quietRun > HANGOVER_FRAMES) {
+          open = false;
+          voicedRun = 0;
+          return { open, frames: [] };
+        }
+        return { open, frames: [pcm] };
+      }
+
+      preRoll.push(pcm);
+      if (preRoll.length > PRE_ROLL_FRAMES) preRoll.shift();
+      voicedRun = voiced ? voicedRun + 1 : 0;
+      if (voicedRun < ONSET_FRAMES) return { open, frames: [] };
+
+      open = true;
+      quietRun = 0;
+      const frames = preRoll;
+      preRoll = [];
+      return { open, frames };
+    },
+    reset: () => {
+      open = false;
+      voicedRun = 0;
+      quietRun = 0;
+      preRoll = [];
+      voicedStreak = 0;
+    },
+  };
+}
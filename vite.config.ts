@@ -8,11 +8,17 @@ export default defineConfig(({ mode }) => {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy: {
+          // Token server holds GEMINI_API_KEY; see server/token-server.js
+          '/api': `http://127.0.0.1:${env.TOKEN_SERVER_PORT || 8787}`,
+        },
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        // Never inline the API key here: anything defined ends up in the client bundle
+        'process.env.LIVE_TOKEN_URL': JSON.stringify(env.LIVE_TOKEN_URL || '/api/live-token'),
+        'process.env.LIVE_PROVIDER': JSON.stringify(env.LIVE_PROVIDER || 'gemini'),
+        'process.env.CONTENT_API_URL': JSON.stringify(env.CONTENT_API_URL || '/api/content'),
       },
       resolve: {
         alias: {